@@ -15,120 +15,539 @@ import { StatusBar } from 'expo-status-bar';
 import * as Clipboard from 'expo-clipboard';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  STANDARD_METHODS,
+  HttpMethod,
+  isHeadersOnlyMethod,
+  isStandardMethod,
+  methodAllowsBody,
+  normalizeMethod
+} from './src/lib/http';
+import { findDuplicateHeaders } from './src/lib/headers';
+import {
+  BODY_TYPES,
+  BodyDraft,
+  MultipartField,
+  RAW_CONTENT_TYPES,
+  createDefaultBodyDraft,
+  describeBody
+} from './src/lib/body';
+import { AuthConfig, authorizeRequest, createAuth, effectiveAuth, previewAuth } from './src/lib/auth';
+import { CodeLanguage } from './src/lib/codegen';
+import {
+  API_SPECS_STORAGE_KEY,
+  ApiOperation,
+  ApiSpec,
+  findApiOperation,
+  listApiServers,
+  operationContract,
+  parseApiSpecs
+} from './src/lib/openapi';
+import { ResponseValidation, checkResponse } from './src/lib/schema';
+import { Assertion, AssertionResult, runAssertions } from './src/lib/assertions';
+import { ExtractionResult, ExtractionRule, extractedVariables, runExtractions } from './src/lib/extraction';
+import { RunContext, RunTarget } from './src/lib/runner';
+import { hasScript } from './src/lib/scripts';
+import { DEFAULT_RETRY_POLICY, RetryAttempt, RetryPolicy, sendWithRetry } from './src/lib/retry';
+import { OAUTH_TOKENS_STORAGE_KEY, TokenCache, fetchToken, parseTokenCache, tokenCacheKey } from './src/lib/oauth';
+import { KeyValueRow } from './src/lib/keyValue';
+import { replaceUrlQuery, splitUrl, syncParamsFromUrl } from './src/lib/query';
+import { findPathParams } from './src/lib/pathParams';
+import { ResponseMeta, formatBytes, formatDuration, getHeaderGroup } from './src/lib/response';
+import { ResponseBody, formatResponseBody } from './src/lib/responseBody';
+import {
+  RequestDraft,
+  describeRequestError,
+  DEFAULT_TIMEOUT_MS,
+  executeWithAuth,
+  PreparedRequest,
+  RequestBuildError
+} from './src/lib/request';
+import {
+  DYNAMIC_VARIABLES,
+  findUnresolved,
+  findUnresolvedInDraft,
+  prepareTemplatedRequest,
+  resolveAuth
+} from './src/lib/templating';
+import {
+  HISTORY_STORAGE_KEY,
+  HistoryEntry,
+  addHistoryEntry,
+  createHistoryEntry,
+  parseHistory
+} from './src/lib/history';
+import {
+  COLLECTIONS_STORAGE_KEY,
+  Collection,
+  SavedRequest,
+  SavedRequestData,
+  addSavedRequest,
+  createSavedRequest,
+  parseCollections,
+  toSavedRequestData,
+  updateSavedRequest
+} from './src/lib/collections';
+import {
+  BASE_URL_VARIABLE,
+  ENVIRONMENTS_STORAGE_KEY,
+  EnvironmentState,
+  LEGACY_URLS_STORAGE_KEY,
+  getActiveEnvironment,
+  getVariables,
+  loadEnvironmentState,
+  setVariable,
+  setVariables
+} from './src/lib/environments';
+import { getStatusClass, getStatusText } from './src/lib/status';
+import KeyValueEditor from './components/KeyValueEditor';
+import HistoryPanel from './components/HistoryPanel';
+import CollectionsPanel from './components/CollectionsPanel';
+import EnvironmentPanel from './components/EnvironmentPanel';
+import AuthEditor from './components/AuthEditor';
+import CurlImportPanel from './components/CurlImportPanel';
+import CodeSnippetPanel from './components/CodeSnippetPanel';
+import ApiSpecsPanel from './components/ApiSpecsPanel';
+import SchemaValidationPanel from './components/SchemaValidationPanel';
+import AssertionsEditor from './components/AssertionsEditor';
+import AssertionResultsPanel from './components/AssertionResultsPanel';
+import ExtractionsEditor from './components/ExtractionsEditor';
+import CollectionRunnerPanel from './components/CollectionRunnerPanel';
+import ResponseDiffPanel from './components/ResponseDiffPanel';
+import RetryEditor from './components/RetryEditor';
+import RetryTimeline from './components/RetryTimeline';
+import ResponseBodyPanel from './components/ResponseBodyPanel';
 
 export default function App() {
-  const [method, setMethod] = useState<'GET' | 'POST' | 'PUT'>('GET');
+  const [method, setMethod] = useState<HttpMethod>('GET');
+  const [isCustomMethod, setIsCustomMethod] = useState(false);
   const [url, setUrl] = useState('');
   const [baseUrl, setBaseUrl] = useState('');
-  const [environment, setEnvironment] = useState<'development' | 'production'>('development');
-  const [useAuth, setUseAuth] = useState(false);
-  const [token, setToken] = useState('');
-  const [jsonBody, setJsonBody] = useState('');
-  const [urlParams, setUrlParams] = useState('');
+  const [auth, setAuth] = useState<AuthConfig>(() => createAuth());
+  const [headerRows, setHeaderRows] = useState<KeyValueRow[]>([]);
+  const [bodyDraft, setBodyDraft] = useState<BodyDraft>(createDefaultBodyDraft);
+  const [responseSchema, setResponseSchema] = useState('');
+  const [assertions, setAssertions] = useState<Assertion[]>([]);
+  const [extractions, setExtractions] = useState<ExtractionRule[]>([]);
+  // Scripts need a Web Worker, so they're only kept here for requests shared with the web app
+  const [preRequestScript, setPreRequestScript] = useState('');
+  const [postResponseScript, setPostResponseScript] = useState('');
+  const [timeoutMs, setTimeoutMs] = useState(DEFAULT_TIMEOUT_MS);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [pathParams, setPathParams] = useState<Record<string, string>>({});
+  const [params, setParams] = useState<KeyValueRow[]>([]);
+  // The body as copied and kept in history, and as received for rendering
   const [response, setResponse] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [responseBody, setResponseBody] = useState<ResponseBody | null>(null);
+  // Set while a request is in flight, to cancel it
+  const [sendController, setSendController] = useState<AbortController | null>(null);
+  const loading = sendController !== null;
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState('');
   const [statusCode, setStatusCode] = useState<number | null>(null);
-  const [savedUrls, setSavedUrls] = useState({
-    development: '',
-    production: ''
-  });
+  const [responseMeta, setResponseMeta] = useState<ResponseMeta | null>(null);
+  const [validation, setValidation] = useState<ResponseValidation | null>(null);
+  const [assertionResults, setAssertionResults] = useState<AssertionResult[]>([]);
+  const [extractionResults, setExtractionResults] = useState<ExtractionResult[]>([]);
+  const [attempts, setAttempts] = useState<RetryAttempt[]>([]);
+  const [responseTab, setResponseTab] = useState<'body' | 'headers' | 'timing' | 'request' | 'code' | 'schema' | 'tests'>('body');
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('curl');
+  const [sentRequest, setSentRequest] = useState<PreparedRequest | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionsLoaded, setCollectionsLoaded] = useState(false);
+  const [openRequestId, setOpenRequestId] = useState<string | null>(null);
+  const [showCollections, setShowCollections] = useState(false);
+  const [apiSpecs, setApiSpecs] = useState<ApiSpec[]>([]);
+  const [apiSpecsLoaded, setApiSpecsLoaded] = useState(false);
+  const [openOperationId, setOpenOperationId] = useState<string | null>(null);
+  const [showApiSpecs, setShowApiSpecs] = useState(false);
+  const [envState, setEnvState] = useState<EnvironmentState>({ environments: [], activeId: null });
+  const [envLoaded, setEnvLoaded] = useState(false);
+  const [oauthTokens, setOAuthTokens] = useState<TokenCache>({});
+  const [oauthTokensLoaded, setOAuthTokensLoaded] = useState(false);
+  const [fetchingToken, setFetchingToken] = useState(false);
+  const [showCurlImport, setShowCurlImport] = useState(false);
+  const [runTarget, setRunTarget] = useState<RunTarget | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const activeEnvironment = getActiveEnvironment(envState);
+  const variables = getVariables(activeEnvironment);
+  const savedBaseUrl = variables[BASE_URL_VARIABLE] || '';
+
+  // Load environments from AsyncStorage on component mount, migrating the old saved URLs
+  useEffect(() => {
+    const loadEnvironments = async () => {
+      try {
+        const [savedData, legacyData] = await Promise.all([
+          AsyncStorage.getItem(ENVIRONMENTS_STORAGE_KEY),
+          AsyncStorage.getItem(LEGACY_URLS_STORAGE_KEY)
+        ]);
+        setEnvState(loadEnvironmentState(savedData, legacyData));
+        setEnvLoaded(true);
+      } catch (e) {
+        // Defaults keep the form usable, but saving stays off so they don't overwrite what's stored
+        console.error('Failed to load environments', e);
+        setEnvState(loadEnvironmentState(null, null));
+      }
+    };
+    
+    loadEnvironments();
+  }, []);
+
+  // Persist environments whenever they change, once the stored copy has been read; a failed read leaves saving off
+  useEffect(() => {
+    if (!envLoaded) return;
+    AsyncStorage.setItem(ENVIRONMENTS_STORAGE_KEY, JSON.stringify(envState)).catch((e) => {
+      console.error('Failed to save environments', e);
+    });
+  }, [envState, envLoaded]);
+
+  // Load request history from AsyncStorage on component mount
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setHistory(parseHistory(await AsyncStorage.getItem(HISTORY_STORAGE_KEY)));
+        setHistoryLoaded(true);
+      } catch (e) {
+        console.error('Failed to load request history', e);
+      }
+    };
+    
+    loadHistory();
+  }, []);
+
+  // Persist history whenever it changes, once the stored copy has been read
+  useEffect(() => {
+    if (!historyLoaded) return;
+    AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history)).catch((e) => {
+      console.error('Failed to save request history', e);
+    });
+  }, [history, historyLoaded]);
+
+  // Load collections from AsyncStorage on component mount
+  useEffect(() => {
+    const loadCollections = async () => {
+      try {
+        setCollections(parseCollections(await AsyncStorage.getItem(COLLECTIONS_STORAGE_KEY)));
+        setCollectionsLoaded(true);
+      } catch (e) {
+        console.error('Failed to load collections', e);
+      }
+    };
+    
+    loadCollections();
+  }, []);
+
+  // Persist collections whenever they change, once the stored copy has been read
+  useEffect(() => {
+    if (!collectionsLoaded) return;
+    AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections)).catch((e) => {
+      console.error('Failed to save collections', e);
+    });
+  }, [collections, collectionsLoaded]);
+
+  // Load imported API specs from AsyncStorage on component mount
+  useEffect(() => {
+    const loadApiSpecs = async () => {
+      try {
+        setApiSpecs(parseApiSpecs(await AsyncStorage.getItem(API_SPECS_STORAGE_KEY)));
+        setApiSpecsLoaded(true);
+      } catch (e) {
+        console.error('Failed to load API specs', e);
+      }
+    };
+
+    loadApiSpecs();
+  }, []);
+
+  // Persist API specs whenever they change, once the stored copy has been read
+  useEffect(() => {
+    if (!apiSpecsLoaded) return;
+    AsyncStorage.setItem(API_SPECS_STORAGE_KEY, JSON.stringify(apiSpecs)).catch((e) => {
+      console.error('Failed to save API specs', e);
+    });
+  }, [apiSpecs, apiSpecsLoaded]);
 
-  // Load saved URLs from AsyncStorage on component mount
+  // Load cached OAuth tokens from AsyncStorage on component mount
   useEffect(() => {
-    const loadSavedUrls = async () => {
+    const loadOAuthTokens = async () => {
       try {
-        const savedData = await AsyncStorage.getItem('apiTesterUrls');
-        if (savedData) {
-          const parsed = JSON.parse(savedData);
-          setSavedUrls(parsed);
-          setBaseUrl(parsed[environment]);
-        }
+        setOAuthTokens(parseTokenCache(await AsyncStorage.getItem(OAUTH_TOKENS_STORAGE_KEY)));
+        setOAuthTokensLoaded(true);
       } catch (e) {
-        console.error('Failed to load saved URLs', e);
+        console.error('Failed to load OAuth tokens', e);
       }
     };
     
-    loadSavedUrls();
+    loadOAuthTokens();
   }, []);
 
+  // Persist OAuth tokens whenever they change, once the stored copy has been read
+  useEffect(() => {
+    if (!oauthTokensLoaded) return;
+    AsyncStorage.setItem(OAUTH_TOKENS_STORAGE_KEY, JSON.stringify(oauthTokens)).catch((e) => {
+      console.error('Failed to save OAuth tokens', e);
+    });
+  }, [oauthTokens, oauthTokensLoaded]);
+
   // Update baseUrl when environment changes
   useEffect(() => {
-    setBaseUrl(savedUrls[environment] || '');
-  }, [environment, savedUrls]);
+    setBaseUrl(savedBaseUrl);
+  }, [envState.activeId, savedBaseUrl]);
 
-  const saveBaseUrl = async () => {
-    try {
-      const newSavedUrls = {
-        ...savedUrls,
-        [environment]: baseUrl
-      };
-      setSavedUrls(newSavedUrls);
-      await AsyncStorage.setItem('apiTesterUrls', JSON.stringify(newSavedUrls));
-    } catch (e) {
-      console.error('Failed to save URL', e);
-    }
+  const saveBaseUrl = () => {
+    if (!activeEnvironment) return;
+    setEnvState(setVariable(envState, activeEnvironment.id, BASE_URL_VARIABLE, baseUrl));
+  };
+
+  // The URL's query string and the params table mirror each other
+  const changeUrl = (value: string) => {
+    setUrl(value);
+    setParams(syncParamsFromUrl(value, params));
+  };
+
+  const changeParams = (rows: KeyValueRow[]) => {
+    setParams(rows);
+    setUrl(replaceUrlQuery(url, rows));
+  };
+
+  // Snapshot of the form, as sent and as stored in history
+  const currentDraft = (): RequestDraft => ({
+    method,
+    baseUrl,
+    url,
+    pathParams,
+    params,
+    headers: headerRows,
+    auth,
+    responseSchema,
+    assertions,
+    extractions,
+    preRequestScript,
+    postResponseScript,
+    timeoutMs,
+    retry: retryPolicy,
+    ...bodyDraft
+  });
+
+  // Put a stored request back into the form for editing
+  const loadDraft = (draft: RequestDraft) => {
+    const draftMethod = normalizeMethod(draft.method);
+    setMethod(draftMethod);
+    setIsCustomMethod(!isStandardMethod(draftMethod));
+    setBaseUrl(draft.baseUrl);
+    setUrl(draft.url);
+    setPathParams(draft.pathParams);
+    setParams(draft.params);
+    setHeaderRows(draft.headers);
+    setAuth(draft.auth);
+    setResponseSchema(draft.responseSchema);
+    setAssertions(draft.assertions);
+    setExtractions(draft.extractions);
+    setPreRequestScript(draft.preRequestScript);
+    setPostResponseScript(draft.postResponseScript);
+    setTimeoutMs(draft.timeoutMs);
+    setRetryPolicy(draft.retry);
+    setBodyDraft({
+      bodyType: draft.bodyType,
+      body: draft.body,
+      rawContentType: draft.rawContentType,
+      formFields: draft.formFields,
+      multipartFields: draft.multipartFields,
+      binaryFile: draft.binaryFile
+    });
   };
 
-  const handleSubmit = async () => {
-    setLoading(true);
+  const changeBody = (changes: Partial<BodyDraft>) => setBodyDraft({ ...bodyDraft, ...changes });
+
+  // Values pulled out of a response go into the active environment, where later requests read them
+  const storeVariables = (values: Record<string, string>) => {
+    if (!activeEnvironment || Object.keys(values).length === 0) return;
+    const envId = activeEnvironment.id;
+    setEnvState((prev) => setVariables(prev, envId, values));
+  };
+
+  // operationId names the imported spec operation the form came from, whose responses it's checked against
+  const sendRequest = async (draft: RequestDraft, operationId: string | null) => {
+    const controller = new AbortController();
+    setSendController(controller);
     setError('');
     setResponse('');
+    setResponseBody(null);
     setStatusCode(null);
+    setResponseMeta(null);
+    setValidation(null);
+    setAssertionResults([]);
+    setExtractionResults([]);
+    setAttempts([]);
+    setSentRequest(null);
 
     try {
-      // Construct the full URL
-      const fullUrl = `${baseUrl}${url}${urlParams ? `?${urlParams}` : ''}`;
-      
-      // Prepare headers
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      
-      if (useAuth && token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
+      // Fill in {{variables}} and auth from the active environment before building the request
+      const requestAuth = effectiveAuth(draft.auth, activeEnvironment?.auth);
+      const prepared = prepareTemplatedRequest({ ...draft, auth: requestAuth }, variables);
+      setSentRequest(prepared);
+      // Schemes like OAuth 2.0 fetch or refresh their token here
+      const resolvedAuth = resolveAuth(requestAuth, variables);
+      const authorized = await authorizeRequest(prepared, resolvedAuth, oauthTokens, {
+        signal: controller.signal,
+        timeoutMs: draft.timeoutMs
+      });
+      setOAuthTokens(authorized.tokens);
+      setSentRequest(authorized.request);
+      const exchange = await sendWithRetry(
+        draft.retry,
+        () => executeWithAuth(authorized.request, resolvedAuth, { signal: controller.signal, timeoutMs: draft.timeoutMs }),
+        { signal: controller.signal, onAttempt: setAttempts }
+      );
+      const result = exchange.result;
+      setSentRequest(exchange.request);
+      const formatted = formatResponseBody(result.body);
+      setStatusCode(result.status);
+      setResponseMeta(result.meta);
+      setResponse(formatted);
+      setResponseBody(result.body);
+      const found = operationId ? findApiOperation(apiSpecs, operationId) : null;
+      setValidation(checkResponse(
+        draft.responseSchema,
+        found && operationContract(found.spec, found.operation),
+        result.status,
+        result.text
+      ));
+      setAssertionResults(runAssertions(draft.assertions, {
+        status: result.status,
+        headers: result.meta.headers,
+        text: result.text,
+        durationMs: result.meta.durationMs
+      }));
+      const extracted = runExtractions(draft.extractions, { headers: result.meta.headers, text: result.text });
+      setExtractionResults(extracted);
+      storeVariables(extractedVariables(extracted));
       
-      // Prepare request options
-      const options: RequestInit = {
-        method,
-        headers,
-      };
-      
-      // Add body for POST and PUT requests
-      if (method !== 'GET' && jsonBody) {
-        try {
-          // Validate JSON
-          JSON.parse(jsonBody);
-          options.body = jsonBody;
-        } catch (e) {
-          setError('Invalid JSON in request body');
-          setLoading(false);
-          return;
-        }
+      // HEAD and OPTIONS usually have no body, so show their headers instead
+      if (isHeadersOnlyMethod(prepared.method)) {
+        setResponseTab('headers');
       }
       
-      // Make the request
-      const res = await fetch(fullUrl, options);
-      setStatusCode(res.status);
+      setHistory((prev) => addHistoryEntry(prev, createHistoryEntry(draft, {
+        status: result.status,
+        durationMs: result.meta.durationMs,
+        response: formatted
+      })));
+    } catch (err) {
+      const message = describeRequestError(err);
+      setError(message);
       
-      try {
-        const data = await res.json();
-        // Format and display the response
-        setResponse(JSON.stringify(data, null, 2));
-      } catch (e) {
-        // Handle non-JSON responses
-        const text = await res.text();
-        setResponse(text || 'No response body');
+      // Only requests that actually went out belong in the history
+      if (!(err instanceof RequestBuildError)) {
+        setHistory((prev) => addHistoryEntry(prev, createHistoryEntry(draft, {
+          status: null,
+          durationMs: null,
+          response: '',
+          error: message
+        })));
       }
+    } finally {
+      setSendController(null);
+    }
+  };
+
+  // Fetches a fresh OAuth token on demand, replacing the cached one
+  const refreshOAuthToken = async () => {
+    const resolved = resolveAuth(effectiveAuth(auth, activeEnvironment?.auth), variables);
+    setFetchingToken(true);
+    setError('');
+    try {
+      const token = await fetchToken(resolved, { timeoutMs });
+      setOAuthTokens((prev) => ({ ...prev, [tokenCacheKey(resolved)]: token }));
     } catch (err) {
-      setError(`Request failed: ${err instanceof Error ? err.message : String(err)}`);
+      setError(describeRequestError(err));
     } finally {
-      setLoading(false);
+      setFetchingToken(false);
     }
   };
 
+  const handleSubmit = () => {
+    sendRequest(currentDraft(), openOperationId);
+  };
+
+  const rerunHistoryEntry = (entry: HistoryEntry) => {
+    setOpenRequestId(null);
+    setOpenOperationId(null);
+    loadDraft(entry.request);
+    sendRequest(entry.request, null);
+  };
+
+  // Saved requests carry no base URL, so they run against the current environment
+  const openSavedRequest = (saved: SavedRequest) => {
+    setOpenOperationId(null);
+    loadDraft({ ...saved.request, baseUrl });
+    setOpenRequestId(saved.id);
+  };
+
+  // Spec operations fill the form against the current base URL, like saved requests
+  const openApiOperation = (operation: ApiOperation) => {
+    setOpenRequestId(null);
+    loadDraft({ ...operation.request, baseUrl });
+    setOpenOperationId(operation.id);
+  };
+
+  const saveCurrentRequest = (collectionId: string, folderId: string | null, name: string) => {
+    const saved = createSavedRequest(name, toSavedRequestData(currentDraft()));
+    setCollections(addSavedRequest(collections, collectionId, folderId, saved));
+    setOpenRequestId(saved.id);
+  };
+
+  // Sends saved requests for the collection runner against the current base URL and environment.
+  // Tokens fetched along the way are reused by the rest of the run. Scripts can't run here, so a request that
+  // needs one is reported rather than sent as if it had run
+  const createRunContext = (): RunContext => {
+    let tokens = oauthTokens;
+    const send = async (saved: SavedRequestData, runVariables: Record<string, string>, signal: AbortSignal) => {
+      if (hasScript(saved.preRequestScript)) {
+        throw new RequestBuildError("Its pre-request script only runs in the web app, so it wasn't sent");
+      }
+      const requestAuth = effectiveAuth(saved.auth, activeEnvironment?.auth);
+      const prepared = prepareTemplatedRequest({ ...saved, baseUrl, auth: requestAuth }, runVariables);
+      const resolvedAuth = resolveAuth(requestAuth, runVariables);
+      const authorized = await authorizeRequest(prepared, resolvedAuth, tokens, { signal, timeoutMs: saved.timeoutMs });
+      tokens = authorized.tokens;
+      setOAuthTokens(tokens);
+      const { result } = await sendWithRetry(
+        saved.retry,
+        () => executeWithAuth(authorized.request, resolvedAuth, { signal, timeoutMs: saved.timeoutMs }),
+        { signal }
+      );
+      const scriptError = hasScript(saved.postResponseScript) ? 'it only runs in the web app' : null;
+      return { result, variables: {}, scriptError };
+    };
+    return { send, variables, onVariables: storeVariables };
+  };
+
+  // Sends the form against another environment's base URL, variables and auth for comparing responses.
+  // Nothing lands in history or the environment
+  const sendToEnvironment = async (envId: string, signal: AbortSignal) => {
+    const env = envState.environments.find((item) => item.id === envId) || null;
+    const envVariables = getVariables(env);
+    const draft = currentDraft();
+    const requestAuth = effectiveAuth(draft.auth, env?.auth);
+    const prepared = prepareTemplatedRequest(
+      { ...draft, baseUrl: envVariables[BASE_URL_VARIABLE] || '', auth: requestAuth },
+      envVariables
+    );
+    const resolvedAuth = resolveAuth(requestAuth, envVariables);
+    const authorized = await authorizeRequest(prepared, resolvedAuth, oauthTokens, { signal, timeoutMs: draft.timeoutMs });
+    setOAuthTokens(authorized.tokens);
+    const { result } = await sendWithRetry(
+      draft.retry,
+      () => executeWithAuth(authorized.request, resolvedAuth, { signal, timeoutMs: draft.timeoutMs }),
+      { signal }
+    );
+    return result.body.text;
+  };
+
   const copyToClipboard = async () => {
     await Clipboard.setStringAsync(response);
     setCopied(true);
@@ -137,8 +556,8 @@ export default function App() {
 
   const formatJsonBody = () => {
     try {
-      const formatted = JSON.stringify(JSON.parse(jsonBody), null, 2);
-      setJsonBody(formatted);
+      const formatted = JSON.stringify(JSON.parse(bodyDraft.body), null, 2);
+      changeBody({ body: formatted });
     } catch (e) {
       setError('Invalid JSON in request body');
     }
@@ -146,32 +565,36 @@ export default function App() {
 
   // Get status code color
   const getStatusCodeColor = (code: number | null) => {
-    if (!code) return '#6B7280'; // gray
-    if (code >= 200 && code < 300) return '#10B981'; // green
-    if (code >= 300 && code < 400) return '#3B82F6'; // blue
-    if (code >= 400 && code < 500) return '#F59E0B'; // yellow
-    return '#EF4444'; // red
+    const colors = {
+      none: '#6B7280', // gray
+      success: '#10B981', // green
+      redirect: '#3B82F6', // blue
+      clientError: '#F59E0B', // yellow
+      serverError: '#EF4444' // red
+    };
+    return colors[getStatusClass(code)];
   };
 
-  // Get status text
-  const getStatusText = (code: number | null) => {
-    if (!code) return '';
-    
-    const statusTexts: Record<number, string> = {
-      200: 'OK',
-      201: 'Created',
-      204: 'No Content',
-      400: 'Bad Request',
-      401: 'Unauthorized',
-      403: 'Forbidden',
-      404: 'Not Found',
-      500: 'Internal Server Error',
-      502: 'Bad Gateway',
-      503: 'Service Unavailable'
-    };
-    
-    return statusTexts[code] || '';
+  const apiServers = listApiServers(apiSpecs);
+  const openOperation = openOperationId ? findApiOperation(apiSpecs, openOperationId) : null;
+  const pathParamNames = findPathParams(splitUrl(url).path);
+
+  // Placeholders in the form that the active environment can't fill
+  const requestAuth = effectiveAuth(auth, activeEnvironment?.auth);
+  const unresolvedVariables = findUnresolvedInDraft({ ...currentDraft(), auth: requestAuth }, variables);
+  const oauthKey = requestAuth.type === 'oauth2' ? tokenCacheKey(resolveAuth(requestAuth, variables)) : null;
+
+  // The request Send would make right now, for the Code tab
+  const buildSnippetRequest = () => {
+    try {
+      const prepared = prepareTemplatedRequest({ ...currentDraft(), auth: requestAuth }, variables);
+      return { request: previewAuth(prepared, resolveAuth(requestAuth, variables), oauthTokens), error: '' };
+    } catch (err) {
+      return { request: null, error: describeRequestError(err) };
+    }
   };
+  const snippet = responseTab === 'code' ? buildSnippetRequest() : null;
+  const unresolvedStyle = (text: string) => findUnresolved(text, variables).length > 0 && styles.inputUnresolved;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -185,33 +608,28 @@ export default function App() {
           
           {/* Request Panel */}
           <View style={styles.panel}>
-            <Text style={styles.panelTitle}>Request</Text>
+            <View style={styles.panelTitleRow}>
+              <Text style={[styles.panelTitle, styles.panelTitleInRow]}>Request</Text>
+              <TouchableOpacity onPress={() => setShowCurlImport(!showCurlImport)}>
+                <Text style={styles.formatButton}>{showCurlImport ? 'Close' : 'Paste cURL'}</Text>
+              </TouchableOpacity>
+            </View>
+            {showCurlImport && (
+              <CurlImportPanel
+                onImport={(draft) => {
+                  setOpenRequestId(null);
+                  setOpenOperationId(null);
+                  loadDraft(draft);
+                  setShowCurlImport(false);
+                }}
+                onCancel={() => setShowCurlImport(false)}
+              />
+            )}
             
             {/* Environment Selection */}
             <View style={styles.formGroup}>
               <Text style={styles.label}>Environment</Text>
-              <View style={styles.radioGroup}>
-                <TouchableOpacity 
-                  style={styles.radioButton} 
-                  onPress={() => setEnvironment('development')}
-                >
-                  <View style={[
-                    styles.radio, 
-                    environment === 'development' && styles.radioSelected
-                  ]} />
-                  <Text style={styles.radioLabel}>Development</Text>
-                </TouchableOpacity>
-                <TouchableOpacity 
-                  style={styles.radioButton} 
-                  onPress={() => setEnvironment('production')}
-                >
-                  <View style={[
-                    styles.radio, 
-                    environment === 'production' && styles.radioSelected
-                  ]} />
-                  <Text style={styles.radioLabel}>Production</Text>
-                </TouchableOpacity>
-              </View>
+              <EnvironmentPanel state={envState} onChange={setEnvState} />
             </View>
             
             {/* Base URL with Save Button */}
@@ -219,8 +637,8 @@ export default function App() {
               <Text style={styles.label}>Base URL</Text>
               <View style={styles.inputWithButton}>
                 <TextInput
-                  style={styles.inputWithButtonField}
-                  placeholder={environment === 'development' ? 'http://localhost:3000' : 'https://api.example.com'}
+                  style={[styles.inputWithButtonField, unresolvedStyle(baseUrl)]}
+                  placeholder="https://api.example.com"
                   value={baseUrl}
                   onChangeText={setBaseUrl}
                 />
@@ -228,10 +646,25 @@ export default function App() {
                   <Icon name="content-save" size={20} color="#4B5563" />
                 </TouchableOpacity>
               </View>
-              {savedUrls[environment] ? (
+              {savedBaseUrl ? (
                 <View style={styles.savedUrlContainer}>
                   <Icon name="database" size={12} color="#6B7280" />
-                  <Text style={styles.savedUrlText}>Saved: {savedUrls[environment]}</Text>
+                  <Text style={styles.savedUrlText}>Saved: {savedBaseUrl}</Text>
+                </View>
+              ) : null}
+              {apiServers.length > 0 ? (
+                <View style={styles.specServers}>
+                  <Icon name="file-code-outline" size={12} color="#6B7280" />
+                  <Text style={styles.savedUrlText}>From specs:</Text>
+                  {apiServers.map((server) => (
+                    <TouchableOpacity
+                      key={server.url}
+                      style={[styles.specServerChip, baseUrl === server.url && styles.specServerChipSelected]}
+                      onPress={() => setBaseUrl(server.url)}
+                    >
+                      <Text style={styles.specServerText}>{server.url}</Text>
+                    </TouchableOpacity>
+                  ))}
                 </View>
               ) : null}
             </View>
@@ -239,107 +672,414 @@ export default function App() {
             {/* HTTP Method */}
             <View style={styles.formGroup}>
               <Text style={styles.label}>Method</Text>
-              <View style={styles.methodSelector}>
-                <TouchableOpacity
-                  style={[styles.methodButton, method === 'GET' && styles.methodButtonSelected]}
-                  onPress={() => setMethod('GET')}
-                >
-                  <Text style={[styles.methodButtonText, method === 'GET' && styles.methodButtonTextSelected]}>GET</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.methodButton, method === 'POST' && styles.methodButtonSelected]}
-                  onPress={() => setMethod('POST')}
-                >
-                  <Text style={[styles.methodButtonText, method === 'POST' && styles.methodButtonTextSelected]}>POST</Text>
-                </TouchableOpacity>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.methodSelector}>
+                {STANDARD_METHODS.map((m) => {
+                  const selected = !isCustomMethod && method === m;
+                  return (
+                    <TouchableOpacity
+                      key={m}
+                      style={[styles.methodButton, selected && styles.methodButtonSelected]}
+                      onPress={() => {
+                        setIsCustomMethod(false);
+                        setMethod(m);
+                      }}
+                    >
+                      <Text style={[styles.methodButtonText, selected && styles.methodButtonTextSelected]}>{m}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
                 <TouchableOpacity
-                  style={[styles.methodButton, method === 'PUT' && styles.methodButtonSelected]}
-                  onPress={() => setMethod('PUT')}
+                  style={[styles.methodButton, isCustomMethod && styles.methodButtonSelected]}
+                  onPress={() => {
+                    setIsCustomMethod(true);
+                    if (isStandardMethod(method)) setMethod('');
+                  }}
                 >
-                  <Text style={[styles.methodButtonText, method === 'PUT' && styles.methodButtonTextSelected]}>PUT</Text>
+                  <Text style={[styles.methodButtonText, isCustomMethod && styles.methodButtonTextSelected]}>Custom</Text>
                 </TouchableOpacity>
-              </View>
+              </ScrollView>
+              {isCustomMethod && (
+                <TextInput
+                  style={[styles.input, styles.customMethodInput]}
+                  placeholder="PURGE"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  value={method}
+                  onChangeText={setMethod}
+                  onBlur={() => setMethod(normalizeMethod(method))}
+                />
+              )}
             </View>
             
             {/* Endpoint URL */}
             <View style={styles.formGroup}>
               <Text style={styles.label}>Endpoint URL</Text>
               <TextInput
-                style={styles.input}
-                placeholder="/api/users"
+                style={[styles.input, unresolvedStyle(url)]}
+                placeholder="/api/users/:id"
+                autoCapitalize="none"
+                autoCorrect={false}
                 value={url}
-                onChangeText={setUrl}
+                onChangeText={changeUrl}
               />
             </View>
             
-            {/* URL Parameters */}
+            {/* Path Parameters */}
+            {pathParamNames.length > 0 && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Path Parameters</Text>
+                {pathParamNames.map((name) => (
+                  <View key={name} style={styles.pathParamRow}>
+                    <Text style={styles.pathParamName} numberOfLines={1}>{name}</Text>
+                    <TextInput
+                      style={[
+                        styles.pathParamInput,
+                        pathParams[name] ? unresolvedStyle(pathParams[name]) : styles.pathParamMissing
+                      ]}
+                      placeholder="Value"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      value={pathParams[name] || ''}
+                      onChangeText={(value) => setPathParams({ ...pathParams, [name]: value })}
+                    />
+                  </View>
+                ))}
+              </View>
+            )}
+            
+            {/* Query Parameters */}
             <View style={styles.formGroup}>
-              <Text style={styles.label}>URL Parameters</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="id=123&filter=active"
-                value={urlParams}
-                onChangeText={setUrlParams}
+              <Text style={styles.label}>Query Parameters</Text>
+              <KeyValueEditor
+                rows={params}
+                onChange={changeParams}
+                keyPlaceholder="Key (a[] for arrays)"
+                valuePlaceholder="Value"
+                addLabel="Add parameter"
+              />
+            </View>
+            
+            {/* Request Headers */}
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Headers</Text>
+              <KeyValueEditor
+                rows={headerRows}
+                onChange={setHeaderRows}
+                duplicateKeys={findDuplicateHeaders(headerRows)}
+                caseInsensitive
+                keyPlaceholder="Header"
+                valuePlaceholder="Value"
+                addLabel="Add header"
               />
             </View>
             
             {/* Authentication */}
             <View style={styles.formGroup}>
-              <View style={styles.checkboxContainer}>
-                <TouchableOpacity
-                  style={styles.checkbox}
-                  onPress={() => setUseAuth(!useAuth)}
-                >
-                  {useAuth && <Icon name="check" size={16} color="#3B82F6" />}
-                </TouchableOpacity>
-                <Text style={styles.checkboxLabel}>Use Bearer Token Authentication</Text>
-              </View>
-              
-              {useAuth && (
-                <TextInput
-                  style={styles.input}
-                  placeholder="Enter your token"
-                  value={token}
-                  onChangeText={setToken}
-                />
-              )}
+              <Text style={styles.label}>Authentication</Text>
+              <AuthEditor
+                auth={auth}
+                onChange={(changes) => setAuth({ ...auth, ...changes })}
+                inheritFrom={activeEnvironment}
+                inputStyle={unresolvedStyle}
+                oauth={oauthKey === null ? undefined : {
+                  token: oauthTokens[oauthKey] || null,
+                  fetching: fetchingToken,
+                  onFetch: refreshOAuthToken,
+                  onClear: () => {
+                    const rest = { ...oauthTokens };
+                    delete rest[oauthKey];
+                    setOAuthTokens(rest);
+                  }
+                }}
+              />
             </View>
             
-            {/* Request Body (for POST/PUT) */}
-            {method !== 'GET' && (
+            {/* Request Body (for methods that carry one) */}
+            {methodAllowsBody(method) && (
               <View style={styles.formGroup}>
                 <View style={styles.jsonHeaderContainer}>
-                  <Text style={styles.label}>Request Body (JSON)</Text>
-                  <TouchableOpacity onPress={formatJsonBody}>
-                    <Text style={styles.formatButton}>Format JSON</Text>
-                  </TouchableOpacity>
+                  <Text style={styles.label}>Request Body</Text>
+                  {bodyDraft.bodyType === 'json' && (
+                    <TouchableOpacity onPress={formatJsonBody}>
+                      <Text style={styles.formatButton}>Format JSON</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
-                <TextInput
-                  style={styles.jsonInput}
-                  placeholder='{"name": "John", "email": "john@example.com"}'
-                  value={jsonBody}
-                  onChangeText={setJsonBody}
-                  multiline
-                  numberOfLines={10}
-                />
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={[styles.methodSelector, styles.bodyTypeSelector]}>
+                  {BODY_TYPES.filter(({ value }) => value !== 'binary' || bodyDraft.bodyType === 'binary').map(({ value, label }) => {
+                    const selected = bodyDraft.bodyType === value;
+                    return (
+                      <TouchableOpacity
+                        key={value}
+                        style={[styles.methodButton, selected && styles.methodButtonSelected]}
+                        onPress={() => changeBody({ bodyType: value })}
+                      >
+                        <Text style={[styles.methodButtonText, selected && styles.methodButtonTextSelected]}>{label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+                {bodyDraft.bodyType === 'json' && (
+                  <TextInput
+                    style={[styles.jsonInput, unresolvedStyle(bodyDraft.body)]}
+                    placeholder='{"name": "John", "email": "john@example.com"}'
+                    value={bodyDraft.body}
+                    onChangeText={(body) => changeBody({ body })}
+                    multiline
+                    numberOfLines={10}
+                  />
+                )}
+                {bodyDraft.bodyType === 'form' && (
+                  <KeyValueEditor
+                    rows={bodyDraft.formFields}
+                    onChange={(formFields) => changeBody({ formFields })}
+                    keyPlaceholder="Field"
+                    valuePlaceholder="Value"
+                    addLabel="Add field"
+                  />
+                )}
+                {bodyDraft.bodyType === 'multipart' && (
+                  // Text fields only; picking files needs the web app
+                  <KeyValueEditor
+                    rows={bodyDraft.multipartFields}
+                    onChange={(rows) =>
+                      changeBody({
+                        multipartFields: rows.map((row): MultipartField => ({ kind: 'text', file: null, ...row }))
+                      })
+                    }
+                    keyPlaceholder="Field"
+                    valuePlaceholder="Value"
+                    addLabel="Add field"
+                  />
+                )}
+                {bodyDraft.bodyType === 'raw' && (
+                  <>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={[styles.methodSelector, styles.bodyTypeSelector]}>
+                      {RAW_CONTENT_TYPES.map((type) => {
+                        const selected = bodyDraft.rawContentType === type;
+                        return (
+                          <TouchableOpacity
+                            key={type}
+                            style={[styles.methodButton, selected && styles.methodButtonSelected]}
+                            onPress={() => changeBody({ rawContentType: type })}
+                          >
+                            <Text style={[styles.methodButtonText, selected && styles.methodButtonTextSelected]}>{type}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </ScrollView>
+                    <TextInput
+                      style={[styles.jsonInput, unresolvedStyle(bodyDraft.body)]}
+                      placeholder="Request body"
+                      value={bodyDraft.body}
+                      onChangeText={(body) => changeBody({ body })}
+                      multiline
+                      numberOfLines={10}
+                    />
+                  </>
+                )}
+                {bodyDraft.bodyType === 'binary' && (
+                  <Text style={styles.variablesHint}>
+                    {bodyDraft.binaryFile ? bodyDraft.binaryFile.name : 'No file'}: binary bodies can only be sent from the web app.
+                  </Text>
+                )}
+                {bodyDraft.bodyType !== 'none' && bodyDraft.bodyType !== 'binary' && (
+                  <Text style={styles.bodyHint}>
+                    {bodyDraft.bodyType === 'multipart'
+                      ? 'Content-Type and its boundary are set when sending.'
+                      : 'Content-Type is set from the body type unless you add the header yourself.'}
+                  </Text>
+                )}
               </View>
             )}
             
+            {/* Response Schema */}
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Response Schema</Text>
+              <TextInput
+                style={[styles.jsonInput, styles.schemaInput]}
+                placeholder='{"type": "object", "required": ["id"]}'
+                value={responseSchema}
+                onChangeText={setResponseSchema}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <Text style={styles.bodyHint}>
+                {openOperation
+                  ? `Leave empty to check against ${openOperation.operation.method} ${openOperation.operation.path} in ${openOperation.spec.title}.`
+                  : 'JSON Schema the response body is checked against.'}
+              </Text>
+            </View>
+            
+            {/* Extractions */}
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Extract to Variables</Text>
+              <ExtractionsEditor rules={extractions} onChange={setExtractions} />
+              <Text style={styles.bodyHint}>
+                Values are saved to {activeEnvironment ? activeEnvironment.name : 'the active environment'} when the response
+                arrives, for later requests to use as {'{{variable}}'}.
+              </Text>
+            </View>
+            
+            {/* Assertions */}
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Assertions</Text>
+              <AssertionsEditor assertions={assertions} onChange={setAssertions} />
+            </View>
+            
+            {/* Scripts */}
+            {preRequestScript.trim() || postResponseScript.trim() ? (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Scripts</Text>
+                <Text style={styles.variablesHint}>
+                  This request has {preRequestScript.trim() && postResponseScript.trim()
+                    ? 'pre-request and post-response scripts'
+                    : preRequestScript.trim() ? 'a pre-request script' : 'a post-response script'}
+                  , which only run in the web app and are skipped here.
+                </Text>
+              </View>
+            ) : null}
+            
+            {/* Variables */}
+            {unresolvedVariables.length > 0 ? (
+              <View style={styles.unresolvedContainer}>
+                <Text style={styles.unresolvedText}>
+                  Not defined in {activeEnvironment ? activeEnvironment.name : 'any environment'}:{' '}
+                  {unresolvedVariables.map((name) => `{{${name}}}`).join(', ')}
+                </Text>
+              </View>
+            ) : null}
+            <Text style={styles.variablesHint}>
+              Use {[...Object.keys(variables), ...Object.keys(DYNAMIC_VARIABLES)].map((name) => `{{${name}}}`).join(' ')} in
+              the URL, parameters, headers, auth and body.
+            </Text>
+            
+            {/* Retries */}
+            <View style={styles.formGroup}>
+              <RetryEditor policy={retryPolicy} onChange={setRetryPolicy} />
+            </View>
+            
+            {/* Timeout */}
+            <View style={styles.timeoutRow}>
+              <Text style={[styles.label, styles.timeoutLabel]}>Timeout (ms)</Text>
+              <TextInput
+                style={styles.timeoutInput}
+                keyboardType="number-pad"
+                value={String(timeoutMs)}
+                onChangeText={(text) => setTimeoutMs(Math.max(0, Number(text) || 0))}
+              />
+              {timeoutMs === 0 ? <Text style={styles.timeoutHint}>no limit</Text> : null}
+            </View>
+            
             {/* Submit Button */}
-            <TouchableOpacity
-              style={styles.submitButton}
-              onPress={handleSubmit}
-              disabled={loading}
-            >
-              {loading ? (
-                <ActivityIndicator size="small" color="#FFFFFF" style={styles.buttonIcon} />
-              ) : (
-                <Icon name="send" size={20} color="#FFFFFF" style={styles.buttonIcon} />
-              )}
-              <Text style={styles.submitButtonText}>
-                {loading ? 'Sending...' : 'Send Request'}
+            <View style={styles.submitRow}>
+              <TouchableOpacity
+                style={[styles.submitButton, styles.submitButtonGrow]}
+                onPress={handleSubmit}
+                disabled={loading}
+              >
+                {loading ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" style={styles.buttonIcon} />
+                ) : (
+                  <Icon name="send" size={20} color="#FFFFFF" style={styles.buttonIcon} />
+                )}
+                <Text style={styles.submitButtonText}>
+                  {loading ? 'Sending...' : 'Send Request'}
+                </Text>
+              </TouchableOpacity>
+              {sendController ? (
+                <TouchableOpacity style={[styles.submitButton, styles.cancelButton]} onPress={() => sendController.abort()}>
+                  <Icon name="stop" size={20} color="#FFFFFF" style={styles.buttonIcon} />
+                  <Text style={styles.submitButtonText}>Cancel</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          </View>
+          
+          {/* Collection Runner */}
+          {runTarget && (
+            <View style={styles.panel}>
+              <CollectionRunnerPanel key={runTarget.name} target={runTarget} context={createRunContext()} onClose={() => setRunTarget(null)} />
+            </View>
+          )}
+
+          {/* Response Diff */}
+          {showDiff && (
+            <View style={styles.panel}>
+              <ResponseDiffPanel
+                history={history}
+                environments={envState.environments}
+                currentResponse={responseBody ? responseBody.text : null}
+                sendToEnvironment={sendToEnvironment}
+                onClose={() => setShowDiff(false)}
+              />
+            </View>
+          )}
+          
+          {/* API Specs Panel */}
+          <View style={styles.panel}>
+            <TouchableOpacity style={styles.collapsibleHeader} onPress={() => setShowApiSpecs(!showApiSpecs)}>
+              <Text style={styles.collapsibleTitle}>
+                API specs{apiSpecs.length > 0 ? ` (${apiSpecs.length})` : ''}
               </Text>
+              <Icon name={showApiSpecs ? 'chevron-up' : 'chevron-down'} size={20} color="#6B7280" />
             </TouchableOpacity>
+            {showApiSpecs && (
+              <ApiSpecsPanel
+                specs={apiSpecs}
+                openOperationId={openOperationId}
+                onChange={setApiSpecs}
+                onOpen={openApiOperation}
+              />
+            )}
+          </View>
+          
+          {/* Collections Panel */}
+          <View style={styles.panel}>
+            <TouchableOpacity style={styles.collapsibleHeader} onPress={() => setShowCollections(!showCollections)}>
+              <Text style={styles.collapsibleTitle}>
+                Collections{collections.length > 0 ? ` (${collections.length})` : ''}
+              </Text>
+              <Icon name={showCollections ? 'chevron-up' : 'chevron-down'} size={20} color="#6B7280" />
+            </TouchableOpacity>
+            {showCollections && (
+              <CollectionsPanel
+                collections={collections}
+                openRequestId={openRequestId}
+                onChange={setCollections}
+                onOpen={openSavedRequest}
+                onSaveCurrent={saveCurrentRequest}
+                onOverwrite={(saved) =>
+                  setCollections(updateSavedRequest(collections, saved.id, toSavedRequestData(currentDraft())))
+                }
+                onRun={setRunTarget}
+              />
+            )}
+          </View>
+          
+          {/* History Panel */}
+          <View style={styles.panel}>
+            <TouchableOpacity style={styles.collapsibleHeader} onPress={() => setShowHistory(!showHistory)}>
+              <Text style={styles.collapsibleTitle}>
+                History{history.length > 0 ? ` (${history.length})` : ''}
+              </Text>
+              <Icon name={showHistory ? 'chevron-up' : 'chevron-down'} size={20} color="#6B7280" />
+            </TouchableOpacity>
+            {showHistory && (
+              <HistoryPanel
+                entries={history}
+                getStatusCodeColor={getStatusCodeColor}
+                onRerun={rerunHistoryEntry}
+                onLoad={(entry) => {
+                  setOpenRequestId(null);
+                  setOpenOperationId(null);
+                  loadDraft(entry.request);
+                }}
+                onDelete={(id) => setHistory((prev) => prev.filter((entry) => entry.id !== id))}
+                onClear={() => setHistory([])}
+              />
+            )}
           </View>
           
           {/* Response Panel */}
@@ -355,22 +1095,39 @@ export default function App() {
                     <Text style={styles.statusText}>{getStatusText(statusCode)}</Text>
                   </View>
                 )}
+                {validation?.undeclaredStatus && (
+                  <TouchableOpacity style={styles.undeclaredStatus} onPress={() => setResponseTab('schema')}>
+                    <Icon name="alert-outline" size={14} color="#B45309" />
+                    <Text style={styles.undeclaredStatusText}>Not in spec</Text>
+                  </TouchableOpacity>
+                )}
+                {responseMeta && (
+                  <Text style={styles.metaText}>
+                    {formatDuration(responseMeta.durationMs)} · {formatBytes(responseMeta.sizeBytes)}
+                  </Text>
+                )}
               </View>
-              {response ? (
-                <TouchableOpacity style={styles.copyButton} onPress={copyToClipboard}>
-                  {copied ? (
-                    <>
-                      <Icon name="check" size={16} color="#6B7280" style={styles.copyIcon} />
-                      <Text style={styles.copyText}>Copied!</Text>
-                    </>
-                  ) : (
-                    <>
-                      <Icon name="content-copy" size={16} color="#6B7280" style={styles.copyIcon} />
-                      <Text style={styles.copyText}>Copy</Text>
-                    </>
-                  )}
+              <View style={styles.responseActions}>
+                <TouchableOpacity style={[styles.copyButton, styles.compareButton]} onPress={() => setShowDiff(true)}>
+                  <Icon name="compare-horizontal" size={16} color="#6B7280" style={styles.copyIcon} />
+                  <Text style={styles.copyText}>Compare</Text>
                 </TouchableOpacity>
-              ) : null}
+                {response ? (
+                  <TouchableOpacity style={styles.copyButton} onPress={copyToClipboard}>
+                    {copied ? (
+                      <>
+                        <Icon name="check" size={16} color="#6B7280" style={styles.copyIcon} />
+                        <Text style={styles.copyText}>Copied!</Text>
+                      </>
+                    ) : (
+                      <>
+                        <Icon name="content-copy" size={16} color="#6B7280" style={styles.copyIcon} />
+                        <Text style={styles.copyText}>Copy</Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                ) : null}
+              </View>
             </View>
             
             {error ? (
@@ -379,15 +1136,107 @@ export default function App() {
               </View>
             ) : null}
             
+            {attempts.length > 1 ? <RetryTimeline attempts={attempts} /> : null}
+            
+            {extractionResults.length > 0 ? (
+              <Text style={styles.extractedText}>
+                {activeEnvironment ? `Saved to ${activeEnvironment.name}: ` : 'No active environment to save into: '}
+                {extractionResults
+                  .map((result) => `{{${result.variable}}}${result.value === null ? ' (not found)' : ''}`)
+                  .join(', ')}
+              </Text>
+            ) : null}
+            
+            {/* Response Tabs */}
+            <View style={styles.tabBar}>
+              {(['body', 'headers', 'timing', 'request', 'code', 'schema', 'tests'] as const).map((tab) => (
+                <TouchableOpacity
+                  key={tab}
+                  style={[styles.tab, responseTab === tab && styles.tabSelected]}
+                  onPress={() => setResponseTab(tab)}
+                >
+                  <Text style={[styles.tabText, responseTab === tab && styles.tabTextSelected]}>
+                    {tab.charAt(0).toUpperCase() + tab.slice(1)}
+                    {tab === 'headers' && responseMeta ? ` (${Object.keys(responseMeta.headers).length})` : ''}
+                    {tab === 'schema' && validation && validation.violations.length > 0 ? ` (${validation.violations.length})` : ''}
+                    {tab === 'tests' && assertionResults.length > 0
+                      ? ` (${assertionResults.filter((result) => result.passed).length}/${assertionResults.length})`
+                      : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            
             <View style={styles.responseContainer}>
-              {loading ? (
+              {snippet ? (
+                <CodeSnippetPanel
+                  request={snippet.request}
+                  auth={resolveAuth(requestAuth, variables)}
+                  error={snippet.error}
+                  language={codeLanguage}
+                  onLanguageChange={setCodeLanguage}
+                />
+              ) : loading ? (
                 <View style={styles.loadingContainer}>
                   <ActivityIndicator size="large" color="#3B82F6" />
                 </View>
-              ) : response ? (
+              ) : responseTab === 'request' && sentRequest ? (
+                <ScrollView style={styles.responseScroll}>
+                  <Text style={styles.responseText}>
+                    {`${sentRequest.method} ${sentRequest.url}\n\n`}
+                    {Object.keys(sentRequest.headers).map((name) => `${name}: ${sentRequest.headers[name]}\n`).join('')}
+                    {sentRequest.body ? `\n${describeBody(sentRequest.body)}` : ''}
+                  </Text>
+                </ScrollView>
+              ) : responseTab === 'tests' ? (
+                assertionResults.length > 0 ? (
+                  <AssertionResultsPanel results={assertionResults} />
+                ) : (
+                  <View style={styles.emptyResponseContainer}>
+                    <Text style={styles.emptyResponseText}>Add assertions to the request to check its responses</Text>
+                  </View>
+                )
+              ) : responseTab === 'schema' ? (
+                validation ? (
+                  <SchemaValidationPanel validation={validation} />
+                ) : (
+                  <View style={styles.emptyResponseContainer}>
+                    <Text style={styles.emptyResponseText}>
+                      Attach a response schema, or open an endpoint from an imported spec, to check responses
+                    </Text>
+                  </View>
+                )
+              ) : responseTab === 'headers' && responseMeta ? (
+                <ScrollView style={styles.responseScroll}>
+                  {Object.keys(responseMeta.headers).sort().map((name) => (
+                    <View key={name} style={styles.headerRow}>
+                      <Text style={styles.headerName}>
+                        {name}
+                        {getHeaderGroup(name) ? `  [${getHeaderGroup(name)}]` : ''}
+                      </Text>
+                      <Text style={styles.headerValue}>{responseMeta.headers[name]}</Text>
+                    </View>
+                  ))}
+                </ScrollView>
+              ) : responseTab === 'timing' && responseMeta ? (
                 <ScrollView style={styles.responseScroll}>
-                  <Text style={styles.responseText}>{response}</Text>
+                  {[
+                    ['Time to headers', formatDuration(responseMeta.timeToHeadersMs)],
+                    ['Body download', formatDuration(responseMeta.durationMs - responseMeta.timeToHeadersMs)],
+                    ['Total', formatDuration(responseMeta.durationMs)],
+                    ['Body size', formatBytes(responseMeta.sizeBytes)],
+                    ['Content-Length', responseMeta.contentLength === null ? 'not sent' : formatBytes(responseMeta.contentLength)],
+                  ].map(([label, value]) => (
+                    <View key={label} style={styles.timingRow}>
+                      <Text style={styles.timingLabel}>{label}</Text>
+                      <Text style={styles.timingValue}>{value}</Text>
+                    </View>
+                  ))}
                 </ScrollView>
+              ) : responseBody ? (
+                <View style={styles.responseScroll}>
+                  <ResponseBodyPanel body={responseBody} />
+                </View>
               ) : (
                 <View style={styles.emptyResponseContainer}>
                   <Text style={styles.emptyResponseText}>
@@ -438,6 +1287,25 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 16,
   },
+  panelTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  panelTitleInRow: {
+    marginBottom: 0,
+  },
+  collapsibleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  collapsibleTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+  },
   formGroup: {
     marginBottom: 16,
   },
@@ -455,33 +1323,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     backgroundColor: '#FFFFFF',
   },
-  radioGroup: {
-    flexDirection: 'row',
-    marginBottom: 8,
-  },
-  radioButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginRight: 16,
-  },
-  radio: {
-    height: 18,
-    width: 18,
-    borderRadius: 9,
-    borderWidth: 2,
-    borderColor: '#6B7280',
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginRight: 8,
-  },
-  radioSelected: {
-    borderColor: '#3B82F6',
-    backgroundColor: '#3B82F6',
-  },
-  radioLabel: {
-    fontSize: 14,
-    color: '#4B5563',
-  },
   inputWithButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -518,6 +1359,29 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginLeft: 4,
   },
+  specServers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  specServerChip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    marginLeft: 4,
+    marginTop: 2,
+  },
+  specServerChipSelected: {
+    backgroundColor: '#EFF6FF',
+    borderColor: '#93C5FD',
+  },
+  specServerText: {
+    fontSize: 12,
+    color: '#374151',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
   methodSelector: {
     flexDirection: 'row',
     borderWidth: 1,
@@ -526,8 +1390,8 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
   methodButton: {
-    flex: 1,
-    padding: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
     alignItems: 'center',
     backgroundColor: '#F9FAFB',
     borderRightWidth: 1,
@@ -544,24 +1408,41 @@ const styles = StyleSheet.create({
   methodButtonTextSelected: {
     color: '#FFFFFF',
   },
-  checkboxContainer: {
+  customMethodInput: {
+    marginTop: 8,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  pathParamRow: {
     flexDirection: 'row',
     alignItems: 'center',
     marginBottom: 8,
   },
-  checkbox: {
-    width: 20,
-    height: 20,
+  pathParamName: {
+    flex: 2,
     borderWidth: 1,
     borderColor: '#D1D5DB',
-    borderRadius: 4,
-    marginRight: 8,
-    alignItems: 'center',
-    justifyContent: 'center',
+    borderTopLeftRadius: 6,
+    borderBottomLeftRadius: 6,
+    padding: 8,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#F3F4F6',
+    color: '#374151',
   },
-  checkboxLabel: {
-    fontSize: 14,
-    color: '#4B5563',
+  pathParamInput: {
+    flex: 3,
+    borderWidth: 1,
+    borderLeftWidth: 0,
+    borderColor: '#D1D5DB',
+    borderTopRightRadius: 6,
+    borderBottomRightRadius: 6,
+    padding: 8,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+  },
+  pathParamMissing: {
+    borderColor: '#FCA5A5',
   },
   jsonHeaderContainer: {
     flexDirection: 'row',
@@ -569,6 +1450,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 6,
   },
+  bodyTypeSelector: {
+    marginBottom: 8,
+  },
+  bodyHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
   formatButton: {
     fontSize: 12,
     color: '#3B82F6',
@@ -584,6 +1473,30 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
     minHeight: 200,
   },
+  schemaInput: {
+    minHeight: 100,
+  },
+  inputUnresolved: {
+    borderColor: '#FBBF24',
+    backgroundColor: '#FFFBEB',
+  },
+  unresolvedContainer: {
+    backgroundColor: '#FFFBEB',
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+    borderRadius: 6,
+    padding: 8,
+    marginBottom: 8,
+  },
+  unresolvedText: {
+    fontSize: 12,
+    color: '#92400E',
+  },
+  variablesHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
   submitButton: {
     backgroundColor: '#3B82F6',
     borderRadius: 6,
@@ -592,6 +1505,40 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  submitRow: {
+    flexDirection: 'row',
+  },
+  submitButtonGrow: {
+    flex: 1,
+  },
+  cancelButton: {
+    backgroundColor: '#DC2626',
+    marginLeft: 8,
+  },
+  timeoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  timeoutLabel: {
+    marginBottom: 0,
+  },
+  timeoutInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 6,
+    marginLeft: 8,
+    fontSize: 14,
+    textAlign: 'right',
+    backgroundColor: '#FFFFFF',
+  },
+  timeoutHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 6,
+  },
   submitButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -627,6 +1574,80 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 6,
   },
+  undeclaredStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  undeclaredStatusText: {
+    fontSize: 12,
+    color: '#B45309',
+    marginLeft: 2,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  tab: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabSelected: {
+    borderBottomColor: '#3B82F6',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  tabTextSelected: {
+    color: '#3B82F6',
+    fontWeight: '500',
+  },
+  headerRow: {
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerName: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  headerValue: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  timingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  timingLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  timingValue: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 14,
+  },
+  responseActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  compareButton: {
+    marginRight: 12,
+  },
   copyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -646,6 +1667,11 @@ const styles = StyleSheet.create({
     padding: 12,
     marginBottom: 16,
   },
+  extractedText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
   errorText: {
     color: '#DC2626',
     fontSize: 14,
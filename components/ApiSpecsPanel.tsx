@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Alert, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { ApiOperation, ApiSpec, importApiSpec } from '../src/lib/openapi';
+
+interface ApiSpecsPanelProps {
+  specs: ApiSpec[];
+  openOperationId: string | null;
+  onChange: (specs: ApiSpec[]) => void;
+  onOpen: (operation: ApiOperation) => void;
+}
+
+export default function ApiSpecsPanel({ specs, openOperationId, onChange, onOpen }: ApiSpecsPanelProps) {
+  const [search, setSearch] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [importText, setImportText] = useState('');
+  const [showImport, setShowImport] = useState(specs.length === 0);
+  const [error, setError] = useState('');
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setCollapsed(next);
+  };
+
+  const handleImport = () => {
+    try {
+      onChange([...specs, importApiSpec(importText)]);
+      setImportText('');
+      setShowImport(false);
+      setError('');
+    } catch (err) {
+      setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const confirmRemove = (spec: ApiSpec) => {
+    Alert.alert('Remove', `Remove "${spec.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => onChange(specs.filter((other) => other.id !== spec.id)) }
+    ]);
+  };
+
+  const query = search.trim().toLowerCase();
+  const matches = (operation: ApiOperation) =>
+    !query || `${operation.method} ${operation.path} ${operation.name}`.toLowerCase().includes(query);
+
+  return (
+    <View style={styles.container}>
+      {specs.length > 0 && (
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Filter endpoints"
+          value={search}
+          onChangeText={setSearch}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      {specs.map((spec) => (
+        <View key={spec.id} style={styles.spec}>
+          <View style={styles.row}>
+            <TouchableOpacity style={styles.rowMain} onPress={() => toggle(spec.id)}>
+              <Icon name={collapsed.has(spec.id) ? 'chevron-right' : 'chevron-down'} size={16} color="#4B5563" />
+              <Text style={styles.specName} numberOfLines={1}>{spec.title}</Text>
+              {spec.version ? <Text style={styles.version}>{spec.version}</Text> : null}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => confirmRemove(spec)}>
+              <Icon name="delete-outline" size={16} color="#9CA3AF" />
+            </TouchableOpacity>
+          </View>
+          {!collapsed.has(spec.id) && spec.tags.map((tag) => {
+            const operations = tag.operations.filter(matches);
+            if (operations.length === 0) return null;
+            return (
+              <View key={tag.name}>
+                <Text style={styles.tagName}>{tag.name}</Text>
+                {operations.map((operation) => (
+                  <TouchableOpacity
+                    key={operation.id}
+                    style={[styles.row, styles.operation, operation.id === openOperationId && styles.rowOpen]}
+                    onPress={() => onOpen(operation)}
+                  >
+                    <Text style={styles.method}>{operation.method}</Text>
+                    <Text
+                      style={[styles.operationName, operation.deprecated && styles.deprecated]}
+                      numberOfLines={1}
+                    >
+                      {operation.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            );
+          })}
+        </View>
+      ))}
+
+      <View style={styles.footer}>
+        <TouchableOpacity onPress={() => setShowImport(!showImport)}>
+          <Text style={styles.link}>Import OpenAPI / Swagger spec</Text>
+        </TouchableOpacity>
+      </View>
+
+      {showImport && (
+        <View>
+          <TextInput
+            style={styles.importInput}
+            placeholder="Paste an OpenAPI 3 or Swagger 2 spec (JSON or YAML)"
+            value={importText}
+            onChangeText={setImportText}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity style={styles.importButton} onPress={handleImport}>
+            <Text style={styles.importButtonText}>Import spec</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 14,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 8,
+  },
+  error: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginBottom: 8,
+  },
+  spec: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  rowOpen: {
+    backgroundColor: '#EFF6FF',
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  specName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginLeft: 6,
+  },
+  version: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginLeft: 6,
+  },
+  tagName: {
+    fontSize: 13,
+    color: '#374151',
+    paddingLeft: 16,
+    paddingVertical: 4,
+  },
+  operation: {
+    paddingLeft: 32,
+  },
+  method: {
+    width: 64,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#6B7280',
+  },
+  operationName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  deprecated: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  action: {
+    padding: 6,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  link: {
+    fontSize: 12,
+    color: '#3B82F6',
+  },
+  importInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 12,
+    minHeight: 120,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginBottom: 8,
+  },
+  importButton: {
+    backgroundColor: '#EFF6FF',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: '#2563EB',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
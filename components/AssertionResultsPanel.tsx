@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, View, Text, ScrollView, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { AssertionResult } from '../src/lib/assertions';
+
+interface AssertionResultsPanelProps {
+  results: AssertionResult[];
+}
+
+export default function AssertionResultsPanel({ results }: AssertionResultsPanelProps) {
+  const passed = results.filter((result) => result.passed).length;
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={[styles.summary, passed === results.length ? styles.pass : styles.fail]}>
+        {passed} of {results.length} passed
+      </Text>
+      {results.map((result) => (
+        <View key={result.id} style={styles.result}>
+          <Icon
+            name={result.passed ? 'check-circle-outline' : 'close-circle-outline'}
+            size={16}
+            color={result.passed ? '#059669' : '#DC2626'}
+            style={styles.icon}
+          />
+          <View style={styles.details}>
+            <Text style={styles.description}>{result.description}</Text>
+            {result.error ? (
+              <Text style={[styles.detail, styles.fail]}>{result.error}</Text>
+            ) : !result.passed ? (
+              <Text style={styles.detail}>Actual: {result.actual}</Text>
+            ) : null}
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    maxHeight: 300,
+  },
+  summary: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  pass: {
+    color: '#059669',
+  },
+  fail: {
+    color: '#DC2626',
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  icon: {
+    marginRight: 6,
+    marginTop: 1,
+  },
+  details: {
+    flex: 1,
+  },
+  description: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#1F2937',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
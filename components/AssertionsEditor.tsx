@@ -0,0 +1,167 @@
+import React from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  ASSERTION_SOURCES,
+  Assertion,
+  OPERATOR_LABELS,
+  SOURCE_OPERATORS,
+  changeAssertionSource,
+  createAssertion,
+  operatorTakesValue,
+  sourceTakesProperty,
+  updateAssertion
+} from '../src/lib/assertions';
+
+interface AssertionsEditorProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+}
+
+export default function AssertionsEditor({ assertions, onChange }: AssertionsEditorProps) {
+  const update = (id: string, changes: Partial<Assertion>) => onChange(updateAssertion(assertions, id, changes));
+
+  return (
+    <View>
+      {assertions.map((assertion) => (
+        <View key={assertion.id} style={[styles.assertion, !assertion.enabled && styles.disabled]}>
+          <View style={styles.row}>
+            <TouchableOpacity style={styles.checkbox} onPress={() => update(assertion.id, { enabled: !assertion.enabled })}>
+              {assertion.enabled && <Icon name="check" size={14} color="#3B82F6" />}
+            </TouchableOpacity>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+              {ASSERTION_SOURCES.map(({ value, label }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, assertion.source === value && styles.chipSelected]}
+                  onPress={() =>
+                    onChange(assertions.map((other) => (other.id === assertion.id ? changeAssertionSource(other, value) : other)))
+                  }
+                >
+                  <Text style={[styles.chipText, assertion.source === value && styles.chipTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onChange(assertions.filter((other) => other.id !== assertion.id))}
+            >
+              <Icon name="delete-outline" size={18} color="#9CA3AF" />
+            </TouchableOpacity>
+          </View>
+          {sourceTakesProperty(assertion.source) && (
+            <TextInput
+              style={styles.input}
+              placeholder={assertion.source === 'header' ? 'content-type' : '$.data[0].id'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={assertion.property}
+              onChangeText={(property) => update(assertion.id, { property })}
+            />
+          )}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.operators}>
+            {SOURCE_OPERATORS[assertion.source].map((operator) => (
+              <TouchableOpacity
+                key={operator}
+                style={[styles.chip, assertion.operator === operator && styles.chipSelected]}
+                onPress={() => update(assertion.id, { operator })}
+              >
+                <Text style={[styles.chipText, assertion.operator === operator && styles.chipTextSelected]}>
+                  {OPERATOR_LABELS[operator]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          {operatorTakesValue(assertion.operator) && (
+            <TextInput
+              style={styles.input}
+              placeholder={assertion.source === 'responseTime' ? 'ms' : 'Value'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={assertion.expected}
+              onChangeText={(expected) => update(assertion.id, { expected })}
+            />
+          )}
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addButton} onPress={() => onChange([...assertions, createAssertion()])}>
+        <Icon name="plus" size={14} color="#3B82F6" />
+        <Text style={styles.addButtonText}>Add assertion</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  assertion: {
+    paddingBottom: 8,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 4,
+    marginRight: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chips: {
+    flex: 1,
+  },
+  operators: {
+    marginTop: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 6,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 2,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  StyleProp,
+  TextStyle
+} from 'react-native';
+import { AUTH_PROVIDERS, AUTH_TYPES, AuthConfig } from '../src/lib/auth';
+import { MOCK_TOKEN_URL, OAUTH_GRANT_TYPES, OAuthToken, describeTokenStatus, getTokenStatus } from '../src/lib/oauth';
+import SecretInput from './SecretInput';
+
+interface AuthEditorProps {
+  auth: AuthConfig;
+  onChange: (changes: Partial<AuthConfig>) => void;
+  // The environment a request inherits from; leave out to hide the inherit option
+  inheritFrom?: { name: string; auth: AuthConfig } | null;
+  // Extra style for a templated text field
+  inputStyle?: (text: string) => StyleProp<TextStyle>;
+  // The cached OAuth token for the settings in effect, when they use OAuth 2.0
+  oauth?: {
+    token: OAuthToken | null;
+    fetching: boolean;
+    onFetch: () => void;
+    onClear: () => void;
+  };
+}
+
+const TOKEN_STATUS_COLORS = {
+  missing: '#6B7280',
+  valid: '#059669',
+  expiring: '#D97706',
+  expired: '#DC2626',
+};
+
+export default function AuthEditor({ auth, onChange, inheritFrom, inputStyle = () => null, oauth }: AuthEditorProps) {
+  const types = AUTH_TYPES.filter((type) => type !== 'inherit' || inheritFrom !== undefined);
+  const [now, setNow] = useState(Date.now());
+  const showsToken = !!oauth;
+
+  // Keep the token countdown current
+  useEffect(() => {
+    if (!showsToken) return;
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, [showsToken]);
+
+  const textInput = (field: 'username' | 'tokenUrl' | 'clientId' | 'scope', placeholder: string) => (
+    <TextInput
+      style={[styles.input, inputStyle(auth[field])]}
+      placeholder={placeholder}
+      autoCapitalize="none"
+      autoCorrect={false}
+      value={auth[field]}
+      onChangeText={(value) => onChange({ [field]: value })}
+    />
+  );
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.types}>
+        {types.map((type) => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.chip, auth.type === type && styles.chipSelected]}
+            onPress={() => onChange({ type })}
+          >
+            <Text style={[styles.chipText, auth.type === type && styles.chipTextSelected]}>
+              {AUTH_PROVIDERS[type].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {auth.type === 'inherit' && (
+        <Text style={styles.hint}>
+          {inheritFrom
+            ? `Uses ${AUTH_PROVIDERS[inheritFrom.auth.type].label} from ${inheritFrom.name}.`
+            : 'No environment is active, so no auth is sent.'}
+        </Text>
+      )}
+
+      {auth.type === 'bearer' && (
+        <SecretInput
+          style={inputStyle(auth.token)}
+          placeholder="Enter your token"
+          value={auth.token}
+          onChangeText={(token) => onChange({ token })}
+        />
+      )}
+
+      {(auth.type === 'basic' || auth.type === 'digest') && (
+        <>
+          {textInput('username', 'Username')}
+          <SecretInput
+            style={inputStyle(auth.password)}
+            placeholder="Password"
+            value={auth.password}
+            onChangeText={(password) => onChange({ password })}
+          />
+          {auth.type === 'digest' && (
+            <Text style={styles.hint}>Sent after the server's 401 challenge.</Text>
+          )}
+        </>
+      )}
+
+      {auth.type === 'apiKey' && (
+        <>
+          <View style={styles.placeRow}>
+            {(['header', 'query'] as const).map((place) => (
+              <TouchableOpacity
+                key={place}
+                style={[styles.chip, auth.apiKeyIn === place && styles.chipSelected]}
+                onPress={() => onChange({ apiKeyIn: place })}
+              >
+                <Text style={[styles.chipText, auth.apiKeyIn === place && styles.chipTextSelected]}>
+                  {place === 'header' ? 'Header' : 'Query parameter'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.input, inputStyle(auth.apiKeyName)]}
+            placeholder={auth.apiKeyIn === 'header' ? 'Header name' : 'Parameter name'}
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={auth.apiKeyName}
+            onChangeText={(apiKeyName) => onChange({ apiKeyName })}
+          />
+          <SecretInput
+            style={inputStyle(auth.apiKeyValue)}
+            placeholder="Key"
+            value={auth.apiKeyValue}
+            onChangeText={(apiKeyValue) => onChange({ apiKeyValue })}
+          />
+        </>
+      )}
+
+      {auth.type === 'oauth2' && (
+        <>
+          <View style={styles.placeRow}>
+            {OAUTH_GRANT_TYPES.map(({ value, label }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, auth.grantType === value && styles.chipSelected]}
+                onPress={() => onChange({ grantType: value })}
+              >
+                <Text style={[styles.chipText, auth.grantType === value && styles.chipTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {textInput('tokenUrl', `Token URL (or ${MOCK_TOKEN_URL})`)}
+          {textInput('clientId', 'Client ID')}
+          <View style={styles.secretSpacing}>
+            <SecretInput
+              style={inputStyle(auth.clientSecret)}
+              placeholder="Client secret"
+              value={auth.clientSecret}
+              onChangeText={(clientSecret) => onChange({ clientSecret })}
+            />
+          </View>
+          {textInput('scope', 'Scopes (space-separated)')}
+          {auth.grantType === 'password' && (
+            <>
+              {textInput('username', 'Username')}
+              <SecretInput
+                style={inputStyle(auth.password)}
+                placeholder="Password"
+                value={auth.password}
+                onChangeText={(password) => onChange({ password })}
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {oauth && (
+        <View style={styles.tokenRow}>
+          <Text style={[styles.tokenStatus, { color: TOKEN_STATUS_COLORS[getTokenStatus(oauth.token, now)] }]}>
+            {describeTokenStatus(oauth.token, now)}
+          </Text>
+          {oauth.token && (
+            <TouchableOpacity onPress={oauth.onClear}>
+              <Text style={styles.tokenClear}>Clear</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={oauth.onFetch} disabled={oauth.fetching}>
+            {oauth.fetching ? (
+              <ActivityIndicator size="small" color="#3B82F6" />
+            ) : (
+              <Text style={styles.tokenFetch}>Get new token</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  types: {
+    marginBottom: 8,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 8,
+  },
+  secretSpacing: {
+    marginBottom: 8,
+  },
+  tokenRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  tokenStatus: {
+    flex: 1,
+    fontSize: 12,
+  },
+  tokenClear: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginRight: 12,
+  },
+  tokenFetch: {
+    fontSize: 12,
+    color: '#3B82F6',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+});
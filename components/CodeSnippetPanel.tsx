@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Platform } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { PreparedRequest } from '../src/lib/request';
+import { AuthConfig } from '../src/lib/auth';
+import { CODE_LANGUAGES, CodeLanguage, generateCode } from '../src/lib/codegen';
+
+interface CodeSnippetPanelProps {
+  // The request as Send would build it, or the reason it can't be built
+  request: PreparedRequest | null;
+  auth: AuthConfig;
+  error: string;
+  language: CodeLanguage;
+  onLanguageChange: (language: CodeLanguage) => void;
+}
+
+export default function CodeSnippetPanel({ request, auth, error, language, onLanguageChange }: CodeSnippetPanelProps) {
+  const [copied, setCopied] = useState(false);
+  const code = request ? generateCode(language, request, auth) : '';
+
+  const copyCode = async () => {
+    await Clipboard.setStringAsync(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.languages}>
+          {CODE_LANGUAGES.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, language === value && styles.chipSelected]}
+              onPress={() => onLanguageChange(value)}
+            >
+              <Text style={[styles.chipText, language === value && styles.chipTextSelected]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        {code ? (
+          <TouchableOpacity style={styles.copyButton} onPress={copyCode}>
+            <Icon name={copied ? 'check' : 'content-copy'} size={16} color="#6B7280" />
+            <Text style={styles.copyText}>{copied ? 'Copied!' : 'Copy'}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      <ScrollView style={styles.codeScroll}>
+        {request ? <Text style={styles.code} selectable>{code}</Text> : <Text style={styles.error}>{error}</Text>}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  languages: {
+    flex: 1,
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#EFF6FF',
+    borderColor: '#93C5FD',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#1D4ED8',
+  },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  copyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginLeft: 4,
+  },
+  codeScroll: {
+    flex: 1,
+  },
+  code: {
+    fontSize: 12,
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  error: {
+    fontSize: 13,
+    color: '#DC2626',
+  },
+});
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Switch, Share, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  DEFAULT_RUN_OPTIONS,
+  RunContext,
+  RunItemState,
+  RunOptions,
+  RunReport,
+  RunTarget,
+  runReportToJUnit,
+  runReportToJson,
+  runRequests,
+  summarizeRun
+} from '../src/lib/runner';
+import { formatDuration } from '../src/lib/response';
+
+interface CollectionRunnerPanelProps {
+  target: RunTarget;
+  context: RunContext;
+  onClose: () => void;
+}
+
+const STATE_ICONS: Record<RunItemState, { name: string; color: string }> = {
+  pending: { name: 'circle-outline', color: '#D1D5DB' },
+  running: { name: 'progress-clock', color: '#3B82F6' },
+  passed: { name: 'check-circle-outline', color: '#059669' },
+  failed: { name: 'close-circle-outline', color: '#DC2626' },
+  skipped: { name: 'minus-circle-outline', color: '#9CA3AF' },
+};
+
+export default function CollectionRunnerPanel({ target, context, onClose }: CollectionRunnerPanelProps) {
+  const [options, setOptions] = useState<RunOptions>(DEFAULT_RUN_OPTIONS);
+  const [report, setReport] = useState<RunReport | null>(null);
+  // Set while a run is going, to cancel it
+  const [controller, setController] = useState<AbortController | null>(null);
+  const running = controller !== null;
+
+  const start = async () => {
+    const next = new AbortController();
+    setController(next);
+    try {
+      await runRequests(target, options, context, setReport, next.signal);
+    } finally {
+      setController(null);
+    }
+  };
+
+  const share = async (message: string, title: string) => {
+    try {
+      await Share.share({ message, title });
+    } catch (e) {
+      console.error('Failed to share the run report', e);
+    }
+  };
+
+  const summary = report ? summarizeRun(report) : null;
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title} numberOfLines={1}>Run {target.name}</Text>
+        <TouchableOpacity onPress={onClose} disabled={running}>
+          <Icon name="close" size={20} color={running ? '#D1D5DB' : '#6B7280'} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>Delay between requests (ms)</Text>
+        <TextInput
+          style={styles.delayInput}
+          keyboardType="number-pad"
+          editable={!running}
+          value={String(options.delayMs)}
+          onChangeText={(text) => setOptions({ ...options, delayMs: Math.max(0, Number(text) || 0) })}
+        />
+      </View>
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>Stop on first failure</Text>
+        <Switch
+          value={options.stopOnFailure}
+          disabled={running}
+          onValueChange={(stopOnFailure) => setOptions({ ...options, stopOnFailure })}
+        />
+      </View>
+
+      {controller ? (
+        <TouchableOpacity style={[styles.runButton, styles.cancelButton]} onPress={() => controller.abort()}>
+          <Icon name="stop" size={18} color="#FFFFFF" />
+          <Text style={styles.runButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[styles.runButton, target.requests.length === 0 && styles.runButtonDisabled]}
+          onPress={start}
+          disabled={target.requests.length === 0}
+        >
+          <Icon name="play" size={18} color="#FFFFFF" />
+          <Text style={styles.runButtonText}>
+            {report ? 'Run again' : `Run ${target.requests.length} requests`}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {summary && (
+        <View style={styles.summary}>
+          <Text style={styles.summaryText}>
+            {summary.passed} passed · {summary.failed} failed{summary.skipped > 0 ? ` · ${summary.skipped} skipped` : ''}
+          </Text>
+          <Text style={styles.summaryText}>
+            Assertions: {summary.assertionsPassed} passed, {summary.assertionsFailed} failed
+            {report && report.finishedAt !== null ? ` · ${formatDuration(summary.durationMs)}` : ''}
+          </Text>
+          {report && report.finishedAt !== null && (
+            <View style={styles.exportRow}>
+              <TouchableOpacity onPress={() => share(runReportToJson(report), 'run-report.json')}>
+                <Text style={styles.link}>Share JSON</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => share(runReportToJUnit(report), 'run-report.xml')}>
+                <Text style={styles.link}>Share JUnit XML</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
+      {target.requests.length === 0 && <Text style={styles.empty}>There are no saved requests to run here</Text>}
+      {report?.items.map((item) => (
+        <View key={item.id} style={styles.item}>
+          <View style={styles.itemRow}>
+            <Icon name={STATE_ICONS[item.state].name} size={16} color={STATE_ICONS[item.state].color} />
+            <Text style={styles.method}>{item.method}</Text>
+            <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+            {item.status !== null && <Text style={styles.itemMeta}>{item.status}</Text>}
+            {item.durationMs !== null && <Text style={styles.itemMeta}>{formatDuration(item.durationMs)}</Text>}
+          </View>
+          {item.error ? <Text style={styles.itemError}>{item.error}</Text> : null}
+          {item.assertions
+            .filter((assertion) => !assertion.passed)
+            .map((assertion) => (
+              <Text key={assertion.id} style={styles.itemError}>
+                {assertion.description}: {assertion.error || `actual ${assertion.actual}`}
+              </Text>
+            ))}
+          {item.extracted.map((result) => (
+            <Text key={result.id} style={result.value === null ? styles.itemWarning : styles.itemNote}>
+              {result.value === null
+                ? `{{${result.variable}}} not found${result.error ? `: ${result.error}` : ''}`
+                : `Set {{${result.variable}}}`}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  delayInput: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 6,
+    fontSize: 14,
+    textAlign: 'right',
+    backgroundColor: '#FFFFFF',
+  },
+  runButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#3B82F6',
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  runButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    backgroundColor: '#DC2626',
+  },
+  runButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  summary: {
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#4B5563',
+    marginBottom: 2,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  link: {
+    fontSize: 12,
+    color: '#3B82F6',
+  },
+  empty: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  item: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  method: {
+    width: 64,
+    marginLeft: 6,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#6B7280',
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  itemNote: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 22,
+    marginTop: 2,
+  },
+  itemWarning: {
+    fontSize: 12,
+    color: '#B45309',
+    marginLeft: 22,
+    marginTop: 2,
+  },
+  itemError: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginLeft: 22,
+    marginTop: 2,
+  },
+});
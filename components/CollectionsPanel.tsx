@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Alert, Share, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  Collection,
+  SavedRequest,
+  addFolder,
+  createCollection,
+  exportCollections,
+  importCollections,
+  removeNode
+} from '../src/lib/collections';
+import { RunTarget, runTargetFor } from '../src/lib/runner';
+
+interface CollectionsPanelProps {
+  collections: Collection[];
+  openRequestId: string | null;
+  onChange: (collections: Collection[]) => void;
+  onOpen: (saved: SavedRequest) => void;
+  onSaveCurrent: (collectionId: string, folderId: string | null, name: string) => void;
+  onOverwrite: (saved: SavedRequest) => void;
+  onRun: (target: RunTarget) => void;
+}
+
+export default function CollectionsPanel({
+  collections,
+  openRequestId,
+  onChange,
+  onOpen,
+  onSaveCurrent,
+  onOverwrite,
+  onRun
+}: CollectionsPanelProps) {
+  // One name field serves new collections, new folders and saved requests
+  const [name, setName] = useState('');
+  const [importText, setImportText] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [error, setError] = useState('');
+
+  const requireName = (what: string) => {
+    if (name.trim()) return name.trim();
+    setError(`Type a name for the ${what} first`);
+    return null;
+  };
+
+  const run = (what: string, action: (value: string) => void) => {
+    const value = requireName(what);
+    if (!value) return;
+    action(value);
+    setName('');
+    setError('');
+  };
+
+  const confirmRemove = (id: string, label: string) => {
+    Alert.alert('Delete', `Delete "${label}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onChange(removeNode(collections, id)) }
+    ]);
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: exportCollections(collections), title: 'api-tester-collections.json' });
+    } catch (e) {
+      console.error('Failed to export collections', e);
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      onChange([...collections, ...importCollections(importText)]);
+      setImportText('');
+      setShowImport(false);
+      setError('');
+    } catch (err) {
+      setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const renderRequest = (saved: SavedRequest, indent: number) => (
+    <View key={saved.id} style={[styles.row, { paddingLeft: indent }, saved.id === openRequestId && styles.rowOpen]}>
+      <TouchableOpacity style={styles.rowMain} onPress={() => onOpen(saved)}>
+        <Text style={styles.method}>{saved.request.method}</Text>
+        <Text style={styles.requestName} numberOfLines={1}>{saved.name}</Text>
+      </TouchableOpacity>
+      {saved.id === openRequestId && (
+        <TouchableOpacity style={styles.action} onPress={() => onOverwrite(saved)}>
+          <Icon name="content-save" size={16} color="#3B82F6" />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.action} onPress={() => confirmRemove(saved.id, saved.name)}>
+        <Icon name="delete-outline" size={16} color="#9CA3AF" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.nameRow}>
+        <TextInput
+          style={styles.nameInput}
+          placeholder="Name"
+          value={name}
+          onChangeText={setName}
+        />
+        <TouchableOpacity
+          style={styles.nameButton}
+          onPress={() => run('collection', (value) => onChange([...collections, createCollection(value)]))}
+        >
+          <Text style={styles.nameButtonText}>New collection</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>Type a name, then tap + to save the current request or the folder icon to add a folder.</Text>
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      {collections.map((collection) => (
+        <View key={collection.id} style={styles.collection}>
+          <View style={styles.row}>
+            <Icon name="bookshelf" size={16} color="#4B5563" />
+            <Text style={styles.collectionName} numberOfLines={1}>{collection.name}</Text>
+            <TouchableOpacity style={styles.action} onPress={() => onRun(runTargetFor(collection, null))}>
+              <Icon name="play" size={16} color="#3B82F6" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => run('request', (value) => onSaveCurrent(collection.id, null, value))}
+            >
+              <Icon name="plus" size={16} color="#3B82F6" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => run('folder', (value) => onChange(addFolder(collections, collection.id, value)))}
+            >
+              <Icon name="folder-plus-outline" size={16} color="#3B82F6" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.action} onPress={() => confirmRemove(collection.id, collection.name)}>
+              <Icon name="delete-outline" size={16} color="#9CA3AF" />
+            </TouchableOpacity>
+          </View>
+          {collection.folders.map((folder) => (
+            <View key={folder.id}>
+              <View style={[styles.row, { paddingLeft: 16 }]}>
+                <Icon name="folder-outline" size={16} color="#F59E0B" />
+                <Text style={styles.folderName} numberOfLines={1}>{folder.name}</Text>
+                <TouchableOpacity style={styles.action} onPress={() => onRun(runTargetFor(collection, folder.id))}>
+                  <Icon name="play" size={16} color="#3B82F6" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => run('request', (value) => onSaveCurrent(collection.id, folder.id, value))}
+                >
+                  <Icon name="plus" size={16} color="#3B82F6" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.action} onPress={() => confirmRemove(folder.id, folder.name)}>
+                  <Icon name="delete-outline" size={16} color="#9CA3AF" />
+                </TouchableOpacity>
+              </View>
+              {folder.requests.map((saved) => renderRequest(saved, 32))}
+            </View>
+          ))}
+          {collection.requests.map((saved) => renderRequest(saved, 16))}
+        </View>
+      ))}
+
+      <View style={styles.footer}>
+        <TouchableOpacity onPress={() => setShowImport(!showImport)}>
+          <Text style={styles.link}>Import</Text>
+        </TouchableOpacity>
+        {collections.length > 0 ? (
+          <TouchableOpacity onPress={handleExport}>
+            <Text style={styles.link}>Export (without auth secrets)</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {showImport && (
+        <View>
+          <TextInput
+            style={styles.importInput}
+            placeholder="Paste an exported collections file"
+            value={importText}
+            onChangeText={setImportText}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity style={styles.nameButton} onPress={handleImport}>
+            <Text style={styles.nameButtonText}>Import collections</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  nameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 14,
+    backgroundColor: '#FFFFFF',
+    marginRight: 8,
+  },
+  nameButton: {
+    backgroundColor: '#EFF6FF',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  nameButtonText: {
+    color: '#2563EB',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  error: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginBottom: 8,
+  },
+  collection: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  rowOpen: {
+    backgroundColor: '#EFF6FF',
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  collectionName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginLeft: 6,
+  },
+  folderName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    marginLeft: 6,
+  },
+  method: {
+    width: 64,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#6B7280',
+  },
+  requestName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  action: {
+    padding: 6,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  link: {
+    fontSize: 12,
+    color: '#3B82F6',
+  },
+  importInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 12,
+    minHeight: 120,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Platform } from 'react-native';
+import { RequestDraft } from '../src/lib/request';
+import { parseCurlCommand } from '../src/lib/curl';
+
+interface CurlImportPanelProps {
+  onImport: (draft: RequestDraft) => void;
+  onCancel: () => void;
+}
+
+export default function CurlImportPanel({ onImport, onCancel }: CurlImportPanelProps) {
+  const [command, setCommand] = useState('');
+  const [error, setError] = useState('');
+
+  const handleImport = () => {
+    try {
+      onImport(parseCurlCommand(command));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        placeholder="curl -X POST 'https://api.example.com/users' -d '{...}'"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+        value={command}
+        onChangeText={(text) => {
+          setCommand(text);
+          setError('');
+        }}
+      />
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+      <Text style={styles.hint}>
+        Reads -X, -H, -d/--data/--data-raw, -u, -F/--form and the URL. The current form is replaced.
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.button} onPress={onCancel}>
+          <Text style={styles.buttonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.primaryButton]}
+          onPress={handleImport}
+          disabled={!command.trim()}
+        >
+          <Text style={styles.primaryButtonText}>Import</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 6,
+    backgroundColor: '#F9FAFB',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 10,
+    fontSize: 13,
+    backgroundColor: '#FFFFFF',
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    minHeight: 120,
+  },
+  error: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    marginLeft: 8,
+  },
+  buttonText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+});
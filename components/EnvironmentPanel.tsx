@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  EnvironmentState,
+  addEnvironment,
+  createEnvironment,
+  duplicateEnvironment,
+  removeEnvironment,
+  updateEnvironment
+} from '../src/lib/environments';
+import { findDuplicateKeys } from '../src/lib/keyValue';
+import KeyValueEditor from './KeyValueEditor';
+import AuthEditor from './AuthEditor';
+
+interface EnvironmentPanelProps {
+  state: EnvironmentState;
+  onChange: (state: EnvironmentState) => void;
+}
+
+export default function EnvironmentPanel({ state, onChange }: EnvironmentPanelProps) {
+  const [managing, setManaging] = useState(false);
+  const [newName, setNewName] = useState('');
+  const selected = state.environments.find((env) => env.id === state.activeId) || null;
+
+  const add = () => {
+    if (!newName.trim()) return;
+    onChange(addEnvironment(state, createEnvironment(newName.trim())));
+    setNewName('');
+  };
+
+  const confirmRemove = () => {
+    if (!selected) return;
+    Alert.alert('Delete environment', `Delete "${selected.name}" and its variables?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onChange(removeEnvironment(state, selected.id)) }
+    ]);
+  };
+
+  return (
+    <View>
+      <View style={styles.switcher}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+          {state.environments.map((env) => (
+            <TouchableOpacity
+              key={env.id}
+              style={[styles.chip, env.id === state.activeId && styles.chipSelected]}
+              onPress={() => onChange({ ...state, activeId: env.id })}
+            >
+              <Text style={[styles.chipText, env.id === state.activeId && styles.chipTextSelected]}>{env.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <TouchableOpacity style={styles.manageButton} onPress={() => setManaging(!managing)}>
+          <Icon name={managing ? 'close' : 'cog-outline'} size={20} color="#4B5563" />
+        </TouchableOpacity>
+      </View>
+
+      {managing && (
+        <View style={styles.manager}>
+          {selected ? (
+            <>
+              <View style={styles.nameRow}>
+                <TextInput
+                  style={styles.nameInput}
+                  value={selected.name}
+                  onChangeText={(name) => onChange(updateEnvironment(state, selected.id, { name }))}
+                />
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => onChange(duplicateEnvironment(state, selected.id, `${selected.name} copy`))}
+                >
+                  <Icon name="content-copy" size={18} color="#6B7280" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={confirmRemove}>
+                  <Icon name="delete-outline" size={18} color="#DC2626" />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.label}>Variables</Text>
+              <KeyValueEditor
+                rows={selected.variables}
+                onChange={(variables) => onChange(updateEnvironment(state, selected.id, { variables }))}
+                duplicateKeys={findDuplicateKeys(selected.variables)}
+                keyPlaceholder="Variable"
+                valuePlaceholder="Value"
+                addLabel="Add variable"
+              />
+              <Text style={[styles.label, styles.authLabel]}>Auth (for requests that inherit)</Text>
+              <AuthEditor
+                auth={selected.auth}
+                onChange={(changes) => onChange(updateEnvironment(state, selected.id, { auth: { ...selected.auth, ...changes } }))}
+              />
+            </>
+          ) : null}
+          <View style={[styles.nameRow, styles.addRow]}>
+            <TextInput
+              style={styles.nameInput}
+              placeholder="New environment (e.g. Staging)"
+              value={newName}
+              onChangeText={setNewName}
+            />
+            <TouchableOpacity style={styles.iconButton} onPress={add}>
+              <Icon name="plus" size={20} color="#3B82F6" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  switcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chips: {
+    flex: 1,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  manageButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  manager: {
+    marginTop: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 6,
+    backgroundColor: '#F9FAFB',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  addRow: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  nameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 14,
+    backgroundColor: '#FFFFFF',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4B5563',
+    marginBottom: 6,
+  },
+  authLabel: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,145 @@
+import React from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  EXTRACTION_SOURCES,
+  ExtractionRule,
+  createExtractionRule,
+  updateExtractionRule
+} from '../src/lib/extraction';
+
+interface ExtractionsEditorProps {
+  rules: ExtractionRule[];
+  onChange: (rules: ExtractionRule[]) => void;
+}
+
+export default function ExtractionsEditor({ rules, onChange }: ExtractionsEditorProps) {
+  const update = (id: string, changes: Partial<ExtractionRule>) => onChange(updateExtractionRule(rules, id, changes));
+
+  return (
+    <View>
+      {rules.map((rule) => (
+        <View key={rule.id} style={[styles.rule, !rule.enabled && styles.disabled]}>
+          <View style={styles.row}>
+            <TouchableOpacity style={styles.checkbox} onPress={() => update(rule.id, { enabled: !rule.enabled })}>
+              {rule.enabled && <Icon name="check" size={14} color="#3B82F6" />}
+            </TouchableOpacity>
+            <TextInput
+              style={[styles.input, styles.variableInput]}
+              placeholder="variable"
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={rule.variable}
+              onChangeText={(variable) => update(rule.id, { variable })}
+            />
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onChange(rules.filter((other) => other.id !== rule.id))}
+            >
+              <Icon name="delete-outline" size={18} color="#9CA3AF" />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.sources}>
+            {EXTRACTION_SOURCES.map(({ value, label }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, rule.source === value && styles.chipSelected]}
+                onPress={() => update(rule.id, { source: value, expression: value === 'jsonPath' ? '$.' : '' })}
+              >
+                <Text style={[styles.chipText, rule.source === value && styles.chipTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder={EXTRACTION_SOURCES.find((option) => option.value === rule.source)?.placeholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={rule.expression}
+            onChangeText={(expression) => update(rule.id, { expression })}
+          />
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addButton} onPress={() => onChange([...rules, createExtractionRule()])}>
+        <Icon name="plus" size={14} color="#3B82F6" />
+        <Text style={styles.addButtonText}>Add extraction</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  rule: {
+    paddingBottom: 8,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 4,
+    marginRight: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sources: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 6,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+  },
+  variableInput: {
+    flex: 1,
+    marginTop: 0,
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 2,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginLeft: 4,
+  },
+});
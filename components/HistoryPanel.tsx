@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Alert, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { HistoryEntry, HistoryFilter, filterHistory } from '../src/lib/history';
+import { STATUS_CLASS_LABELS, StatusClass } from '../src/lib/status';
+import { formatDuration } from '../src/lib/response';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  getStatusCodeColor: (code: number | null) => string;
+  onRerun: (entry: HistoryEntry) => void;
+  onLoad: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+const FILTERS: HistoryFilter[] = ['all', 'success', 'redirect', 'clientError', 'serverError', 'none'];
+
+export default function HistoryPanel({
+  entries,
+  getStatusCodeColor,
+  onRerun,
+  onLoad,
+  onDelete,
+  onClear
+}: HistoryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<HistoryFilter>('all');
+  const visible = filterHistory(entries, query, filter);
+
+  const confirmClear = () => {
+    Alert.alert('Clear history', 'Clear the whole request history?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: onClear }
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.search}
+        placeholder="Search URL, method, body"
+        autoCapitalize="none"
+        autoCorrect={false}
+        value={query}
+        onChangeText={setQuery}
+      />
+      <View style={styles.filters}>
+        {FILTERS.map((f) => (
+          <TouchableOpacity
+            key={f}
+            style={[styles.filterChip, filter === f && styles.filterChipSelected]}
+            onPress={() => setFilter(f)}
+          >
+            <Text style={[styles.filterText, filter === f && styles.filterTextSelected]}>
+              {f === 'all' ? 'All' : STATUS_CLASS_LABELS[f as StatusClass]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {visible.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {entries.length === 0 ? 'Sent requests will show up here' : 'No matching requests'}
+        </Text>
+      ) : (
+        visible.map((entry) => (
+          <View key={entry.id} style={styles.entry}>
+            <TouchableOpacity style={styles.entryInfo} onPress={() => onLoad(entry)}>
+              <Text style={styles.entryUrl} numberOfLines={1}>
+                <Text style={styles.entryMethod}>{entry.request.method} </Text>
+                {entry.fullUrl}
+              </Text>
+              <Text style={styles.entryMeta}>
+                <Text style={{ color: getStatusCodeColor(entry.status), fontWeight: 'bold' }}>
+                  {entry.status ?? 'ERR'}
+                </Text>
+                {entry.durationMs !== null ? `  ${formatDuration(entry.durationMs)}` : ''}
+                {`  ${new Date(entry.sentAt).toLocaleTimeString()}`}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.entryAction} onPress={() => onRerun(entry)}>
+              <Icon name="play" size={18} color="#3B82F6" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.entryAction} onPress={() => onDelete(entry.id)}>
+              <Icon name="delete-outline" size={18} color="#9CA3AF" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {entries.length > 0 ? (
+        <TouchableOpacity onPress={confirmClear}>
+          <Text style={styles.clearText}>Clear history</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  search: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 14,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 8,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  filterChip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  filterChipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  filterText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  filterTextSelected: {
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryMethod: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontWeight: 'bold',
+    color: '#374151',
+  },
+  entryUrl: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  entryAction: {
+    padding: 6,
+  },
+  clearText: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginTop: 8,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, FlatList, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import * as Clipboard from 'expo-clipboard';
+import { formatJsonPath, queryJsonPath } from '../src/lib/jsonPath';
+import {
+  JsonNodeType,
+  JsonRow,
+  SEARCH_MATCH_LIMIT,
+  buildJsonRows,
+  collapseAll,
+  createJsonTreeState,
+  expandAll,
+  formatJsonValue,
+  revealPath,
+  searchJson,
+  toggleNode,
+} from '../src/lib/jsonTree';
+
+interface JsonTreePanelProps {
+  value: unknown;
+}
+
+// Fixed so FlatList can jump straight to a match without measuring
+const ROW_HEIGHT = 22;
+
+const VALUE_COLORS: Record<JsonNodeType, string> = {
+  object: '#6B7280',
+  array: '#6B7280',
+  string: '#9333EA',
+  number: '#16A34A',
+  boolean: '#2563EB',
+  null: '#4B5563',
+};
+
+const rowText = (row: JsonRow) => {
+  if (row.type !== 'object' && row.type !== 'array') return formatJsonValue(row.value);
+  if (row.size === 0) return row.type === 'array' ? '[]' : '{}';
+  if (!row.collapsed) return row.type === 'array' ? '[' : '{';
+  return row.type === 'array'
+    ? `[…] ${row.size} ${row.size === 1 ? 'item' : 'items'}`
+    : `{…} ${row.size} ${row.size === 1 ? 'key' : 'keys'}`;
+};
+
+// Collapsible JSON tree with search and JSONPath / jq filtering; long-press a row to copy its path
+export default function JsonTreePanel({ value }: JsonTreePanelProps) {
+  const [filter, setFilter] = useState('');
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+  const [copiedPath, setCopiedPath] = useState<string | null>(null);
+  const list = useRef<FlatList<JsonRow>>(null);
+
+  const { roots, filterError } = useMemo(() => {
+    if (!filter.trim()) return { roots: [{ path: [], value }], filterError: '' };
+    try {
+      return { roots: queryJsonPath(value, filter), filterError: '' };
+    } catch (e) {
+      return { roots: [{ path: [], value }], filterError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [value, filter]);
+
+  const [treeState, setTreeState] = useState(() => createJsonTreeState(roots));
+  useEffect(() => {
+    setTreeState(createJsonTreeState(roots));
+  }, [roots]);
+
+  const rows = useMemo(() => buildJsonRows(roots, treeState), [roots, treeState]);
+  const matches = useMemo(() => searchJson(roots, query), [roots, query]);
+  const matchIds = useMemo(() => new Set(matches.map(formatJsonPath)), [matches]);
+  const currentId = matches.length > 0 ? formatJsonPath(matches[Math.min(current, matches.length - 1)]) : null;
+
+  useEffect(() => {
+    if (currentId === null) return;
+    const index = rows.findIndex((row) => row.id === currentId);
+    if (index >= 0) list.current?.scrollToIndex({ index, viewPosition: 0.5, animated: false });
+  }, [currentId, rows]);
+
+  const goTo = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setCurrent(next);
+    setTreeState((prev) => revealPath(prev, matches[next]));
+  };
+
+  const changeQuery = (text: string) => {
+    setQuery(text);
+    setCurrent(0);
+    const first = searchJson(roots, text)[0];
+    if (first) setTreeState((prev) => revealPath(prev, first));
+  };
+
+  const copyPath = async (row: JsonRow) => {
+    const path = formatJsonPath(row.path);
+    await Clipboard.setStringAsync(path);
+    setCopiedPath(path);
+    setTimeout(() => setCopiedPath(null), 1500);
+  };
+
+  const renderRow = ({ item: row }: { item: JsonRow }) => {
+    const highlight = row.id === currentId ? styles.current : matchIds.has(row.id) && !row.closing ? styles.match : null;
+    if (row.closing) {
+      return (
+        <View style={[styles.row, { paddingLeft: row.depth * 14 + 18 }]}>
+          <Text style={styles.punctuation}>{row.type === 'array' ? ']' : '}'}{row.last ? '' : ','}</Text>
+        </View>
+      );
+    }
+    const expandable = (row.type === 'object' || row.type === 'array') && row.size > 0;
+    const trailingComma = (row.collapsed || !expandable) && !row.last ? ',' : '';
+    return (
+      <TouchableOpacity
+        style={[styles.row, highlight, { paddingLeft: row.depth * 14 }]}
+        activeOpacity={expandable ? 0.6 : 1}
+        onPress={() => expandable && setTreeState((prev) => toggleNode(prev, row))}
+        onLongPress={() => copyPath(row)}
+      >
+        <View style={styles.toggle}>
+          {expandable && <Icon name={row.collapsed ? 'chevron-right' : 'chevron-down'} size={16} color="#9CA3AF" />}
+        </View>
+        <Text style={styles.code} numberOfLines={1}>
+          {row.label !== null && (
+            <Text style={typeof row.label === 'number' ? styles.index : styles.key}>
+              {typeof row.label === 'number' ? row.label : JSON.stringify(row.label)}
+              <Text style={styles.punctuation}>: </Text>
+            </Text>
+          )}
+          <Text style={{ color: VALUE_COLORS[row.type] }}>{rowText(row)}</Text>
+          {trailingComma}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="Search keys and values"
+          value={query}
+          onChangeText={changeQuery}
+          onSubmitEditing={() => goTo(current + 1)}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {query.trim() !== '' && (
+          <Text style={styles.count}>
+            {matches.length === 0
+              ? 'No matches'
+              : `${Math.min(current, matches.length - 1) + 1} / ${matches.length}${matches.length >= SEARCH_MATCH_LIMIT ? '+' : ''}`}
+          </Text>
+        )}
+        <TouchableOpacity onPress={() => goTo(current - 1)} disabled={matches.length === 0} style={styles.iconButton}>
+          <Icon name="chevron-up" size={20} color={matches.length === 0 ? '#D1D5DB' : '#4B5563'} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => goTo(current + 1)} disabled={matches.length === 0} style={styles.iconButton}>
+          <Icon name="chevron-down" size={20} color={matches.length === 0 ? '#D1D5DB' : '#4B5563'} />
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={[styles.input, styles.filterInput, filterError !== '' && styles.inputError]}
+        placeholder="Filter: $.items[*].id or .items[].id"
+        value={filter}
+        onChangeText={setFilter}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {filterError !== '' && <Text style={styles.error}>{filterError}</Text>}
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.chip} onPress={() => setTreeState(expandAll())}>
+          <Text style={styles.chipText}>Expand all</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.chip} onPress={() => setTreeState(collapseAll())}>
+          <Text style={styles.chipText}>Collapse all</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>{copiedPath ? `Copied ${copiedPath}` : 'Long-press a row to copy its path'}</Text>
+      </View>
+      {filterError === '' && roots.length === 0 ? (
+        <Text style={styles.hint}>Nothing matches {filter}</Text>
+      ) : (
+        <FlatList
+          ref={list}
+          style={styles.list}
+          data={rows}
+          keyExtractor={(row) => row.id}
+          renderItem={renderRow}
+          extraData={[currentId, matchIds]}
+          getItemLayout={(_, index) => ({ length: ROW_HEIGHT, offset: ROW_HEIGHT * index, index })}
+          initialNumToRender={40}
+          windowSize={11}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+  },
+  filterInput: {
+    flex: 0,
+    marginBottom: 6,
+  },
+  inputError: {
+    borderColor: '#F87171',
+  },
+  error: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginBottom: 6,
+  },
+  count: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 6,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  hint: {
+    flex: 1,
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  list: {
+    flex: 1,
+  },
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  current: {
+    backgroundColor: '#FEF08A',
+  },
+  match: {
+    backgroundColor: '#FEFCE8',
+  },
+  toggle: {
+    width: 18,
+    alignItems: 'center',
+  },
+  code: {
+    flex: 1,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  key: {
+    color: '#DC2626',
+  },
+  index: {
+    color: '#9CA3AF',
+  },
+  punctuation: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 13,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,151 @@
+import React from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { KeyValueRow, createRow, updateRow, removeRow } from '../src/lib/keyValue';
+
+interface KeyValueEditorProps {
+  rows: KeyValueRow[];
+  onChange: (rows: KeyValueRow[]) => void;
+  duplicateKeys?: Set<string>;
+  caseInsensitive?: boolean;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  addLabel?: string;
+}
+
+export default function KeyValueEditor({
+  rows,
+  onChange,
+  duplicateKeys,
+  caseInsensitive = false,
+  keyPlaceholder = 'Key',
+  valuePlaceholder = 'Value',
+  addLabel = 'Add row'
+}: KeyValueEditorProps) {
+  const isDuplicate = (row: KeyValueRow) => {
+    if (!duplicateKeys || !row.enabled) return false;
+    const key = caseInsensitive ? row.key.trim().toLowerCase() : row.key.trim();
+    return duplicateKeys.has(key);
+  };
+
+  return (
+    <View>
+      {rows.map((row) => (
+        <View key={row.id} style={styles.row}>
+          <TouchableOpacity
+            style={styles.checkbox}
+            onPress={() => onChange(updateRow(rows, row.id, { enabled: !row.enabled }))}
+          >
+            {row.enabled && <Icon name="check" size={14} color="#3B82F6" />}
+          </TouchableOpacity>
+          <TextInput
+            style={[
+              styles.keyInput,
+              isDuplicate(row) && styles.duplicateInput,
+              !row.enabled && styles.disabledInput
+            ]}
+            placeholder={keyPlaceholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={row.key}
+            onChangeText={(key) => onChange(updateRow(rows, row.id, { key }))}
+          />
+          <TextInput
+            style={[styles.valueInput, !row.enabled && styles.disabledInput]}
+            placeholder={valuePlaceholder}
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={row.value}
+            onChangeText={(value) => onChange(updateRow(rows, row.id, { value }))}
+          />
+          <TouchableOpacity style={styles.removeButton} onPress={() => onChange(removeRow(rows, row.id))}>
+            <Icon name="delete-outline" size={18} color="#9CA3AF" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      {duplicateKeys && duplicateKeys.size > 0 ? (
+        <View style={styles.warning}>
+          <Icon name="alert-outline" size={12} color="#B45309" />
+          <Text style={styles.warningText}>
+            Duplicate keys: {Array.from(duplicateKeys).join(', ')} (the last one wins)
+          </Text>
+        </View>
+      ) : null}
+      <TouchableOpacity style={styles.addButton} onPress={() => onChange([...rows, createRow()])}>
+        <Icon name="plus" size={14} color="#3B82F6" />
+        <Text style={styles.addButtonText}>{addLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 4,
+    marginRight: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyInput: {
+    flex: 2,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderTopLeftRadius: 6,
+    borderBottomLeftRadius: 6,
+    padding: 8,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+  },
+  valueInput: {
+    flex: 3,
+    borderWidth: 1,
+    borderLeftWidth: 0,
+    borderColor: '#D1D5DB',
+    borderTopRightRadius: 6,
+    borderBottomRightRadius: 6,
+    padding: 8,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+  },
+  duplicateInput: {
+    borderColor: '#FBBF24',
+    backgroundColor: '#FFFBEB',
+  },
+  disabledInput: {
+    color: '#9CA3AF',
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 2,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#B45309',
+    marginLeft: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginLeft: 4,
+  },
+});
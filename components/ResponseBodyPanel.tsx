@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Image, Platform } from 'react-native';
+import {
+  HEX_VIEW_LIMIT,
+  ResponseBody,
+  formatResponseBody,
+  hexDump
+} from '../src/lib/responseBody';
+import { bytesToBase64 } from '../src/lib/encoding';
+import { TokenKind, highlightJson, highlightMarkup } from '../src/lib/highlight';
+import { formatBytes } from '../src/lib/response';
+import JsonTreePanel from './JsonTreePanel';
+
+interface ResponseBodyPanelProps {
+  body: ResponseBody;
+}
+
+const TOKEN_COLORS: Record<TokenKind, string | undefined> = {
+  key: '#DC2626',
+  string: '#9333EA',
+  number: '#16A34A',
+  boolean: '#2563EB',
+  null: '#4B5563',
+  tag: '#1D4ED8',
+  attribute: '#DC2626',
+  value: '#9333EA',
+  comment: '#9CA3AF',
+  plain: undefined,
+};
+
+// Nested Text gets slow long before this, so bigger bodies are shown plain
+const HIGHLIGHT_LIMIT = 128 * 1024;
+
+// Renders a response body by its type: a JSON tree, highlighted markup, inline images and a hex view
+export default function ResponseBodyPanel({ body }: ResponseBodyPanelProps) {
+  const [raw, setRaw] = useState(false);
+  const reformatted = body.kind === 'json' || body.kind === 'xml' || body.kind === 'html';
+
+  // JSON that parses goes to the tree, which scrolls itself
+  const parsed = useMemo(() => {
+    if (body.kind !== 'json') return null;
+    try {
+      return { value: JSON.parse(body.text) as unknown };
+    } catch (e) {
+      return null;
+    }
+  }, [body]);
+
+  const content = () => {
+    if (body.kind === 'empty') {
+      return <Text style={styles.note}>No response body</Text>;
+    }
+    if (body.kind === 'image') {
+      // React Native can't draw SVG through Image
+      if (body.contentType === 'image/svg+xml') return <Text style={styles.code}>{body.text}</Text>;
+      return (
+        <Image
+          style={styles.image}
+          resizeMode="contain"
+          source={{ uri: `data:${body.contentType};base64,${bytesToBase64(body.bytes)}` }}
+        />
+      );
+    }
+    if (body.kind === 'binary') {
+      return (
+        <>
+          <Text style={styles.note}>
+            Binary bodies can be saved from the web app.
+            {body.bytes.length > HEX_VIEW_LIMIT ? ` Showing the first ${formatBytes(HEX_VIEW_LIMIT)}.` : ''}
+          </Text>
+          <Text style={styles.hex}>{hexDump(body.bytes)}</Text>
+        </>
+      );
+    }
+    const text = raw ? body.text : formatResponseBody(body);
+    if (raw || !reformatted || text.length > HIGHLIGHT_LIMIT) {
+      return <Text style={styles.code}>{text}</Text>;
+    }
+    const tokens = body.kind === 'json' ? highlightJson(text) : highlightMarkup(text);
+    return (
+      <Text style={styles.code}>
+        {tokens.map((token, index) =>
+          token.kind === 'plain' ? token.text : <Text key={index} style={{ color: TOKEN_COLORS[token.kind] }}>{token.text}</Text>
+        )}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {body.kind !== 'empty' && (
+        <View style={styles.toolbar}>
+          <Text style={styles.contentType}>
+            {body.contentType || 'no Content-Type'} · {formatBytes(body.bytes.length)}
+          </Text>
+          {reformatted && (
+            <TouchableOpacity style={[styles.chip, raw && styles.chipSelected]} onPress={() => setRaw(!raw)}>
+              <Text style={[styles.chipText, raw && styles.chipTextSelected]}>Raw</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      {parsed && !raw ? (
+        <JsonTreePanel value={parsed.value} />
+      ) : (
+        <ScrollView style={styles.scroll}>{content()}</ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  contentType: {
+    flex: 1,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  scroll: {
+    flex: 1,
+  },
+  code: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 14,
+  },
+  hex: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 11,
+    color: '#374151',
+  },
+  note: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  image: {
+    width: '100%',
+    height: 320,
+  },
+});
@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, Switch, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { Environment } from '../src/lib/environments';
+import { HistoryEntry, diffableResponse, isResponseTruncated } from '../src/lib/history';
+import { formatJsonPath } from '../src/lib/jsonPath';
+import {
+  DEFAULT_DIFF_OPTIONS,
+  JsonDiffKind,
+  diffJson,
+  formatDiffValue,
+  parseDiffDocument,
+  parseIgnoreList,
+  summarizeDiff,
+} from '../src/lib/jsonDiff';
+
+interface ResponseDiffPanelProps {
+  history: HistoryEntry[];
+  environments: Environment[];
+  // The body on screen, if any
+  currentResponse: string | null;
+  // Sends the form to another environment and resolves with the response body
+  sendToEnvironment: (envId: string, signal: AbortSignal) => Promise<string>;
+  onClose: () => void;
+}
+
+interface DiffSide {
+  label: string;
+  value: unknown;
+}
+
+// Only recent history is offered; the chips would get unwieldy past this
+const HISTORY_CHOICES = 10;
+
+const KIND_COLORS: Record<JsonDiffKind, { background: string; text: string }> = {
+  added: { background: '#F0FDF4', text: '#15803D' },
+  removed: { background: '#FEF2F2', text: '#B91C1C' },
+  changed: { background: '#FEFCE8', text: '#A16207' },
+};
+
+const historyLabel = (entry: HistoryEntry) =>
+  `${entry.request.method} ${entry.status ?? 'error'} · ${new Date(entry.sentAt).toLocaleTimeString()}`;
+
+// Sources are 'current', 'env:<id>' or 'history:<id>'
+const defaultSources = (environments: Environment[], history: HistoryEntry[], hasCurrent: boolean) => {
+  if (environments.length >= 2) return [`env:${environments[0].id}`, `env:${environments[1].id}`];
+  const right = hasCurrent ? 'current' : history[0] ? `history:${history[0].id}` : '';
+  const left = history.find((entry) => `history:${entry.id}` !== right);
+  return [left ? `history:${left.id}` : '', right];
+};
+
+// Compares two JSON responses, from history or sent to two environments, ignoring key order
+export default function ResponseDiffPanel({
+  history,
+  environments,
+  currentResponse,
+  sendToEnvironment,
+  onClose,
+}: ResponseDiffPanelProps) {
+  const [sources, setSources] = useState(() => defaultSources(environments, history, currentResponse !== null));
+  const [ignoreVolatile, setIgnoreVolatile] = useState(DEFAULT_DIFF_OPTIONS.ignoreVolatile);
+  const [ignoreText, setIgnoreText] = useState('');
+  const [sides, setSides] = useState<[DiffSide, DiffSide] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  // Set while requests to environments are out, to cancel them
+  const [controller, setController] = useState<AbortController | null>(null);
+  const loading = controller !== null;
+
+  const choices = [
+    ...(currentResponse !== null ? [{ value: 'current', label: 'Current response' }] : []),
+    ...environments.map((env) => ({ value: `env:${env.id}`, label: `Send to ${env.name}` })),
+    ...history.slice(0, HISTORY_CHOICES).map((entry) => ({ value: `history:${entry.id}`, label: historyLabel(entry) })),
+  ];
+
+  const load = async (source: string, signal: AbortSignal): Promise<DiffSide> => {
+    const [kind, id] = source.split(/:(.*)/);
+    if (kind === 'current') {
+      return { label: 'Current response', value: parseDiffDocument(currentResponse || '') };
+    }
+    if (kind === 'env') {
+      const env = environments.find((item) => item.id === id);
+      if (!env) throw new Error('That environment no longer exists');
+      return { label: env.name, value: parseDiffDocument(await sendToEnvironment(env.id, signal)) };
+    }
+    const entry = history.find((item) => item.id === id);
+    if (!entry) throw new Error('Pick a response to compare');
+    if (entry.error) throw new Error(entry.error);
+    return { label: historyLabel(entry), value: parseDiffDocument(diffableResponse(entry), isResponseTruncated(entry)) };
+  };
+
+  const compare = async () => {
+    const next = new AbortController();
+    setController(next);
+    setSides(null);
+    setErrors([]);
+    try {
+      const results = await Promise.allSettled(sources.map((source) => load(source, next.signal)));
+      const failures = results.map((result, index) =>
+        result.status === 'rejected'
+          ? `${index === 0 ? 'Left' : 'Right'}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`
+          : ''
+      );
+      if (results[0].status === 'fulfilled' && results[1].status === 'fulfilled') {
+        setSides([results[0].value, results[1].value]);
+      }
+      setErrors(failures.filter((failure) => failure));
+    } finally {
+      setController(null);
+    }
+  };
+
+  // Recomputed as the ignore settings change, without sending again
+  const diff = useMemo(() => {
+    if (!sides) return null;
+    try {
+      return { entries: diffJson(sides[0].value, sides[1].value, { ignoreVolatile, ignore: parseIgnoreList(ignoreText) }), error: '' };
+    } catch (e) {
+      return { entries: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [sides, ignoreVolatile, ignoreText]);
+  const counts = diff ? summarizeDiff(diff.entries) : null;
+
+  const sourcePicker = (index: number) => (
+    <View style={styles.side}>
+      <Text style={styles.optionLabel}>{index === 0 ? 'Left' : 'Right'}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {choices.map((choice) => {
+          const selected = sources[index] === choice.value;
+          return (
+            <TouchableOpacity
+              key={choice.value}
+              style={[styles.chip, selected && styles.chipSelected]}
+              disabled={loading}
+              onPress={() => setSources(sources.map((source, i) => (i === index ? choice.value : source)))}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{choice.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Compare responses</Text>
+        <TouchableOpacity onPress={onClose} disabled={loading}>
+          <Icon name="close" size={20} color={loading ? '#D1D5DB' : '#6B7280'} />
+        </TouchableOpacity>
+      </View>
+
+      {choices.length === 0 && <Text style={styles.empty}>Send a request or add environments to compare responses</Text>}
+      {sourcePicker(0)}
+      {sourcePicker(1)}
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>Ignore ids and timestamps</Text>
+        <Switch value={ignoreVolatile} onValueChange={setIgnoreVolatile} />
+      </View>
+      <TextInput
+        style={styles.input}
+        placeholder="Also ignore: version, $.meta, .items[].etag"
+        value={ignoreText}
+        onChangeText={setIgnoreText}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      {controller ? (
+        <TouchableOpacity style={[styles.compareButton, styles.cancelButton]} onPress={() => controller.abort()}>
+          <Icon name="stop" size={18} color="#FFFFFF" />
+          <Text style={styles.compareButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[styles.compareButton, (!sources[0] || !sources[1]) && styles.compareButtonDisabled]}
+          onPress={compare}
+          disabled={!sources[0] || !sources[1]}
+        >
+          <Icon name="compare-horizontal" size={18} color="#FFFFFF" />
+          <Text style={styles.compareButtonText}>Compare</Text>
+        </TouchableOpacity>
+      )}
+
+      {errors.map((error) => (
+        <Text key={error} style={styles.error}>{error}</Text>
+      ))}
+      {diff?.error ? <Text style={styles.error}>{diff.error}</Text> : null}
+      {counts && !diff?.error && (
+        <Text style={styles.summaryText}>
+          {counts.added} added · {counts.removed} removed · {counts.changed} changed
+        </Text>
+      )}
+      {sides && diff && !diff.error && diff.entries.length === 0 && <Text style={styles.empty}>No differences</Text>}
+      {sides &&
+        diff?.entries.map((entry) => {
+          const path = formatJsonPath(entry.path);
+          return (
+            <View key={path} style={[styles.entry, { backgroundColor: KIND_COLORS[entry.kind].background }]}>
+              <Text style={styles.path}>
+                {path} <Text style={{ color: KIND_COLORS[entry.kind].text }}>{entry.kind}</Text>
+              </Text>
+              <View style={styles.values}>
+                <Text style={styles.value}>{formatDiffValue(entry.before)}</Text>
+                <Text style={styles.value}>{formatDiffValue(entry.after)}</Text>
+              </View>
+            </View>
+          );
+        })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  side: {
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    backgroundColor: '#FFFFFF',
+    marginBottom: 8,
+  },
+  compareButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#3B82F6',
+    borderRadius: 6,
+    padding: 10,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  compareButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    backgroundColor: '#DC2626',
+  },
+  compareButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  error: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#4B5563',
+    marginBottom: 8,
+  },
+  empty: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  entry: {
+    borderRadius: 4,
+    padding: 6,
+    marginBottom: 4,
+  },
+  path: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#1F2937',
+    marginBottom: 2,
+  },
+  values: {
+    flexDirection: 'row',
+  },
+  value: {
+    flex: 1,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#374151',
+    paddingRight: 6,
+  },
+});
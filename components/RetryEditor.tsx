@@ -0,0 +1,132 @@
+import React from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Switch } from 'react-native';
+import { RETRYABLE_STATUSES, RetryPolicy } from '../src/lib/retry';
+
+interface RetryEditorProps {
+  policy: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+export default function RetryEditor({ policy, onChange }: RetryEditorProps) {
+  const update = (changes: Partial<RetryPolicy>) => onChange({ ...policy, ...changes });
+  const toggleStatus = (status: number) =>
+    update({
+      statuses: policy.statuses.includes(status)
+        ? policy.statuses.filter((other) => other !== status)
+        : [...policy.statuses, status].sort((a, b) => a - b),
+    });
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Retry flaky responses</Text>
+        <Switch value={policy.enabled} onValueChange={(enabled) => update({ enabled })} />
+      </View>
+      {policy.enabled && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label}>Attempts</Text>
+            <TextInput
+              style={styles.numberInput}
+              keyboardType="number-pad"
+              value={String(policy.maxAttempts)}
+              onChangeText={(text) => update({ maxAttempts: Math.min(10, Math.max(1, Number(text) || 1)) })}
+            />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>First wait (ms), doubling</Text>
+            <TextInput
+              style={styles.numberInput}
+              keyboardType="number-pad"
+              value={String(policy.baseDelayMs)}
+              onChangeText={(text) => update({ baseDelayMs: Math.max(0, Number(text) || 0) })}
+            />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Longest wait (ms)</Text>
+            <TextInput
+              style={styles.numberInput}
+              keyboardType="number-pad"
+              value={String(policy.maxDelayMs)}
+              onChangeText={(text) => update({ maxDelayMs: Math.max(0, Number(text) || 0) })}
+            />
+          </View>
+          <View style={styles.statuses}>
+            {RETRYABLE_STATUSES.map((status) => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.chip, policy.statuses.includes(status) && styles.chipSelected]}
+                onPress={() => toggleStatus(status)}
+              >
+                <Text style={[styles.chipText, policy.statuses.includes(status) && styles.chipTextSelected]}>
+                  {status}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Network errors</Text>
+            <Switch value={policy.retryNetworkErrors} onValueChange={(retryNetworkErrors) => update({ retryNetworkErrors })} />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Timeouts</Text>
+            <Switch value={policy.retryTimeouts} onValueChange={(retryTimeouts) => update({ retryTimeouts })} />
+          </View>
+          <Text style={styles.hint}>Waits are jittered, and a Retry-After header from the server sets the wait instead.</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  label: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  numberInput: {
+    width: 80,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 6,
+    fontSize: 14,
+    textAlign: 'right',
+    backgroundColor: '#FFFFFF',
+  },
+  statuses: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
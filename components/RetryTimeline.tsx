@@ -0,0 +1,79 @@
+import React from 'react';
+import { StyleSheet, View, Text, Platform } from 'react-native';
+import { RetryAttempt } from '../src/lib/retry';
+import { formatDuration } from '../src/lib/response';
+import { getStatusClass } from '../src/lib/status';
+
+interface RetryTimelineProps {
+  attempts: RetryAttempt[];
+}
+
+const STATUS_COLORS = {
+  none: '#6B7280',
+  success: '#059669',
+  redirect: '#2563EB',
+  clientError: '#D97706',
+  serverError: '#DC2626',
+};
+
+// Every attempt of a retried request, with the waits between them
+export default function RetryTimeline({ attempts }: RetryTimelineProps) {
+  return (
+    <View style={styles.container}>
+      {attempts.map((attempt) => (
+        <View key={attempt.attempt}>
+          <View style={styles.attempt}>
+            <Text style={styles.number}>#{attempt.attempt}</Text>
+            <Text style={[styles.status, { color: STATUS_COLORS[getStatusClass(attempt.status)] }]}>
+              {attempt.status ?? 'Error'}
+            </Text>
+            <Text style={styles.meta}>{formatDuration(attempt.durationMs)}</Text>
+            {attempt.error ? <Text style={styles.error} numberOfLines={1}>{attempt.error}</Text> : null}
+          </View>
+          {attempt.delayMs !== null && (
+            <Text style={styles.wait}>
+              waited {formatDuration(attempt.delayMs)}{attempt.retryAfter ? ' (Retry-After)' : ''}
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  attempt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  number: {
+    width: 28,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  status: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  error: {
+    flex: 1,
+    fontSize: 12,
+    color: '#DC2626',
+    marginLeft: 8,
+  },
+  wait: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginLeft: 28,
+    marginVertical: 2,
+  },
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { StyleSheet, View, Text, ScrollView, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { ResponseValidation } from '../src/lib/schema';
+
+interface SchemaValidationPanelProps {
+  validation: ResponseValidation;
+}
+
+export default function SchemaValidationPanel({ validation }: SchemaValidationPanelProps) {
+  const { source, undeclaredStatus, checked, violations, error } = validation;
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.source}>Checked against {source}</Text>
+      {error ? (
+        <View style={styles.row}>
+          <Icon name="alert-outline" size={14} color="#DC2626" style={styles.icon} />
+          <Text style={styles.error}>{error}</Text>
+        </View>
+      ) : null}
+      {undeclaredStatus && (
+        <View style={styles.warning}>
+          <Icon name="alert-outline" size={14} color="#92400E" style={styles.icon} />
+          <Text style={styles.warningText}>
+            The spec doesn't declare this status{undeclaredStatus.length > 0 ? `; it lists ${undeclaredStatus.join(', ')}` : ''}.
+          </Text>
+        </View>
+      )}
+      {!error && !undeclaredStatus && !checked && (
+        <Text style={styles.note}>The spec gives no JSON body schema for this status.</Text>
+      )}
+      {checked && violations.length === 0 && (
+        <View style={styles.row}>
+          <Icon name="check-circle-outline" size={14} color="#059669" style={styles.icon} />
+          <Text style={styles.success}>The body matches the schema.</Text>
+        </View>
+      )}
+      {violations.map((violation, index) => (
+        <View key={index} style={styles.violation}>
+          <Text style={styles.path}>{violation.path}</Text>
+          <Text style={styles.expected}>Expected {violation.expected}</Text>
+          <Text style={styles.actual}>Actual {violation.actual}</Text>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    maxHeight: 300,
+  },
+  source: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  icon: {
+    marginRight: 4,
+  },
+  error: {
+    flex: 1,
+    fontSize: 14,
+    color: '#DC2626',
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+    marginBottom: 8,
+    backgroundColor: '#FFFBEB',
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+    borderRadius: 6,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400E',
+  },
+  note: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  success: {
+    fontSize: 14,
+    color: '#059669',
+  },
+  violation: {
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  path: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  expected: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  actual: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#DC2626',
+  },
+});
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, TextInput, TouchableOpacity, StyleProp, TextStyle } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+
+interface SecretInputProps {
+  value: string;
+  onChangeText: (value: string) => void;
+  placeholder?: string;
+  style?: StyleProp<TextStyle>;
+}
+
+// Text input that hides its value until the eye button is pressed
+export default function SecretInput({ value, onChangeText, placeholder, style }: SecretInputProps) {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={[styles.input, style]}
+        placeholder={placeholder}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry={!visible}
+        value={value}
+        onChangeText={onChangeText}
+      />
+      <TouchableOpacity style={styles.toggle} onPress={() => setVisible(!visible)}>
+        <Icon name={visible ? 'eye-off-outline' : 'eye-outline'} size={18} color="#9CA3AF" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    padding: 10,
+    paddingRight: 36,
+    fontSize: 14,
+    backgroundColor: '#FFFFFF',
+  },
+  toggle: {
+    position: 'absolute',
+    right: 8,
+    padding: 2,
+  },
+});
@@ -1,400 +1,1250 @@
-import { Save, Database, ChevronDown, RefreshCw, Send, Check, Copy } from 'lucide-react';
+import { Save, Database, ChevronDown, RefreshCw, Send, Check, Copy, Clock, HardDrive, History, Library, Settings, Terminal, FileCode, AlertTriangle, Square, GitCompare } from 'lucide-react';
 import React, { useState, useEffect } from 'react';
+import {
+  STANDARD_METHODS,
+  HttpMethod,
+  isHeadersOnlyMethod,
+  isStandardMethod,
+  methodAllowsBody,
+  normalizeMethod
+} from './lib/http';
+import { findDuplicateHeaders } from './lib/headers';
+import { BodyDraft, createDefaultBodyDraft } from './lib/body';
+import { AuthConfig, authorizeRequest, createAuth, effectiveAuth, previewAuth } from './lib/auth';
+import { CodeLanguage } from './lib/codegen';
+import {
+  API_SPECS_STORAGE_KEY,
+  ApiOperation,
+  ApiSpec,
+  findApiOperation,
+  listApiServers,
+  operationContract,
+  parseApiSpecs
+} from './lib/openapi';
+import { ResponseValidation, checkResponse } from './lib/schema';
+import { Assertion, AssertionResult, runAssertions } from './lib/assertions';
+import { ExtractionResult, ExtractionRule, extractedVariables, runExtractions } from './lib/extraction';
+import { RunContext, RunTarget } from './lib/runner';
+import { DEFAULT_RETRY_POLICY, RetryAttempt, RetryPolicy, sendWithRetry } from './lib/retry';
+import {
+  ScriptLog,
+  applyScriptRequest,
+  hasScript,
+  outcomeLogs,
+  runPostResponseScript,
+  runPreRequestScript
+} from './lib/scripts';
+import { OAUTH_TOKENS_STORAGE_KEY, TokenCache, fetchToken, parseTokenCache, tokenCacheKey } from './lib/oauth';
+import { KeyValueRow } from './lib/keyValue';
+import { replaceUrlQuery, splitUrl, syncParamsFromUrl } from './lib/query';
+import { findPathParams } from './lib/pathParams';
+import { ResponseMeta, formatBytes, formatDuration } from './lib/response';
+import { ResponseBody, formatResponseBody } from './lib/responseBody';
+import {
+  RequestDraft,
+  describeRequestError,
+  DEFAULT_TIMEOUT_MS,
+  executeWithAuth,
+  PreparedRequest,
+  RequestBuildError
+} from './lib/request';
+import {
+  DYNAMIC_VARIABLES,
+  findUnresolved,
+  findUnresolvedInDraft,
+  prepareTemplatedRequest,
+  resolveAuth
+} from './lib/templating';
+import {
+  HISTORY_STORAGE_KEY,
+  HistoryEntry,
+  addHistoryEntry,
+  createHistoryEntry,
+  parseHistory
+} from './lib/history';
+import {
+  COLLECTIONS_STORAGE_KEY,
+  Collection,
+  SavedRequest,
+  SavedRequestData,
+  addSavedRequest,
+  createSavedRequest,
+  parseCollections,
+  toSavedRequestData,
+  updateSavedRequest
+} from './lib/collections';
+import {
+  BASE_URL_VARIABLE,
+  ENVIRONMENTS_STORAGE_KEY,
+  EnvironmentState,
+  LEGACY_URLS_STORAGE_KEY,
+  getActiveEnvironment,
+  getVariables,
+  loadEnvironmentState,
+  setVariable,
+  setVariables
+} from './lib/environments';
+import { getStatusClass, getStatusText } from './lib/status';
+import KeyValueEditor from './components/KeyValueEditor';
+import ResponseHeadersTable from './components/ResponseHeadersTable';
+import HistorySidebar from './components/HistorySidebar';
+import CollectionsSidebar from './components/CollectionsSidebar';
+import EnvironmentManager from './components/EnvironmentManager';
+import RequestPreview from './components/RequestPreview';
+import BodyEditor from './components/BodyEditor';
+import AuthEditor from './components/AuthEditor';
+import CurlImportDialog from './components/CurlImportDialog';
+import CodeSnippetView from './components/CodeSnippetView';
+import ApiSpecsSidebar from './components/ApiSpecsSidebar';
+import SchemaValidationView from './components/SchemaValidationView';
+import AssertionsEditor from './components/AssertionsEditor';
+import AssertionResultsView from './components/AssertionResultsView';
+import ExtractionsEditor from './components/ExtractionsEditor';
+import CollectionRunnerDialog from './components/CollectionRunnerDialog';
+import ResponseDiffDialog from './components/ResponseDiffDialog';
+import ScriptConsoleView from './components/ScriptConsoleView';
+import RetryEditor from './components/RetryEditor';
+import RetryTimeline from './components/RetryTimeline';
+import ResponseBodyView from './components/ResponseBodyView';
+
+const CUSTOM_METHOD = 'CUSTOM';
+
+// Blocked storage, as in some privacy modes, throws on access; the app then starts empty instead of failing to mount
+const readStorage = (key: string) => {
+  try {
+    return localStorage.getItem(key);
+  } catch (e) {
+    console.error(`Failed to read ${key}`, e);
+    return null;
+  }
+};
 
 function App() {
-  const [method, setMethod] = useState<'GET' | 'POST' | 'PUT'>('GET');
+  const [method, setMethod] = useState<HttpMethod>('GET');
+  const [isCustomMethod, setIsCustomMethod] = useState(false);
   const [url, setUrl] = useState('');
   const [baseUrl, setBaseUrl] = useState('');
-  const [environment] = useState<'development' | 'production'>('development');
-  const [useAuth, setUseAuth] = useState(false);
-  const [token, setToken] = useState('');
-  const [jsonBody, setJsonBody] = useState('');
-  const [urlParams, setUrlParams] = useState('');
+  const [auth, setAuth] = useState<AuthConfig>(() => createAuth());
+  const [headerRows, setHeaderRows] = useState<KeyValueRow[]>([]);
+  const [bodyDraft, setBodyDraft] = useState<BodyDraft>(createDefaultBodyDraft);
+  const [responseSchema, setResponseSchema] = useState('');
+  const [assertions, setAssertions] = useState<Assertion[]>([]);
+  const [extractions, setExtractions] = useState<ExtractionRule[]>([]);
+  const [preRequestScript, setPreRequestScript] = useState('');
+  const [postResponseScript, setPostResponseScript] = useState('');
+  const [timeoutMs, setTimeoutMs] = useState(DEFAULT_TIMEOUT_MS);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [pathParams, setPathParams] = useState<Record<string, string>>({});
+  const [params, setParams] = useState<KeyValueRow[]>([]);
+  // The body as copied and kept in history, and as received for rendering
   const [response, setResponse] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [responseBody, setResponseBody] = useState<ResponseBody | null>(null);
+  // Set while a request is in flight, to cancel it
+  const [sendController, setSendController] = useState<AbortController | null>(null);
+  const loading = sendController !== null;
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState('');
   const [statusCode, setStatusCode] = useState<number | null>(null);
-  const [savedUrls, setSavedUrls] = useState({
-    development: '',
-    production: ''
-  });
+  const [responseMeta, setResponseMeta] = useState<ResponseMeta | null>(null);
+  const [validation, setValidation] = useState<ResponseValidation | null>(null);
+  const [assertionResults, setAssertionResults] = useState<AssertionResult[]>([]);
+  const [extractionResults, setExtractionResults] = useState<ExtractionResult[]>([]);
+  const [scriptLogs, setScriptLogs] = useState<ScriptLog[]>([]);
+  const [attempts, setAttempts] = useState<RetryAttempt[]>([]);
+  const [responseTab, setResponseTab] = useState<'body' | 'headers' | 'timing' | 'request' | 'code' | 'schema' | 'tests' | 'console'>('body');
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('curl');
+  const [sentRequest, setSentRequest] = useState<PreparedRequest | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>(() =>
+    parseHistory(readStorage(HISTORY_STORAGE_KEY))
+  );
+  const [collections, setCollections] = useState<Collection[]>(() =>
+    parseCollections(readStorage(COLLECTIONS_STORAGE_KEY))
+  );
+  const [openRequestId, setOpenRequestId] = useState<string | null>(null);
+  const [apiSpecs, setApiSpecs] = useState<ApiSpec[]>(() => parseApiSpecs(readStorage(API_SPECS_STORAGE_KEY)));
+  const [openOperationId, setOpenOperationId] = useState<string | null>(null);
+  const [sidebar, setSidebar] = useState<'history' | 'collections' | 'apis' | null>(null);
+  const [envState, setEnvState] = useState<EnvironmentState>(() =>
+    loadEnvironmentState(
+      readStorage(ENVIRONMENTS_STORAGE_KEY),
+      readStorage(LEGACY_URLS_STORAGE_KEY)
+    )
+  );
+  const [showEnvironments, setShowEnvironments] = useState(false);
+  const [showCurlImport, setShowCurlImport] = useState(false);
+  const [runTarget, setRunTarget] = useState<RunTarget | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [oauthTokens, setOAuthTokens] = useState<TokenCache>(() =>
+    parseTokenCache(readStorage(OAUTH_TOKENS_STORAGE_KEY))
+  );
+  const [fetchingToken, setFetchingToken] = useState(false);
+  const activeEnvironment = getActiveEnvironment(envState);
+  const variables = getVariables(activeEnvironment);
+  const savedBaseUrl = variables[BASE_URL_VARIABLE] || '';
 
-  // Load saved URLs from localStorage on component mount
+  // Persist environments whenever they change
   useEffect(() => {
-    const savedData = localStorage.getItem('apiTesterUrls');
-    if (savedData) {
-      const parsed = JSON.parse(savedData);
-      setSavedUrls(parsed);
-      setBaseUrl(parsed[environment]);
+    try {
+      localStorage.setItem(ENVIRONMENTS_STORAGE_KEY, JSON.stringify(envState));
+    } catch (e) {
+      console.error('Failed to save environments', e);
     }
-  }, []);
+  }, [envState]);
 
   // Update baseUrl when environment changes
   useEffect(() => {
-    setBaseUrl(savedUrls[environment] || '');
-  }, [environment, savedUrls]);
+    setBaseUrl(savedBaseUrl);
+  }, [envState.activeId, savedBaseUrl]);
+
+  // Persist OAuth tokens so they survive a reload until they expire
+  useEffect(() => {
+    try {
+      localStorage.setItem(OAUTH_TOKENS_STORAGE_KEY, JSON.stringify(oauthTokens));
+    } catch (e) {
+      console.error('Failed to save OAuth tokens', e);
+    }
+  }, [oauthTokens]);
+
+  // Persist history whenever it changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+    } catch (e) {
+      console.error('Failed to save request history', e);
+    }
+  }, [history]);
+
+  // Persist collections whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+    } catch (e) {
+      console.error('Failed to save collections', e);
+    }
+  }, [collections]);
+
+  // Persist imported API specs whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(API_SPECS_STORAGE_KEY, JSON.stringify(apiSpecs));
+    } catch (e) {
+      console.error('Failed to save API specs', e);
+    }
+  }, [apiSpecs]);
 
   const saveBaseUrl = () => {
-    const newSavedUrls = {
-      ...savedUrls,
-      [environment]: baseUrl
-    };
-    setSavedUrls(newSavedUrls);
-    localStorage.setItem('apiTesterUrls', JSON.stringify(newSavedUrls));
+    if (!activeEnvironment) {
+      setShowEnvironments(true);
+      return;
+    }
+    setEnvState(setVariable(envState, activeEnvironment.id, BASE_URL_VARIABLE, baseUrl));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
+  // The URL's query string and the params table mirror each other
+  const changeUrl = (value: string) => {
+    setUrl(value);
+    setParams(syncParamsFromUrl(value, params));
+  };
+
+  const changeParams = (rows: KeyValueRow[]) => {
+    setParams(rows);
+    setUrl(replaceUrlQuery(url, rows));
+  };
+
+  // Snapshot of the form, as sent and as stored in history
+  const currentDraft = (): RequestDraft => ({
+    method,
+    baseUrl,
+    url,
+    pathParams,
+    params,
+    headers: headerRows,
+    auth,
+    responseSchema,
+    assertions,
+    extractions,
+    preRequestScript,
+    postResponseScript,
+    timeoutMs,
+    retry: retryPolicy,
+    ...bodyDraft
+  });
+
+  // Put a stored request back into the form for editing
+  const loadDraft = (draft: RequestDraft) => {
+    const draftMethod = normalizeMethod(draft.method);
+    setMethod(draftMethod);
+    setIsCustomMethod(!isStandardMethod(draftMethod));
+    setBaseUrl(draft.baseUrl);
+    setUrl(draft.url);
+    setPathParams(draft.pathParams);
+    setParams(draft.params);
+    setHeaderRows(draft.headers);
+    setAuth(draft.auth);
+    setResponseSchema(draft.responseSchema);
+    setAssertions(draft.assertions);
+    setExtractions(draft.extractions);
+    setPreRequestScript(draft.preRequestScript);
+    setPostResponseScript(draft.postResponseScript);
+    setTimeoutMs(draft.timeoutMs);
+    setRetryPolicy(draft.retry);
+    setBodyDraft({
+      bodyType: draft.bodyType,
+      body: draft.body,
+      rawContentType: draft.rawContentType,
+      formFields: draft.formFields,
+      multipartFields: draft.multipartFields,
+      binaryFile: draft.binaryFile
+    });
+  };
+
+  // Values set by scripts or pulled out of a response go into the active environment, where later requests read them
+  const storeVariables = (values: Record<string, string>) => {
+    if (!activeEnvironment || Object.keys(values).length === 0) return;
+    const envId = activeEnvironment.id;
+    setEnvState((prev) => setVariables(prev, envId, values));
+  };
+
+  // operationId names the imported spec operation the form came from, whose responses it's checked against
+  const sendRequest = async (draft: RequestDraft, operationId: string | null) => {
+    const controller = new AbortController();
+    setSendController(controller);
     setError('');
     setResponse('');
+    setResponseBody(null);
     setStatusCode(null);
+    setResponseMeta(null);
+    setValidation(null);
+    setAssertionResults([]);
+    setExtractionResults([]);
+    setScriptLogs([]);
+    setAttempts([]);
+    setSentRequest(null);
 
     try {
-      // Construct the full URL
-      const fullUrl = `${baseUrl}${url}${urlParams ? `?${urlParams}` : ''}`;
-      
-      // Prepare headers
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      
-      if (useAuth && token) {
-        headers['Authorization'] = `Bearer ${token}`;
+      // Fill in {{variables}} and auth from the active environment before building the request
+      const requestAuth = effectiveAuth(draft.auth, activeEnvironment?.auth);
+      const prepared = prepareTemplatedRequest({ ...draft, auth: requestAuth }, variables);
+      setSentRequest(prepared);
+      // Schemes like OAuth 2.0 fetch or refresh their token here
+      const resolvedAuth = resolveAuth(requestAuth, variables);
+      const authorized = await authorizeRequest(prepared, resolvedAuth, oauthTokens, {
+        signal: controller.signal,
+        timeoutMs: draft.timeoutMs
+      });
+      setOAuthTokens(authorized.tokens);
+      setSentRequest(authorized.request);
+      // The pre-request script sees the request as it would go out and may still change it
+      let outgoing = authorized.request;
+      let scriptVariables: Record<string, string> = {};
+      let logs: ScriptLog[] = [];
+      if (hasScript(draft.preRequestScript)) {
+        const pre = await runPreRequestScript(draft.preRequestScript, outgoing, variables, controller.signal);
+        logs = outcomeLogs(pre, 'pre');
+        setScriptLogs(logs);
+        if (!pre.request) throw new RequestBuildError(`Pre-request script failed: ${pre.error}`);
+        outgoing = applyScriptRequest(outgoing, pre.request);
+        scriptVariables = pre.variables;
+        setSentRequest(outgoing);
       }
+      const exchange = await sendWithRetry(
+        draft.retry,
+        () => executeWithAuth(outgoing, resolvedAuth, { signal: controller.signal, timeoutMs: draft.timeoutMs }),
+        { signal: controller.signal, onAttempt: setAttempts }
+      );
+      const result = exchange.result;
+      setSentRequest(exchange.request);
+      if (hasScript(draft.postResponseScript)) {
+        const post = await runPostResponseScript(
+          draft.postResponseScript,
+          exchange.request,
+          result,
+          { ...variables, ...scriptVariables },
+          controller.signal
+        );
+        logs = [...logs, ...outcomeLogs(post, 'post')];
+        setScriptLogs(logs);
+        scriptVariables = { ...scriptVariables, ...post.variables };
+      }
+      const formatted = formatResponseBody(result.body);
+      setStatusCode(result.status);
+      setResponseMeta(result.meta);
+      setResponse(formatted);
+      setResponseBody(result.body);
+      const found = operationId ? findApiOperation(apiSpecs, operationId) : null;
+      setValidation(checkResponse(
+        draft.responseSchema,
+        found && operationContract(found.spec, found.operation),
+        result.status,
+        result.text
+      ));
+      setAssertionResults(runAssertions(draft.assertions, {
+        status: result.status,
+        headers: result.meta.headers,
+        text: result.text,
+        durationMs: result.meta.durationMs
+      }));
+      const extracted = runExtractions(draft.extractions, { headers: result.meta.headers, text: result.text });
+      setExtractionResults(extracted);
+      storeVariables({ ...scriptVariables, ...extractedVariables(extracted) });
       
-      // Prepare request options
-      const options: RequestInit = {
-        method,
-        headers,
-      };
-      
-      // Add body for POST and PUT requests
-      if (method !== 'GET' && jsonBody) {
-        try {
-          // Validate JSON
-          JSON.parse(jsonBody);
-          options.body = jsonBody;
-        } catch (e) {
-          setError('Invalid JSON in request body');
-          setLoading(false);
-          return;
-        }
+      // HEAD and OPTIONS usually have no body, so show their headers instead
+      if (isHeadersOnlyMethod(prepared.method)) {
+        setResponseTab('headers');
       }
       
-      // Make the request
-      const res = await fetch(fullUrl, options);
-      setStatusCode(res.status);
+      setHistory((prev) => addHistoryEntry(prev, createHistoryEntry(draft, {
+        status: result.status,
+        durationMs: result.meta.durationMs,
+        response: formatted
+      })));
+    } catch (err) {
+      const message = describeRequestError(err);
+      setError(message);
       
-      try {
-        const data = await res.json();
-        // Format and display the response
-        setResponse(JSON.stringify(data, null, 2));
-      } catch (e) {
-        // Handle non-JSON responses
-        const text = await res.text();
-        setResponse(text || 'No response body');
+      // Only requests that actually went out belong in the history
+      if (!(err instanceof RequestBuildError)) {
+        setHistory((prev) => addHistoryEntry(prev, createHistoryEntry(draft, {
+          status: null,
+          durationMs: null,
+          response: '',
+          error: message
+        })));
       }
+    } finally {
+      setSendController(null);
+    }
+  };
+
+  // Fetches a fresh OAuth token on demand, replacing the cached one
+  const refreshOAuthToken = async () => {
+    const resolved = resolveAuth(effectiveAuth(auth, activeEnvironment?.auth), variables);
+    setFetchingToken(true);
+    setError('');
+    try {
+      const token = await fetchToken(resolved, { timeoutMs });
+      setOAuthTokens((prev) => ({ ...prev, [tokenCacheKey(resolved)]: token }));
     } catch (err) {
-      setError(`Request failed: ${err instanceof Error ? err.message : String(err)}`);
+      setError(describeRequestError(err));
     } finally {
-      setLoading(false);
+      setFetchingToken(false);
     }
   };
 
-  const copyToClipboard = () => {
-    navigator.clipboard.writeText(response);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendRequest(currentDraft(), openOperationId);
   };
 
-  const formatJsonBody = () => {
-    try {
-      const formatted = JSON.stringify(JSON.parse(jsonBody), null, 2);
-      setJsonBody(formatted);
-    } catch (e) {
-      setError('Invalid JSON in request body');
-    }
+  const rerunHistoryEntry = (entry: HistoryEntry) => {
+    setOpenRequestId(null);
+    setOpenOperationId(null);
+    loadDraft(entry.request);
+    sendRequest(entry.request, null);
   };
 
-  // Function to syntax highlight JSON
-  const syntaxHighlight = (json: string) => {
-    if (!json) return '';
-    
-    // Try to parse and format the JSON
-    try {
-      if (typeof json !== 'string') {
-        json = JSON.stringify(json, null, 2);
-      } else {
-        // Make sure it's valid JSON before parsing
-        JSON.parse(json);
-        json = JSON.stringify(JSON.parse(json), null, 2);
+  // Saved requests carry no base URL, so they run against the current environment
+  const openSavedRequest = (saved: SavedRequest) => {
+    setOpenOperationId(null);
+    loadDraft({ ...saved.request, baseUrl });
+    setOpenRequestId(saved.id);
+  };
+
+  // Spec operations fill the form against the current base URL, like saved requests
+  const openApiOperation = (operation: ApiOperation) => {
+    setOpenRequestId(null);
+    loadDraft({ ...operation.request, baseUrl });
+    setOpenOperationId(operation.id);
+  };
+
+  const saveCurrentRequest = (collectionId: string, folderId: string | null, name: string) => {
+    const saved = createSavedRequest(name, toSavedRequestData(currentDraft()));
+    setCollections(addSavedRequest(collections, collectionId, folderId, saved));
+    setOpenRequestId(saved.id);
+  };
+
+  // Sends saved requests for the collection runner against the current base URL and environment, scripts included.
+  // Tokens fetched along the way are reused by the rest of the run
+  const createRunContext = (): RunContext => {
+    let tokens = oauthTokens;
+    const send = async (saved: SavedRequestData, runVariables: Record<string, string>, signal: AbortSignal) => {
+      const requestAuth = effectiveAuth(saved.auth, activeEnvironment?.auth);
+      const prepared = prepareTemplatedRequest({ ...saved, baseUrl, auth: requestAuth }, runVariables);
+      const resolvedAuth = resolveAuth(requestAuth, runVariables);
+      const authorized = await authorizeRequest(prepared, resolvedAuth, tokens, { signal, timeoutMs: saved.timeoutMs });
+      tokens = authorized.tokens;
+      setOAuthTokens(tokens);
+      let outgoing = authorized.request;
+      let scriptVariables: Record<string, string> = {};
+      if (hasScript(saved.preRequestScript)) {
+        const pre = await runPreRequestScript(saved.preRequestScript, outgoing, runVariables, signal);
+        if (!pre.request) throw new RequestBuildError(`Pre-request script failed: ${pre.error}`);
+        outgoing = applyScriptRequest(outgoing, pre.request);
+        scriptVariables = pre.variables;
       }
-    } catch (e) {
-      return json; // Return as-is if not valid JSON
-    }
-    
-    // Apply syntax highlighting with colors
-    return json.replace(/("(\\u[a-zA-Z0-9]{4}|\\[^u]|[^\\"])*"(\s*:)?|\b(true|false|null)\b|-?\d+(?:\.\d*)?(?:[eE][+\-]?\d+)?)/g, function (match) {
-      let cls = 'text-purple-600'; // string
-      if (/^"/.test(match)) {
-        if (/:$/.test(match)) {
-          cls = 'text-red-600'; // key
-        }
-      } else if (/true|false/.test(match)) {
-        cls = 'text-blue-600'; // boolean
-      } else if (/null/.test(match)) {
-        cls = 'text-gray-600'; // null
-      } else {
-        cls = 'text-green-600'; // number
+      const exchange = await sendWithRetry(
+        saved.retry,
+        () => executeWithAuth(outgoing, resolvedAuth, { signal, timeoutMs: saved.timeoutMs }),
+        { signal }
+      );
+      let scriptError: string | null = null;
+      if (hasScript(saved.postResponseScript)) {
+        const post = await runPostResponseScript(
+          saved.postResponseScript,
+          exchange.request,
+          exchange.result,
+          { ...runVariables, ...scriptVariables },
+          signal
+        );
+        scriptVariables = { ...scriptVariables, ...post.variables };
+        scriptError = post.error;
       }
-      return `<span class="${cls}">${match}</span>`;
-    });
+      return { result: exchange.result, variables: scriptVariables, scriptError };
+    };
+    return { send, variables, onVariables: storeVariables };
   };
 
-  // Get status code color
-  const getStatusCodeColor = (code: number | null) => {
-    if (!code) return 'text-gray-600';
-    if (code >= 200 && code < 300) return 'text-green-600';
-    if (code >= 300 && code < 400) return 'text-blue-600';
-    if (code >= 400 && code < 500) return 'text-yellow-600';
-    return 'text-red-600';
+  // Sends the form against another environment's base URL, variables and auth for comparing responses.
+  // Only the pre-request script runs, and nothing lands in history or the environment
+  const sendToEnvironment = async (envId: string, signal: AbortSignal) => {
+    const env = envState.environments.find((item) => item.id === envId) || null;
+    const envVariables = getVariables(env);
+    const draft = currentDraft();
+    const requestAuth = effectiveAuth(draft.auth, env?.auth);
+    const prepared = prepareTemplatedRequest(
+      { ...draft, baseUrl: envVariables[BASE_URL_VARIABLE] || '', auth: requestAuth },
+      envVariables
+    );
+    const resolvedAuth = resolveAuth(requestAuth, envVariables);
+    const authorized = await authorizeRequest(prepared, resolvedAuth, oauthTokens, { signal, timeoutMs: draft.timeoutMs });
+    setOAuthTokens(authorized.tokens);
+    let outgoing = authorized.request;
+    if (hasScript(draft.preRequestScript)) {
+      const pre = await runPreRequestScript(draft.preRequestScript, outgoing, envVariables, signal);
+      if (!pre.request) throw new RequestBuildError(`Pre-request script failed: ${pre.error}`);
+      outgoing = applyScriptRequest(outgoing, pre.request);
+    }
+    const exchange = await sendWithRetry(
+      draft.retry,
+      () => executeWithAuth(outgoing, resolvedAuth, { signal, timeoutMs: draft.timeoutMs }),
+      { signal }
+    );
+    return exchange.result.body.text;
   };
 
-  // Get status text
-  const getStatusText = (code: number | null) => {
-    if (!code) return '';
-    
-    const statusTexts: Record<number, string> = {
-      200: 'OK',
-      201: 'Created',
-      204: 'No Content',
-      400: 'Bad Request',
-      401: 'Unauthorized',
-      403: 'Forbidden',
-      404: 'Not Found',
-      500: 'Internal Server Error',
-      502: 'Bad Gateway',
-      503: 'Service Unavailable'
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(response);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const getStatusCodeColor = (code: number | null) => {
+    const colors = {
+      none: 'text-gray-600',
+      success: 'text-green-600',
+      redirect: 'text-blue-600',
+      clientError: 'text-yellow-600',
+      serverError: 'text-red-600'
     };
-    
-    return statusTexts[code] || '';
+    return colors[getStatusClass(code)];
   };
 
+  const apiServers = listApiServers(apiSpecs);
+  const openOperation = openOperationId ? findApiOperation(apiSpecs, openOperationId) : null;
+  const pathParamNames = findPathParams(splitUrl(url).path);
+
+  // Placeholders in the form that the active environment can't fill
+  const requestAuth = effectiveAuth(auth, activeEnvironment?.auth);
+  const unresolvedVariables = findUnresolvedInDraft({ ...currentDraft(), auth: requestAuth }, variables);
+  const oauthKey = requestAuth.type === 'oauth2' ? tokenCacheKey(resolveAuth(requestAuth, variables)) : null;
+
+  // The request Send would make right now, for the Code tab
+  const buildSnippetRequest = () => {
+    try {
+      const prepared = prepareTemplatedRequest({ ...currentDraft(), auth: requestAuth }, variables);
+      return { request: previewAuth(prepared, resolveAuth(requestAuth, variables), oauthTokens), error: '' };
+    } catch (err) {
+      return { request: null, error: describeRequestError(err) };
+    }
+  };
+  const snippet = responseTab === 'code' ? buildSnippetRequest() : null;
+  const inputBorder = (text: string) =>
+    findUnresolved(text, variables).length > 0 ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300';
+
   return (
     <div className="min-h-screen bg-gray-50">
+      {showEnvironments && (
+        <EnvironmentManager
+          state={envState}
+          onChange={setEnvState}
+          onClose={() => setShowEnvironments(false)}
+        />
+      )}
+      {showCurlImport && (
+        <CurlImportDialog
+          onImport={(draft) => {
+            setOpenRequestId(null);
+            setOpenOperationId(null);
+            loadDraft(draft);
+            setShowCurlImport(false);
+          }}
+          onClose={() => setShowCurlImport(false)}
+        />
+      )}
+      {runTarget && (
+        <CollectionRunnerDialog target={runTarget} context={createRunContext()} onClose={() => setRunTarget(null)} />
+      )}
+      {showDiff && (
+        <ResponseDiffDialog
+          history={history}
+          environments={envState.environments}
+          currentResponse={responseBody ? responseBody.text : null}
+          sendToEnvironment={sendToEnvironment}
+          onClose={() => setShowDiff(false)}
+        />
+      )}
       <div className="container mx-auto px-4 py-8">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6">API Testing Interface</h1>
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">API Testing Interface</h1>
+          <div className="flex items-center gap-2">
+            {([
+              ['apis', 'API specs', FileCode, apiSpecs.length],
+              ['collections', 'Collections', Library, collections.length],
+              ['history', 'History', History, history.length]
+            ] as const).map(([key, label, Icon, count]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setSidebar(sidebar === key ? null : key)}
+                className={`flex items-center px-3 py-2 rounded-md text-sm border ${
+                  sidebar === key ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <Icon size={16} className="mr-2" />
+                {label}
+                {count > 0 && <span className="ml-2 text-xs text-gray-500">{count}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
         
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Request Panel */}
-          <div className="lg:col-span-1 bg-white rounded-lg shadow-md p-6">
-            <form onSubmit={handleSubmit}>
-              <h2 className="text-xl font-semibold text-gray-700 mb-4">Request</h2>
-              
-              {/* Base URL with Save Button */}
-              <div className="mb-4">
-                <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-1">
-                  Base URL
-                </label>
-                <div className="flex">
-                  <input
-                    type="text"
-                    id="baseUrl"
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-l-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder={environment === 'development' ? 'http://localhost:3000' : 'https://api.example.com'}
-                    value={baseUrl}
-                    onChange={(e) => setBaseUrl(e.target.value)}
-                  />
+        <div className="flex flex-col lg:flex-row gap-6 items-start">
+          {sidebar === 'history' && (
+            <div className="w-full lg:w-72 flex-shrink-0">
+              <HistorySidebar
+                entries={history}
+                getStatusCodeColor={getStatusCodeColor}
+                onRerun={rerunHistoryEntry}
+                onLoad={(entry) => {
+                  setOpenRequestId(null);
+                  setOpenOperationId(null);
+                  loadDraft(entry.request);
+                }}
+                onDelete={(id) => setHistory((prev) => prev.filter((entry) => entry.id !== id))}
+                onClear={() => setHistory([])}
+                onClose={() => setSidebar(null)}
+              />
+            </div>
+          )}
+          {sidebar === 'apis' && (
+            <div className="w-full lg:w-72 flex-shrink-0">
+              <ApiSpecsSidebar
+                specs={apiSpecs}
+                openOperationId={openOperationId}
+                onChange={setApiSpecs}
+                onOpen={openApiOperation}
+                onClose={() => setSidebar(null)}
+              />
+            </div>
+          )}
+          {sidebar === 'collections' && (
+            <div className="w-full lg:w-72 flex-shrink-0">
+              <CollectionsSidebar
+                collections={collections}
+                openRequestId={openRequestId}
+                onChange={setCollections}
+                onOpen={openSavedRequest}
+                onSaveCurrent={saveCurrentRequest}
+                onOverwrite={(saved) =>
+                  setCollections(updateSavedRequest(collections, saved.id, toSavedRequestData(currentDraft())))
+                }
+                onRun={setRunTarget}
+                onClose={() => setSidebar(null)}
+              />
+            </div>
+          )}
+        
+          <div className="flex-1 w-full grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Request Panel */}
+            <div className="lg:col-span-1 bg-white rounded-lg shadow-md p-6">
+              <form onSubmit={handleSubmit}>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold text-gray-700">Request</h2>
                   <button
                     type="button"
-                    onClick={saveBaseUrl}
-                    className="px-3 py-2 bg-gray-100 border border-gray-300 border-l-0 rounded-r-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    title="Save Base URL"
+                    onClick={() => setShowCurlImport(true)}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
                   >
-                    <Save size={18} className="text-gray-600" />
+                    <Terminal size={14} className="mr-1" />
+                    Paste cURL
                   </button>
                 </div>
-                {savedUrls[environment] && (
-                  <div className="mt-1 flex items-center text-xs text-gray-500">
-                    <Database size={12} className="mr-1" />
-                    Saved: {savedUrls[environment]}
-                  </div>
-                )}
-              </div>
               
-              {/* HTTP Method */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
-                <div className="relative">
-                  <select
-                    className="block appearance-none w-full bg-white border border-gray-300 rounded-md py-2 px-3 pr-8 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    value={method}
-                    onChange={(e) => setMethod(e.target.value as 'GET' | 'POST' | 'PUT')}
-                  >
-                    <option value="GET">GET</option>
-                    <option value="POST">POST</option>
-                    <option value="PUT">PUT</option>
-                  </select>
-                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
-                    <ChevronDown size={16} />
+                {/* Environment */}
+                <div className="mb-4">
+                  <label htmlFor="environment" className="block text-sm font-medium text-gray-700 mb-1">
+                    Environment
+                  </label>
+                  <div className="flex">
+                    <div className="relative flex-1">
+                      <select
+                        id="environment"
+                        className="block appearance-none w-full bg-white border border-gray-300 rounded-l-md py-2 px-3 pr-8 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        value={envState.activeId || ''}
+                        onChange={(e) => setEnvState({ ...envState, activeId: e.target.value || null })}
+                      >
+                        {envState.environments.length === 0 && <option value="">No environments</option>}
+                        {envState.environments.map((env) => (
+                          <option key={env.id} value={env.id}>{env.name}</option>
+                        ))}
+                      </select>
+                      <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                        <ChevronDown size={16} />
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setShowEnvironments(true)}
+                      className="px-3 py-2 bg-gray-100 border border-gray-300 border-l-0 rounded-r-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="Manage Environments"
+                    >
+                      <Settings size={18} className="text-gray-600" />
+                    </button>
                   </div>
                 </div>
-              </div>
               
-              {/* Endpoint URL */}
-              <div className="mb-4">
-                <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-1">
-                  Endpoint URL
-                </label>
-                <input
-                  type="text"
-                  id="url"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="/api/users"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  required
-                />
-              </div>
+                {/* Base URL with Save Button */}
+                <div className="mb-4">
+                  <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                    Base URL
+                  </label>
+                  <div className="flex">
+                    <input
+                      type="text"
+                      id="baseUrl"
+                      className={`flex-1 px-3 py-2 border ${inputBorder(baseUrl)} rounded-l-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                      placeholder="https://api.example.com"
+                      value={baseUrl}
+                      onChange={(e) => setBaseUrl(e.target.value)}
+                    />
+                    <button
+                      type="button"
+                      onClick={saveBaseUrl}
+                      className="px-3 py-2 bg-gray-100 border border-gray-300 border-l-0 rounded-r-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="Save Base URL"
+                    >
+                      <Save size={18} className="text-gray-600" />
+                    </button>
+                  </div>
+                  {savedBaseUrl && (
+                    <div className="mt-1 flex items-center text-xs text-gray-500">
+                      <Database size={12} className="mr-1" />
+                      Saved: {savedBaseUrl}
+                    </div>
+                  )}
+                  {apiServers.length > 0 && (
+                    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                      <FileCode size={12} className="mr-1" />
+                      From specs:
+                      {apiServers.map((server) => (
+                        <button
+                          key={server.url}
+                          type="button"
+                          onClick={() => setBaseUrl(server.url)}
+                          title={server.description ? `${server.spec}: ${server.description}` : server.spec}
+                          className={`px-1 rounded border font-mono ${
+                            baseUrl === server.url ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 hover:bg-gray-100'
+                          }`}
+                        >
+                          {server.url}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               
-              {/* URL Parameters */}
-              <div className="mb-4">
-                <label htmlFor="urlParams" className="block text-sm font-medium text-gray-700 mb-1">
-                  URL Parameters
-                </label>
-                <input
-                  type="text"
-                  id="urlParams"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="id=123&filter=active"
-                  value={urlParams}
-                  onChange={(e) => setUrlParams(e.target.value)}
-                />
-              </div>
+                {/* HTTP Method */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                  <div className="relative">
+                    <select
+                      className="block appearance-none w-full bg-white border border-gray-300 rounded-md py-2 px-3 pr-8 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={isCustomMethod ? CUSTOM_METHOD : method}
+                      onChange={(e) => {
+                        if (e.target.value === CUSTOM_METHOD) {
+                          setIsCustomMethod(true);
+                          setMethod('');
+                        } else {
+                          setIsCustomMethod(false);
+                          setMethod(e.target.value as HttpMethod);
+                        }
+                      }}
+                    >
+                      {STANDARD_METHODS.map((m) => (
+                        <option key={m} value={m}>{m}</option>
+                      ))}
+                      <option value={CUSTOM_METHOD}>Custom...</option>
+                    </select>
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                      <ChevronDown size={16} />
+                    </div>
+                  </div>
+                  {isCustomMethod && (
+                    <input
+                      type="text"
+                      className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="PURGE"
+                      value={method}
+                      onChange={(e) => setMethod(e.target.value)}
+                      onBlur={() => setMethod(normalizeMethod(method))}
+                    />
+                  )}
+                </div>
               
-              {/* Authentication */}
-              <div className="mb-4">
-                <div className="flex items-center mb-2">
-                  <input
-                    type="checkbox"
-                    id="useAuth"
-                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                    checked={useAuth}
-                    onChange={(e) => setUseAuth(e.target.checked)}
-                  />
-                  <label htmlFor="useAuth" className="ml-2 block text-sm text-gray-700">
-                    Use Bearer Token Authentication
+                {/* Endpoint URL */}
+                <div className="mb-4">
+                  <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-1">
+                    Endpoint URL
                   </label>
-                </div>
-                
-                {useAuth && (
                   <input
                     type="text"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Enter your token"
-                    value={token}
-                    onChange={(e) => setToken(e.target.value)}
+                    id="url"
+                    className={`w-full px-3 py-2 border ${inputBorder(url)} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                    placeholder="/api/users/:id"
+                    value={url}
+                    onChange={(e) => changeUrl(e.target.value)}
+                    required
                   />
+                </div>
+              
+                {/* Path Parameters */}
+                {pathParamNames.length > 0 && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Path Parameters</label>
+                    {pathParamNames.map((name) => (
+                      <div key={name} className="flex items-center mb-2">
+                        <span className="w-2/5 min-w-0 px-2 py-1 bg-gray-100 border border-gray-300 rounded-l-md text-sm font-mono text-gray-700 truncate">
+                          {name}
+                        </span>
+                        <input
+                          type="text"
+                          className={`flex-1 min-w-0 px-2 py-1 border border-l-0 rounded-r-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                            pathParams[name] ? inputBorder(pathParams[name]) : 'border-red-300'
+                          }`}
+                          placeholder="Value"
+                          value={pathParams[name] || ''}
+                          onChange={(e) => setPathParams({ ...pathParams, [name]: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                  </div>
                 )}
-              </div>
               
-              {/* Request Body (for POST/PUT) */}
-              {method !== 'GET' && (
+                {/* Query Parameters */}
                 <div className="mb-4">
-                  <div className="flex justify-between items-center mb-1">
-                    <label htmlFor="jsonBody" className="block text-sm font-medium text-gray-700">
-                      Request Body (JSON)
-                    </label>
-                    <button
-                      type="button"
-                      onClick={formatJsonBody}
-                      className="text-xs text-blue-600 hover:text-blue-800"
-                    >
-                      Format JSON
-                    </button>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Query Parameters</label>
+                  <KeyValueEditor
+                    rows={params}
+                    onChange={changeParams}
+                    keyPlaceholder="Key (use a[] for arrays)"
+                    valuePlaceholder="Value"
+                    addLabel="Add parameter"
+                  />
+                </div>
+              
+                {/* Request Headers */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Headers</label>
+                  <KeyValueEditor
+                    rows={headerRows}
+                    onChange={setHeaderRows}
+                    duplicateKeys={findDuplicateHeaders(headerRows)}
+                    caseInsensitive
+                    keyPlaceholder="Header"
+                    valuePlaceholder="Value"
+                    addLabel="Add header"
+                  />
+                </div>
+              
+                {/* Authentication */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Authentication</label>
+                  <AuthEditor
+                    auth={auth}
+                    onChange={(changes) => setAuth({ ...auth, ...changes })}
+                    inheritFrom={activeEnvironment}
+                    inputBorder={inputBorder}
+                    oauth={oauthKey === null ? undefined : {
+                      token: oauthTokens[oauthKey] || null,
+                      fetching: fetchingToken,
+                      onFetch: refreshOAuthToken,
+                      onClear: () => {
+                        const rest = { ...oauthTokens };
+                        delete rest[oauthKey];
+                        setOAuthTokens(rest);
+                      }
+                    }}
+                  />
+                </div>
+              
+                {/* Request Body (for methods that carry one) */}
+                {methodAllowsBody(method) && (
+                  <div className="mb-4">
+                    <BodyEditor
+                      body={bodyDraft}
+                      onChange={(changes) => setBodyDraft({ ...bodyDraft, ...changes })}
+                      onError={setError}
+                      inputBorder={inputBorder}
+                    />
                   </div>
+                )}
+              
+                {/* Response Schema */}
+                <div className="mb-4">
+                  <label htmlFor="responseSchema" className="block text-sm font-medium text-gray-700 mb-1">
+                    Response Schema
+                  </label>
                   <textarea
-                    id="jsonBody"
-                    rows={10}
+                    id="responseSchema"
+                    rows={4}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder='{"name": "John", "email": "john@example.com"}'
-                    value={jsonBody}
-                    onChange={(e) => setJsonBody(e.target.value)}
+                    placeholder='{"type": "object", "required": ["id"]}'
+                    value={responseSchema}
+                    onChange={(e) => setResponseSchema(e.target.value)}
                   />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {openOperation
+                      ? `Leave empty to check against ${openOperation.operation.method} ${openOperation.operation.path} in ${openOperation.spec.title}.`
+                      : 'JSON Schema the response body is checked against.'}
+                  </p>
                 </div>
-              )}
               
-              {/* Submit Button */}
-              <button
-                type="submit"
-                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md flex items-center justify-center"
-                disabled={loading}
-              >
-                {loading ? (
-                  <RefreshCw size={18} className="animate-spin mr-2" />
-                ) : (
-                  <Send size={18} className="mr-2" />
-                )}
-                {loading ? 'Sending...' : 'Send Request'}
-              </button>
-            </form>
-          </div>
-          
-          {/* Response Panel */}
-          <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-6">
-            <div className="flex justify-between items-center mb-4">
-              <div className="flex items-center">
-                <h2 className="text-xl font-semibold text-gray-700">Response</h2>
-                {statusCode && (
-                  <div className={`ml-4 px-2 py-1 rounded-md ${getStatusCodeColor(statusCode)} bg-opacity-10 flex items-center`}>
-                    <span className={`font-mono font-bold ${getStatusCodeColor(statusCode)}`}>{statusCode}</span>
-                    <span className="ml-2 text-sm">{getStatusText(statusCode)}</span>
+                {/* Extractions */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Extract to Variables</label>
+                  <ExtractionsEditor rules={extractions} onChange={setExtractions} />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Values are saved to {activeEnvironment ? activeEnvironment.name : 'the active environment'} when the response
+                    arrives, for later requests to use as {'{{variable}}'}.
+                  </p>
+                </div>
+              
+                {/* Assertions */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Assertions</label>
+                  <AssertionsEditor assertions={assertions} onChange={setAssertions} />
+                </div>
+              
+                {/* Scripts */}
+                <div className="mb-4">
+                  <label htmlFor="preRequestScript" className="block text-sm font-medium text-gray-700 mb-1">
+                    Pre-request Script
+                  </label>
+                  <textarea
+                    id="preRequestScript"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="request.headers['X-Signature'] = await utils.hmac('SHA-256', variables.get('secret'), request.body);"
+                    value={preRequestScript}
+                    onChange={(e) => setPreRequestScript(e.target.value)}
+                  />
+                  <label htmlFor="postResponseScript" className="block text-sm font-medium text-gray-700 mt-2 mb-1">
+                    Post-response Script
+                  </label>
+                  <textarea
+                    id="postResponseScript"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="variables.set('orderId', response.json().id);"
+                    value={postResponseScript}
+                    onChange={(e) => setPostResponseScript(e.target.value)}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    JavaScript run in a sandbox without network access. Scripts get <code>request</code>, <code>response</code>,{' '}
+                    <code>variables</code>, <code>console</code> and <code>utils</code>, and may use await.
+                  </p>
+                </div>
+              
+                {/* Variables */}
+                {unresolvedVariables.length > 0 && (
+                  <div className="mb-4 p-2 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+                    Not defined in {activeEnvironment ? activeEnvironment.name : 'any environment'}:{' '}
+                    <span className="font-mono">{unresolvedVariables.map((name) => `{{${name}}}`).join(', ')}</span>
                   </div>
                 )}
-              </div>
-              {response && (
-                <button
-                  onClick={copyToClipboard}
-                  className="flex items-center text-sm text-gray-600 hover:text-gray-900"
-                >
-                  {copied ? (
-                    <>
-                      <Check size={16} className="mr-1" />
-                      Copied!
-                    </>
-                  ) : (
-                    <>
-                      <Copy size={16} className="mr-1" />
-                      Copy
-                    </>
+                <div className="mb-4 text-xs text-gray-500">
+                  Use{' '}
+                  {[...Object.keys(variables), ...Object.keys(DYNAMIC_VARIABLES)].map((name) => (
+                    <code
+                      key={name}
+                      className="inline-block mr-1 mb-1 px-1 bg-gray-100 rounded font-mono text-gray-700"
+                      title={DYNAMIC_VARIABLES[name]?.description || 'Environment variable'}
+                    >
+                      {`{{${name}}}`}
+                    </code>
+                  ))}
+                  in the URL, parameters, headers, auth and body.
+                </div>
+              
+                {/* Timeout */}
+                <div className="mb-4 flex items-center text-sm text-gray-700">
+                  <label htmlFor="timeoutMs">Timeout</label>
+                  <input
+                    id="timeoutMs"
+                    type="number"
+                    min={0}
+                    step={1000}
+                    className="ml-2 w-28 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={timeoutMs}
+                    onChange={(e) => setTimeoutMs(Math.max(0, Number(e.target.value) || 0))}
+                  />
+                  <span className="ml-1 text-gray-500">ms{timeoutMs === 0 ? ', no limit' : ''}</span>
+                </div>
+              
+                {/* Retries */}
+                <div className="mb-4">
+                  <RetryEditor policy={retryPolicy} onChange={setRetryPolicy} />
+                </div>
+              
+                {/* Submit Button */}
+                <div className="flex">
+                  <button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md flex items-center justify-center"
+                    disabled={loading}
+                  >
+                    {loading ? (
+                      <RefreshCw size={18} className="animate-spin mr-2" />
+                    ) : (
+                      <Send size={18} className="mr-2" />
+                    )}
+                    {loading ? 'Sending...' : 'Send Request'}
+                  </button>
+                  {sendController && (
+                    <button
+                      type="button"
+                      onClick={() => sendController.abort()}
+                      className="ml-2 bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md flex items-center"
+                    >
+                      <Square size={16} className="mr-2" />
+                      Cancel
+                    </button>
                   )}
-                </button>
-              )}
+                </div>
+              </form>
             </div>
-            
-            {error && (
-              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-600">
-                {error}
+          
+            {/* Response Panel */}
+            <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-6">
+              <div className="flex justify-between items-center mb-4">
+                <div className="flex items-center">
+                  <h2 className="text-xl font-semibold text-gray-700">Response</h2>
+                  {statusCode && (
+                    <div className={`ml-4 px-2 py-1 rounded-md ${getStatusCodeColor(statusCode)} bg-opacity-10 flex items-center`}>
+                      <span className={`font-mono font-bold ${getStatusCodeColor(statusCode)}`}>{statusCode}</span>
+                      <span className="ml-2 text-sm">{getStatusText(statusCode)}</span>
+                    </div>
+                  )}
+                  {validation?.undeclaredStatus && (
+                    <button
+                      type="button"
+                      onClick={() => setResponseTab('schema')}
+                      className="ml-2 flex items-center text-xs text-yellow-700"
+                      title={`Declared: ${validation.undeclaredStatus.join(', ') || 'none'}`}
+                    >
+                      <AlertTriangle size={14} className="mr-1" />
+                      Not in spec
+                    </button>
+                  )}
+                  {responseMeta && (
+                    <div className="ml-4 flex items-center text-sm text-gray-500">
+                      <Clock size={14} className="mr-1" />
+                      {formatDuration(responseMeta.durationMs)}
+                      <HardDrive size={14} className="ml-3 mr-1" />
+                      {formatBytes(responseMeta.sizeBytes)}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowDiff(true)}
+                    className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+                    title="Compare two responses from history or environments"
+                  >
+                    <GitCompare size={16} className="mr-1" />
+                    Compare
+                  </button>
+                  {response && (
+                    <button
+                      onClick={copyToClipboard}
+                      className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      {copied ? (
+                        <>
+                          <Check size={16} className="mr-1" />
+                          Copied!
+                        </>
+                      ) : (
+                        <>
+                          <Copy size={16} className="mr-1" />
+                          Copy
+                        </>
+                      )}
+                    </button>
+                  )}
+                </div>
               </div>
-            )}
             
-            <div className="bg-gray-50 border border-gray-200 rounded-md p-4 h-[500px] overflow-auto">
-              {loading ? (
-                <div className="flex items-center justify-center h-full">
-                  <RefreshCw size={24} className="animate-spin text-blue-600" />
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-600">
+                  {error}
                 </div>
-              ) : response ? (
-                <pre 
-                  className="text-sm font-mono whitespace-pre-wrap"
-                  dangerouslySetInnerHTML={{ __html: syntaxHighlight(response) }}
-                />
-              ) : (
-                <div className="text-gray-500 text-center h-full flex items-center justify-center">
-                  Response will appear here after sending a request
+              )}
+            
+              {attempts.length > 1 && (
+                <div className="mb-4">
+                  <RetryTimeline attempts={attempts} />
                 </div>
               )}
+            
+              {extractionResults.length > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+                  <span className="text-gray-500">
+                    {activeEnvironment ? `Saved to ${activeEnvironment.name}:` : 'No active environment to save into:'}
+                  </span>
+                  {extractionResults.map((result) =>
+                    result.value === null ? (
+                      <span key={result.id} className="flex items-center text-yellow-700" title={result.error}>
+                        <AlertTriangle size={12} className="mr-1" />
+                        <span className="font-mono">{`{{${result.variable}}}`}</span>
+                        <span className="ml-1">not found</span>
+                      </span>
+                    ) : (
+                      <span key={result.id} className="font-mono text-green-700" title={result.value}>
+                        {`{{${result.variable}}}`}
+                      </span>
+                    )
+                  )}
+                </div>
+              )}
+            
+              {/* Response Tabs */}
+              <div className="flex border-b border-gray-200 mb-2">
+                {(['body', 'headers', 'timing', 'request', 'code', 'schema', 'tests', 'console'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setResponseTab(tab)}
+                    className={`px-4 py-2 text-sm font-medium capitalize border-b-2 -mb-px ${
+                      responseTab === tab
+                        ? 'border-blue-600 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {tab}
+                    {tab === 'headers' && responseMeta && (
+                      <span className="ml-1 text-xs text-gray-400">({Object.keys(responseMeta.headers).length})</span>
+                    )}
+                    {tab === 'schema' && validation && (validation.violations.length > 0 || validation.undeclaredStatus || validation.error) && (
+                      <span className="ml-1 text-xs text-red-500">({validation.violations.length || '!'})</span>
+                    )}
+                    {tab === 'tests' && assertionResults.length > 0 && (
+                      <span
+                        className={`ml-1 text-xs ${
+                          assertionResults.every((result) => result.passed) ? 'text-green-600' : 'text-red-500'
+                        }`}
+                      >
+                        ({assertionResults.filter((result) => result.passed).length}/{assertionResults.length})
+                      </span>
+                    )}
+                    {tab === 'console' && scriptLogs.length > 0 && (
+                      <span
+                        className={`ml-1 text-xs ${
+                          scriptLogs.some((log) => log.level === 'error') ? 'text-red-500' : 'text-gray-400'
+                        }`}
+                      >
+                        ({scriptLogs.length})
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-4 h-[500px] overflow-auto">
+                {snippet ? (
+                  <CodeSnippetView
+                    request={snippet.request}
+                    auth={resolveAuth(requestAuth, variables)}
+                    error={snippet.error}
+                    language={codeLanguage}
+                    onLanguageChange={setCodeLanguage}
+                  />
+                ) : loading ? (
+                  <div className="flex items-center justify-center h-full">
+                    <RefreshCw size={24} className="animate-spin text-blue-600" />
+                  </div>
+                ) : responseTab === 'request' && sentRequest ? (
+                  <RequestPreview request={sentRequest} />
+                ) : responseTab === 'tests' ? (
+                  assertionResults.length > 0 ? (
+                    <AssertionResultsView results={assertionResults} />
+                  ) : (
+                    <div className="text-gray-500 text-center h-full flex items-center justify-center">
+                      Add assertions to the request to check its responses
+                    </div>
+                  )
+                ) : responseTab === 'console' ? (
+                  scriptLogs.length > 0 ? (
+                    <ScriptConsoleView logs={scriptLogs} />
+                  ) : (
+                    <div className="text-gray-500 text-center h-full flex items-center justify-center">
+                      Output from the request's scripts shows up here
+                    </div>
+                  )
+                ) : responseTab === 'schema' ? (
+                  validation ? (
+                    <SchemaValidationView validation={validation} />
+                  ) : (
+                    <div className="text-gray-500 text-center h-full flex items-center justify-center">
+                      Attach a response schema, or open an endpoint from an imported spec, to check responses
+                    </div>
+                  )
+                ) : responseTab === 'headers' && responseMeta ? (
+                  <ResponseHeadersTable headers={responseMeta.headers} />
+                ) : responseTab === 'timing' && responseMeta ? (
+                  <dl className="grid grid-cols-2 gap-y-2 text-sm max-w-md">
+                    <dt className="text-gray-500">Time to headers</dt>
+                    <dd className="font-mono">{formatDuration(responseMeta.timeToHeadersMs)}</dd>
+                    <dt className="text-gray-500">Body download</dt>
+                    <dd className="font-mono">{formatDuration(responseMeta.durationMs - responseMeta.timeToHeadersMs)}</dd>
+                    <dt className="text-gray-500">Total</dt>
+                    <dd className="font-mono font-semibold">{formatDuration(responseMeta.durationMs)}</dd>
+                    <dt className="text-gray-500">Body size</dt>
+                    <dd className="font-mono">{formatBytes(responseMeta.sizeBytes)}</dd>
+                    <dt className="text-gray-500">Content-Length</dt>
+                    <dd className="font-mono">
+                      {responseMeta.contentLength === null ? 'not sent' : formatBytes(responseMeta.contentLength)}
+                    </dd>
+                  </dl>
+                ) : responseBody ? (
+                  <ResponseBodyView body={responseBody} />
+                ) : (
+                  <div className="text-gray-500 text-center h-full flex items-center justify-center">
+                    Response will appear here after sending a request
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { X, ChevronRight, ChevronDown, Trash2, Upload, Search, FileCode } from 'lucide-react';
+import { ApiOperation, ApiSpec, importApiSpec } from '../lib/openapi';
+
+interface ApiSpecsSidebarProps {
+  specs: ApiSpec[];
+  openOperationId: string | null;
+  onChange: (specs: ApiSpec[]) => void;
+  onOpen: (operation: ApiOperation) => void;
+  onClose: () => void;
+}
+
+function ApiSpecsSidebar({ specs, openOperationId, onChange, onOpen, onClose }: ApiSpecsSidebarProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [importError, setImportError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setCollapsed(next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange([...specs, importApiSpec(await file.text())]);
+      setImportError('');
+    } catch (err) {
+      setImportError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const remove = (spec: ApiSpec) => {
+    if (window.confirm(`Remove "${spec.title}"?`)) onChange(specs.filter((other) => other.id !== spec.id));
+  };
+
+  const query = search.trim().toLowerCase();
+  const matches = (operation: ApiOperation) =>
+    !query || `${operation.method} ${operation.path} ${operation.name}`.toLowerCase().includes(query);
+
+  const iconButton = 'p-1 text-gray-400 hover:text-blue-600';
+
+  return (
+    <aside className="bg-white rounded-lg shadow-md p-4 flex flex-col max-h-[calc(100vh-8rem)]">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">API specs</h2>
+        <div className="flex items-center">
+          <button type="button" className={iconButton} onClick={() => fileInput.current?.click()} title="Import OpenAPI / Swagger spec">
+            <Upload size={16} />
+          </button>
+          <button type="button" onClick={onClose} className="ml-2 text-gray-400 hover:text-gray-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json,.yaml,.yml"
+        className="hidden"
+        onChange={handleImport}
+      />
+
+      {importError && (
+        <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-600">{importError}</div>
+      )}
+
+      {specs.length > 0 && (
+        <div className="relative mb-2">
+          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            className="w-full pl-7 pr-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Filter endpoints"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto -mx-1">
+        {specs.length === 0 && (
+          <div className="text-sm text-gray-500 text-center py-8">
+            <FileCode size={24} className="mx-auto mb-2 text-gray-300" />
+            Import an OpenAPI 3 or Swagger 2 file (JSON or YAML) to browse its endpoints
+          </div>
+        )}
+        {specs.map((spec) => (
+          <div key={spec.id} className="mb-2">
+            <div className="group flex items-center py-1 px-1 rounded hover:bg-gray-50">
+              <button type="button" onClick={() => toggle(spec.id)} className="flex items-center flex-1 min-w-0 text-left">
+                {collapsed.has(spec.id) ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                <span className="ml-1 text-sm font-semibold text-gray-800 truncate">{spec.title}</span>
+                {spec.version && <span className="ml-1 text-xs text-gray-400 flex-shrink-0">{spec.version}</span>}
+              </button>
+              <div className="flex opacity-0 group-hover:opacity-100">
+                <button type="button" className={iconButton} onClick={() => remove(spec)} title="Remove">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            {!collapsed.has(spec.id) && spec.tags.map((tag) => {
+              const operations = tag.operations.filter(matches);
+              if (operations.length === 0) return null;
+              const tagKey = `${spec.id}:${tag.name}`;
+              // A search shows every match, even in collapsed tags
+              const open = query !== '' || !collapsed.has(tagKey);
+              return (
+                <div key={tagKey}>
+                  <button
+                    type="button"
+                    onClick={() => toggle(tagKey)}
+                    className="flex items-center w-full py-1 pr-1 rounded hover:bg-gray-50 text-left"
+                    style={{ paddingLeft: '20px' }}
+                  >
+                    {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    <span className="ml-1 text-sm text-gray-700 truncate">{tag.name}</span>
+                    <span className="ml-1 text-xs text-gray-400">{operations.length}</span>
+                  </button>
+                  {open && operations.map((operation) => (
+                    <div
+                      key={operation.id}
+                      className={`flex items-center py-1 pr-1 rounded cursor-pointer ${
+                        operation.id === openOperationId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                      style={{ paddingLeft: '36px' }}
+                      onClick={() => onOpen(operation)}
+                      title={`${operation.method} ${operation.path}`}
+                    >
+                      <span className="font-mono text-xs font-semibold text-gray-500 w-14 flex-shrink-0 truncate">
+                        {operation.method}
+                      </span>
+                      <span className={`flex-1 text-sm truncate ${operation.deprecated ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                        {operation.name}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
+
+export default ApiSpecsSidebar;
@@ -0,0 +1,40 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+import { AssertionResult } from '../lib/assertions';
+
+interface AssertionResultsViewProps {
+  results: AssertionResult[];
+}
+
+// Pass/fail list for the assertions run against the last response
+function AssertionResultsView({ results }: AssertionResultsViewProps) {
+  const passed = results.filter((result) => result.passed).length;
+
+  return (
+    <div className="text-sm">
+      <div className={`text-xs mb-3 ${passed === results.length ? 'text-green-600' : 'text-red-600'}`}>
+        {passed} of {results.length} passed
+      </div>
+      <ul>
+        {results.map((result) => (
+          <li key={result.id} className="flex items-start py-1 border-b border-gray-200 last:border-0">
+            {result.passed ? (
+              <CheckCircle size={16} className="mr-2 mt-0.5 flex-shrink-0 text-green-600" />
+            ) : (
+              <XCircle size={16} className="mr-2 mt-0.5 flex-shrink-0 text-red-600" />
+            )}
+            <div className="min-w-0">
+              <div className="font-mono text-gray-800 break-all">{result.description}</div>
+              {result.error ? (
+                <div className="text-xs text-red-600">{result.error}</div>
+              ) : (
+                !result.passed && <div className="text-xs text-gray-500 break-all">Actual: {result.actual}</div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default AssertionResultsView;
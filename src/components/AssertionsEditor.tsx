@@ -0,0 +1,99 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  ASSERTION_SOURCES,
+  Assertion,
+  AssertionOperator,
+  AssertionSource,
+  OPERATOR_LABELS,
+  SOURCE_OPERATORS,
+  changeAssertionSource,
+  createAssertion,
+  operatorTakesValue,
+  sourceTakesProperty,
+  updateAssertion
+} from '../lib/assertions';
+
+interface AssertionsEditorProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function AssertionsEditor({ assertions, onChange }: AssertionsEditorProps) {
+  const update = (id: string, changes: Partial<Assertion>) => onChange(updateAssertion(assertions, id, changes));
+
+  return (
+    <div>
+      {assertions.map((assertion) => (
+        <div key={assertion.id} className={`flex items-center mb-2 ${assertion.enabled ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={assertion.enabled}
+            onChange={(e) => update(assertion.id, { enabled: e.target.checked })}
+            title={assertion.enabled ? 'Disable' : 'Enable'}
+          />
+          <select
+            className={`${inputClass} rounded-l-md bg-gray-50`}
+            value={assertion.source}
+            onChange={(e) =>
+              onChange(assertions.map((other) =>
+                other.id === assertion.id ? changeAssertionSource(other, e.target.value as AssertionSource) : other
+              ))
+            }
+          >
+            {ASSERTION_SOURCES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {sourceTakesProperty(assertion.source) && (
+            <input
+              type="text"
+              className={`${inputClass} w-1/4 min-w-0 border-l-0 font-mono`}
+              placeholder={assertion.source === 'header' ? 'content-type' : '$.data[0].id'}
+              value={assertion.property}
+              onChange={(e) => update(assertion.id, { property: e.target.value })}
+            />
+          )}
+          <select
+            className={`${inputClass} border-l-0 bg-gray-50 ${operatorTakesValue(assertion.operator) ? '' : 'rounded-r-md flex-1'}`}
+            value={assertion.operator}
+            onChange={(e) => update(assertion.id, { operator: e.target.value as AssertionOperator })}
+          >
+            {SOURCE_OPERATORS[assertion.source].map((operator) => (
+              <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+            ))}
+          </select>
+          {operatorTakesValue(assertion.operator) && (
+            <input
+              type="text"
+              className={`${inputClass} flex-1 min-w-0 border-l-0 rounded-r-md font-mono`}
+              placeholder={assertion.source === 'responseTime' ? 'ms' : 'Value'}
+              value={assertion.expected}
+              onChange={(e) => update(assertion.id, { expected: e.target.value })}
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(assertions.filter((other) => other.id !== assertion.id))}
+            className="ml-1 p-1 text-gray-400 hover:text-red-600"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...assertions, createAssertion()])}
+        className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+      >
+        <Plus size={14} className="mr-1" />
+        Add assertion
+      </button>
+    </div>
+  );
+}
+
+export default AssertionsEditor;
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, RefreshCw, KeyRound } from 'lucide-react';
+import { AUTH_PROVIDERS, AUTH_TYPES, AuthConfig, AuthType } from '../lib/auth';
+import { MOCK_TOKEN_URL, OAUTH_GRANT_TYPES, OAuthToken, describeTokenStatus, getTokenStatus } from '../lib/oauth';
+import SecretInput from './SecretInput';
+
+interface AuthEditorProps {
+  auth: AuthConfig;
+  onChange: (changes: Partial<AuthConfig>) => void;
+  // The environment a request inherits from; leave out to hide the inherit option
+  inheritFrom?: { name: string; auth: AuthConfig } | null;
+  // Border classes for a templated text field
+  inputBorder?: (text: string) => string;
+  // The cached OAuth token for the settings in effect, when they use OAuth 2.0
+  oauth?: {
+    token: OAuthToken | null;
+    fetching: boolean;
+    onFetch: () => void;
+    onClear: () => void;
+  };
+}
+
+const TOKEN_STATUS_COLORS = {
+  missing: 'text-gray-500',
+  valid: 'text-green-600',
+  expiring: 'text-yellow-600',
+  expired: 'text-red-600'
+};
+
+function AuthEditor({ auth, onChange, inheritFrom, inputBorder = () => 'border-gray-300', oauth }: AuthEditorProps) {
+  const types = AUTH_TYPES.filter((type) => type !== 'inherit' || inheritFrom !== undefined);
+  const [now, setNow] = useState(Date.now());
+  const showsToken = !!oauth;
+
+  // Keep the token countdown current
+  useEffect(() => {
+    if (!showsToken) return;
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, [showsToken]);
+
+  const textInput = (field: 'username' | 'apiKeyName' | 'tokenUrl' | 'clientId' | 'scope', placeholder: string) => (
+    <input
+      type="text"
+      autoComplete="off"
+      className={`w-full mb-2 px-3 py-2 border ${inputBorder(auth[field])} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+      placeholder={placeholder}
+      value={auth[field]}
+      onChange={(e) => onChange({ [field]: e.target.value })}
+    />
+  );
+
+  return (
+    <div>
+      <div className="relative mb-2">
+        <select
+          className="block appearance-none w-full bg-white border border-gray-300 rounded-md py-2 px-3 pr-8 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          value={auth.type}
+          onChange={(e) => onChange({ type: e.target.value as AuthType })}
+        >
+          {types.map((type) => (
+            <option key={type} value={type}>{AUTH_PROVIDERS[type].label}</option>
+          ))}
+        </select>
+        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+          <ChevronDown size={16} />
+        </div>
+      </div>
+
+      {auth.type === 'inherit' && (
+        <p className="text-xs text-gray-500">
+          {inheritFrom
+            ? `Uses ${AUTH_PROVIDERS[inheritFrom.auth.type].label} from ${inheritFrom.name}.`
+            : 'No environment is active, so no auth is sent.'}
+        </p>
+      )}
+
+      {auth.type === 'bearer' && (
+        <SecretInput
+          className={inputBorder(auth.token)}
+          placeholder="Enter your token"
+          value={auth.token}
+          onChange={(token) => onChange({ token })}
+        />
+      )}
+
+      {(auth.type === 'basic' || auth.type === 'digest') && (
+        <>
+          {textInput('username', 'Username')}
+          <SecretInput
+            className={inputBorder(auth.password)}
+            placeholder="Password"
+            value={auth.password}
+            onChange={(password) => onChange({ password })}
+          />
+          {auth.type === 'digest' && (
+            <p className="mt-1 text-xs text-gray-500">
+              Sent after the server's 401 challenge; cross-origin servers must expose WWW-Authenticate.
+            </p>
+          )}
+        </>
+      )}
+
+      {auth.type === 'apiKey' && (
+        <>
+          <div className="flex mb-2">
+            {(['header', 'query'] as const).map((place) => (
+              <button
+                key={place}
+                type="button"
+                onClick={() => onChange({ apiKeyIn: place })}
+                className={`flex-1 px-2 py-1 text-xs border first:rounded-l-md last:rounded-r-md ${
+                  auth.apiKeyIn === place
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {place === 'header' ? 'Header' : 'Query parameter'}
+              </button>
+            ))}
+          </div>
+          {textInput('apiKeyName', auth.apiKeyIn === 'header' ? 'Header name' : 'Parameter name')}
+          <SecretInput
+            className={inputBorder(auth.apiKeyValue)}
+            placeholder="Key"
+            value={auth.apiKeyValue}
+            onChange={(apiKeyValue) => onChange({ apiKeyValue })}
+          />
+        </>
+      )}
+
+      {auth.type === 'oauth2' && (
+        <>
+          <div className="flex mb-2">
+            {OAUTH_GRANT_TYPES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onChange({ grantType: value })}
+                className={`flex-1 px-2 py-1 text-xs border first:rounded-l-md last:rounded-r-md ${
+                  auth.grantType === value
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {textInput('tokenUrl', `Token URL (or ${MOCK_TOKEN_URL})`)}
+          {textInput('clientId', 'Client ID')}
+          <div className="mb-2">
+            <SecretInput
+              className={inputBorder(auth.clientSecret)}
+              placeholder="Client secret"
+              value={auth.clientSecret}
+              onChange={(clientSecret) => onChange({ clientSecret })}
+            />
+          </div>
+          {textInput('scope', 'Scopes (space-separated)')}
+          {auth.grantType === 'password' && (
+            <>
+              {textInput('username', 'Username')}
+              <SecretInput
+                className={inputBorder(auth.password)}
+                placeholder="Password"
+                value={auth.password}
+                onChange={(password) => onChange({ password })}
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {oauth && (
+        <div className="mt-2 flex items-center justify-between text-xs">
+          <span className={`flex items-center ${TOKEN_STATUS_COLORS[getTokenStatus(oauth.token, now)]}`}>
+            <KeyRound size={12} className="mr-1" />
+            {describeTokenStatus(oauth.token, now)}
+          </span>
+          <span className="flex items-center gap-3">
+            {oauth.token && (
+              <button type="button" onClick={oauth.onClear} className="text-gray-500 hover:text-gray-800">
+                Clear
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={oauth.onFetch}
+              disabled={oauth.fetching}
+              className="flex items-center text-blue-600 hover:text-blue-800"
+            >
+              <RefreshCw size={12} className={`mr-1 ${oauth.fetching ? 'animate-spin' : ''}`} />
+              Get new token
+            </button>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AuthEditor;
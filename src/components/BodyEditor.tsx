@@ -0,0 +1,145 @@
+import { ChevronDown, Paperclip } from 'lucide-react';
+import { BODY_TYPES, BodyDraft, RAW_CONTENT_TYPES, fileRefFromFile, hasFileData } from '../lib/body';
+import { formatBytes } from '../lib/response';
+import KeyValueEditor from './KeyValueEditor';
+import MultipartEditor from './MultipartEditor';
+
+interface BodyEditorProps {
+  body: BodyDraft;
+  onChange: (changes: Partial<BodyDraft>) => void;
+  onError: (message: string) => void;
+  // Border classes for a templated text field
+  inputBorder: (text: string) => string;
+}
+
+// Body type selector with the editor that fits the chosen type
+function BodyEditor({ body, onChange, onError, inputBorder }: BodyEditorProps) {
+  const formatJsonBody = () => {
+    try {
+      onChange({ body: JSON.stringify(JSON.parse(body.body), null, 2) });
+    } catch (e) {
+      onError('Invalid JSON in request body');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <label className="block text-sm font-medium text-gray-700">Request Body</label>
+        {body.bodyType === 'json' && (
+          <button
+            type="button"
+            onClick={formatJsonBody}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Format JSON
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {BODY_TYPES.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange({ bodyType: value })}
+            className={`px-2 py-1 rounded-md text-xs border ${
+              body.bodyType === value
+                ? 'bg-blue-50 border-blue-300 text-blue-700'
+                : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {body.bodyType === 'json' && (
+        <textarea
+          id="jsonBody"
+          rows={10}
+          className={`w-full px-3 py-2 border ${inputBorder(body.body)} rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500`}
+          placeholder='{"name": "John", "email": "john@example.com"}'
+          value={body.body}
+          onChange={(e) => onChange({ body: e.target.value })}
+        />
+      )}
+
+      {body.bodyType === 'form' && (
+        <KeyValueEditor
+          rows={body.formFields}
+          onChange={(formFields) => onChange({ formFields })}
+          keyPlaceholder="Field"
+          valuePlaceholder="Value"
+          addLabel="Add field"
+        />
+      )}
+
+      {body.bodyType === 'multipart' && (
+        <MultipartEditor
+          fields={body.multipartFields}
+          onChange={(multipartFields) => onChange({ multipartFields })}
+        />
+      )}
+
+      {body.bodyType === 'raw' && (
+        <>
+          <div className="relative mb-2">
+            <select
+              className="block appearance-none w-full bg-white border border-gray-300 rounded-md py-1 px-2 pr-8 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={body.rawContentType}
+              onChange={(e) => onChange({ rawContentType: e.target.value })}
+            >
+              {RAW_CONTENT_TYPES.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+              <ChevronDown size={16} />
+            </div>
+          </div>
+          <textarea
+            rows={10}
+            className={`w-full px-3 py-2 border ${inputBorder(body.body)} rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500`}
+            placeholder={body.rawContentType.includes('xml') ? '<user><name>John</name></user>' : 'Request body'}
+            value={body.body}
+            onChange={(e) => onChange({ body: e.target.value })}
+          />
+        </>
+      )}
+
+      {body.bodyType === 'binary' && (
+        <label
+          className={`flex items-center px-3 py-2 border rounded-md text-sm cursor-pointer hover:bg-gray-50 ${
+            body.binaryFile && !hasFileData(body.binaryFile) ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+          }`}
+        >
+          <Paperclip size={16} className="mr-2 flex-shrink-0 text-gray-500" />
+          <span className="truncate text-gray-700">
+            {body.binaryFile
+              ? `${body.binaryFile.name} (${formatBytes(body.binaryFile.size)}${body.binaryFile.type ? `, ${body.binaryFile.type}` : ''})`
+              : 'Choose a file to send as the body'}
+          </span>
+          <input
+            type="file"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onChange({ binaryFile: fileRefFromFile(file) });
+            }}
+          />
+        </label>
+      )}
+
+      {body.bodyType !== 'none' && (
+        <div className="mt-1 text-xs text-gray-500">
+          {body.bodyType === 'multipart'
+            ? 'Content-Type and its boundary are set when sending.'
+            : 'Content-Type is set from the body type unless you add the header yourself.'}
+          {(body.bodyType === 'multipart' || body.bodyType === 'binary') && ' Files are not kept in history or collections.'}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BodyEditor;
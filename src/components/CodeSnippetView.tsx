@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Check, Copy, AlertTriangle } from 'lucide-react';
+import { PreparedRequest } from '../lib/request';
+import { AuthConfig } from '../lib/auth';
+import { CODE_LANGUAGES, CodeLanguage, generateCode } from '../lib/codegen';
+
+interface CodeSnippetViewProps {
+  // The request as Send would build it, or the reason it can't be built
+  request: PreparedRequest | null;
+  auth: AuthConfig;
+  error: string;
+  language: CodeLanguage;
+  onLanguageChange: (language: CodeLanguage) => void;
+}
+
+function CodeSnippetView({ request, auth, error, language, onLanguageChange }: CodeSnippetViewProps) {
+  const [copied, setCopied] = useState(false);
+  const code = request ? generateCode(language, request, auth) : '';
+
+  const copyCode = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex justify-between items-center mb-3">
+        <div className="flex flex-wrap gap-1">
+          {CODE_LANGUAGES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => onLanguageChange(value)}
+              className={`px-2 py-1 text-xs border rounded-md ${
+                language === value
+                  ? 'bg-blue-50 border-blue-300 text-blue-700'
+                  : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {code && (
+          <button
+            type="button"
+            onClick={copyCode}
+            className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            {copied ? (
+              <>
+                <Check size={16} className="mr-1" />
+                Copied!
+              </>
+            ) : (
+              <>
+                <Copy size={16} className="mr-1" />
+                Copy
+              </>
+            )}
+          </button>
+        )}
+      </div>
+      {request ? (
+        <pre className="font-mono whitespace-pre-wrap break-all text-gray-800">{code}</pre>
+      ) : (
+        <div className="flex items-center text-red-600">
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CodeSnippetView;
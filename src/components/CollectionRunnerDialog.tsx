@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { X, Play, Square, RefreshCw, CheckCircle, XCircle, MinusCircle, Circle, Download } from 'lucide-react';
+import {
+  DEFAULT_RUN_OPTIONS,
+  RunContext,
+  RunItem,
+  RunOptions,
+  RunReport,
+  RunTarget,
+  runReportToJUnit,
+  runReportToJson,
+  runRequests,
+  summarizeRun
+} from '../lib/runner';
+import { formatDuration } from '../lib/response';
+import { getStatusClass } from '../lib/status';
+
+interface CollectionRunnerDialogProps {
+  target: RunTarget;
+  context: RunContext;
+  onClose: () => void;
+}
+
+const STATUS_COLORS = {
+  none: 'text-gray-500',
+  success: 'text-green-600',
+  redirect: 'text-blue-600',
+  clientError: 'text-yellow-600',
+  serverError: 'text-red-600'
+};
+
+const stateIcon = (item: RunItem) => {
+  switch (item.state) {
+    case 'running':
+      return <RefreshCw size={16} className="animate-spin text-blue-600" />;
+    case 'passed':
+      return <CheckCircle size={16} className="text-green-600" />;
+    case 'failed':
+      return <XCircle size={16} className="text-red-600" />;
+    case 'skipped':
+      return <MinusCircle size={16} className="text-gray-400" />;
+    default:
+      return <Circle size={16} className="text-gray-300" />;
+  }
+};
+
+// Runs a collection or folder top to bottom and reports on every request
+function CollectionRunnerDialog({ target, context, onClose }: CollectionRunnerDialogProps) {
+  const [options, setOptions] = useState<RunOptions>(DEFAULT_RUN_OPTIONS);
+  const [report, setReport] = useState<RunReport | null>(null);
+  // Set while a run is going, to cancel it
+  const [controller, setController] = useState<AbortController | null>(null);
+  const running = controller !== null;
+
+  const start = async () => {
+    const next = new AbortController();
+    setController(next);
+    try {
+      await runRequests(target, options, context, setReport, next.signal);
+    } finally {
+      setController(null);
+    }
+  };
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${target.name.replace(/[^\w.-]+/g, '-')}-run.${extension}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const close = () => {
+    if (!running) onClose();
+  };
+
+  const summary = report ? summarizeRun(report) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-30 flex items-center justify-center p-4" onClick={close}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-700 truncate">Run {target.name}</h2>
+          <button
+            type="button"
+            onClick={close}
+            disabled={running}
+            className="text-gray-400 hover:text-gray-700 disabled:opacity-50"
+            title={running ? 'Cancel the run first' : 'Close'}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center text-gray-700">
+            Delay between requests
+            <input
+              type="number"
+              min={0}
+              step={100}
+              className="ml-2 w-24 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={options.delayMs}
+              disabled={running}
+              onChange={(e) => setOptions({ ...options, delayMs: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <span className="ml-1 text-gray-500">ms</span>
+          </label>
+          <label className="flex items-center text-gray-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              checked={options.stopOnFailure}
+              disabled={running}
+              onChange={(e) => setOptions({ ...options, stopOnFailure: e.target.checked })}
+            />
+            Stop on first failure
+          </label>
+          {controller ? (
+            <button
+              type="button"
+              onClick={() => controller.abort()}
+              className="ml-auto flex items-center px-4 py-2 text-white bg-red-600 rounded-md hover:bg-red-700"
+            >
+              <Square size={16} className="mr-1" />
+              Cancel
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={start}
+              disabled={target.requests.length === 0}
+              className="ml-auto flex items-center px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Play size={16} className="mr-1" />
+              {report ? 'Run again' : `Run ${target.requests.length} requests`}
+            </button>
+          )}
+        </div>
+
+        {summary && (
+          <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+            <span className="text-green-600">{summary.passed} passed</span>
+            <span className="text-red-600">{summary.failed} failed</span>
+            {summary.skipped > 0 && <span className="text-gray-500">{summary.skipped} skipped</span>}
+            <span className="text-gray-500">
+              Assertions: {summary.assertionsPassed} passed, {summary.assertionsFailed} failed
+            </span>
+            {report && report.finishedAt !== null && (
+              <>
+                <span className="text-gray-500">{formatDuration(summary.durationMs)}</span>
+                <div className="ml-auto flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => download(runReportToJson(report), 'application/json', 'json')}
+                    className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    <Download size={14} className="mr-1" />
+                    JSON
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => download(runReportToJUnit(report), 'application/xml', 'xml')}
+                    className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    <Download size={14} className="mr-1" />
+                    JUnit XML
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto px-6 py-2">
+          {target.requests.length === 0 && (
+            <div className="text-sm text-gray-500 text-center py-8">There are no saved requests to run here</div>
+          )}
+          {(report ? report.items : []).map((item) => (
+            <div key={item.id} className="py-2 border-b border-gray-100 last:border-0">
+              <div className="flex items-center text-sm">
+                <span className="flex-shrink-0">{stateIcon(item)}</span>
+                <span className="ml-2 font-mono text-xs font-semibold text-gray-500 w-14 flex-shrink-0 truncate">{item.method}</span>
+                <span className="flex-1 min-w-0 truncate text-gray-800" title={item.url}>{item.name}</span>
+                {item.status !== null && (
+                  <span className={`ml-2 font-mono ${STATUS_COLORS[getStatusClass(item.status)]}`}>{item.status}</span>
+                )}
+                {item.durationMs !== null && (
+                  <span className="ml-2 w-16 text-right text-xs text-gray-500">{formatDuration(item.durationMs)}</span>
+                )}
+              </div>
+              {item.error && <div className="ml-6 mt-1 text-xs text-red-600">{item.error}</div>}
+              {item.extracted.length > 0 && (
+                <div className="ml-6 mt-1 text-xs">
+                  {item.extracted.map((result) =>
+                    result.value === null ? (
+                      <span key={result.id} className="mr-3 text-yellow-700" title={result.error}>
+                        {`{{${result.variable}}}`} not found
+                      </span>
+                    ) : (
+                      <span key={result.id} className="mr-3 text-gray-500">Set {`{{${result.variable}}}`}</span>
+                    )
+                  )}
+                </div>
+              )}
+              {item.assertions.length > 0 && (
+                <ul className="ml-6 mt-1">
+                  {item.assertions.map((assertion) => (
+                    <li key={assertion.id} className="flex items-start text-xs">
+                      {assertion.passed ? (
+                        <CheckCircle size={12} className="mr-1 mt-0.5 flex-shrink-0 text-green-600" />
+                      ) : (
+                        <XCircle size={12} className="mr-1 mt-0.5 flex-shrink-0 text-red-600" />
+                      )}
+                      <span className="font-mono text-gray-700 break-all">{assertion.description}</span>
+                      {!assertion.passed && (
+                        <span className="ml-2 text-gray-500 break-all">
+                          {assertion.error || `Actual: ${assertion.actual}`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {!report && target.requests.length > 0 && (
+            <ul className="text-sm text-gray-600">
+              {target.requests.map((saved) => (
+                <li key={saved.id} className="flex items-center py-1">
+                  <span className="font-mono text-xs font-semibold text-gray-500 w-14 flex-shrink-0 truncate">
+                    {saved.request.method}
+                  </span>
+                  <span className="truncate">{saved.name}</span>
+                  {saved.request.assertions.length > 0 && (
+                    <span className="ml-2 text-xs text-gray-400">{saved.request.assertions.length} assertions</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CollectionRunnerDialog;
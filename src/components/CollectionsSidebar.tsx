@@ -0,0 +1,252 @@
+import React, { useRef, useState } from 'react';
+import {
+  X,
+  FolderPlus,
+  Folder,
+  FolderOpen,
+  ChevronRight,
+  ChevronDown,
+  Plus,
+  Trash2,
+  Pencil,
+  Download,
+  Upload,
+  Save,
+  Library,
+  Play
+} from 'lucide-react';
+import {
+  Collection,
+  SavedRequest,
+  addFolder,
+  createCollection,
+  exportCollections,
+  importCollections,
+  removeNode,
+  renameNode
+} from '../lib/collections';
+import { RunTarget, runTargetFor } from '../lib/runner';
+
+interface CollectionsSidebarProps {
+  collections: Collection[];
+  openRequestId: string | null;
+  onChange: (collections: Collection[]) => void;
+  onOpen: (saved: SavedRequest) => void;
+  onSaveCurrent: (collectionId: string, folderId: string | null, name: string) => void;
+  onOverwrite: (saved: SavedRequest) => void;
+  onRun: (target: RunTarget) => void;
+  onClose: () => void;
+}
+
+function CollectionsSidebar({
+  collections,
+  openRequestId,
+  onChange,
+  onOpen,
+  onSaveCurrent,
+  onOverwrite,
+  onRun,
+  onClose
+}: CollectionsSidebarProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [importError, setImportError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setCollapsed(next);
+  };
+
+  const promptName = (message: string, initial = '') => {
+    const name = window.prompt(message, initial);
+    return name && name.trim() ? name.trim() : null;
+  };
+
+  const newCollection = () => {
+    const name = promptName('Collection name');
+    if (name) onChange([...collections, createCollection(name)]);
+  };
+
+  const newFolder = (collectionId: string) => {
+    const name = promptName('Folder name');
+    if (name) onChange(addFolder(collections, collectionId, name));
+  };
+
+  const saveHere = (collectionId: string, folderId: string | null) => {
+    const name = promptName('Name for the current request');
+    if (name) onSaveCurrent(collectionId, folderId, name);
+  };
+
+  const rename = (id: string, current: string) => {
+    const name = promptName('New name', current);
+    if (name) onChange(renameNode(collections, id, name));
+  };
+
+  const remove = (id: string, name: string) => {
+    if (window.confirm(`Delete "${name}"?`)) onChange(removeNode(collections, id));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCollections(collections)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'api-tester-collections.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange([...collections, ...importCollections(await file.text())]);
+      setImportError('');
+    } catch (err) {
+      setImportError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const iconButton = 'p-1 text-gray-400 hover:text-blue-600';
+
+  const renderRequest = (saved: SavedRequest, depth: number) => (
+    <div
+      key={saved.id}
+      className={`group flex items-center py-1 pr-1 rounded cursor-pointer ${
+        saved.id === openRequestId ? 'bg-blue-50' : 'hover:bg-gray-50'
+      }`}
+      style={{ paddingLeft: `${depth * 16 + 4}px` }}
+      onClick={() => onOpen(saved)}
+    >
+      <span className="font-mono text-xs font-semibold text-gray-500 w-14 flex-shrink-0 truncate">
+        {saved.request.method}
+      </span>
+      <span className="flex-1 text-sm text-gray-700 truncate" title={saved.request.url}>{saved.name}</span>
+      <div className="flex opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+        {saved.id === openRequestId && (
+          <button type="button" className={iconButton} onClick={() => onOverwrite(saved)} title="Save form into this request">
+            <Save size={14} />
+          </button>
+        )}
+        <button type="button" className={iconButton} onClick={() => rename(saved.id, saved.name)} title="Rename">
+          <Pencil size={14} />
+        </button>
+        <button type="button" className={iconButton} onClick={() => remove(saved.id, saved.name)} title="Delete">
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <aside className="bg-white rounded-lg shadow-md p-4 flex flex-col max-h-[calc(100vh-8rem)]">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">Collections</h2>
+        <div className="flex items-center">
+          <button type="button" className={iconButton} onClick={() => fileInput.current?.click()} title="Import">
+            <Upload size={16} />
+          </button>
+          {collections.length > 0 && (
+            <button type="button" className={iconButton} onClick={handleExport} title="Export (auth secrets are left out)">
+              <Download size={16} />
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="ml-2 text-gray-400 hover:text-gray-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+      <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+
+      {importError && (
+        <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-600">{importError}</div>
+      )}
+
+      <div className="flex-1 overflow-auto -mx-1">
+        {collections.length === 0 && (
+          <div className="text-sm text-gray-500 text-center py-8">
+            <Library size={24} className="mx-auto mb-2 text-gray-300" />
+            Group the requests you send often into collections
+          </div>
+        )}
+        {collections.map((collection) => (
+          <div key={collection.id} className="mb-2">
+            <div className="group flex items-center py-1 px-1 rounded hover:bg-gray-50">
+              <button type="button" onClick={() => toggle(collection.id)} className="flex items-center flex-1 min-w-0 text-left">
+                {collapsed.has(collection.id) ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                <span className="ml-1 text-sm font-semibold text-gray-800 truncate">{collection.name}</span>
+              </button>
+              <div className="flex opacity-0 group-hover:opacity-100">
+                <button type="button" className={iconButton} onClick={() => onRun(runTargetFor(collection, null))} title="Run collection">
+                  <Play size={14} />
+                </button>
+                <button type="button" className={iconButton} onClick={() => saveHere(collection.id, null)} title="Save current request here">
+                  <Plus size={14} />
+                </button>
+                <button type="button" className={iconButton} onClick={() => newFolder(collection.id)} title="New folder">
+                  <FolderPlus size={14} />
+                </button>
+                <button type="button" className={iconButton} onClick={() => rename(collection.id, collection.name)} title="Rename">
+                  <Pencil size={14} />
+                </button>
+                <button type="button" className={iconButton} onClick={() => remove(collection.id, collection.name)} title="Delete">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            {!collapsed.has(collection.id) && (
+              <>
+                {collection.folders.map((folder) => (
+                  <div key={folder.id}>
+                    <div className="group flex items-center py-1 pr-1 rounded hover:bg-gray-50" style={{ paddingLeft: '20px' }}>
+                      <button type="button" onClick={() => toggle(folder.id)} className="flex items-center flex-1 min-w-0 text-left">
+                        {collapsed.has(folder.id) ? (
+                          <Folder size={14} className="text-yellow-500" />
+                        ) : (
+                          <FolderOpen size={14} className="text-yellow-500" />
+                        )}
+                        <span className="ml-1 text-sm text-gray-700 truncate">{folder.name}</span>
+                      </button>
+                      <div className="flex opacity-0 group-hover:opacity-100">
+                        <button type="button" className={iconButton} onClick={() => onRun(runTargetFor(collection, folder.id))} title="Run folder">
+                          <Play size={14} />
+                        </button>
+                        <button type="button" className={iconButton} onClick={() => saveHere(collection.id, folder.id)} title="Save current request here">
+                          <Plus size={14} />
+                        </button>
+                        <button type="button" className={iconButton} onClick={() => rename(folder.id, folder.name)} title="Rename">
+                          <Pencil size={14} />
+                        </button>
+                        <button type="button" className={iconButton} onClick={() => remove(folder.id, folder.name)} title="Delete">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    {!collapsed.has(folder.id) && folder.requests.map((saved) => renderRequest(saved, 2))}
+                  </div>
+                ))}
+                {collection.requests.map((saved) => renderRequest(saved, 1))}
+                {collection.folders.length === 0 && collection.requests.length === 0 && (
+                  <div className="pl-6 py-1 text-xs text-gray-400">Empty — use + to save the current request</div>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={newCollection}
+        className="mt-3 flex items-center justify-center text-sm text-blue-600 hover:text-blue-800"
+      >
+        <Plus size={16} className="mr-1" />
+        New collection
+      </button>
+    </aside>
+  );
+}
+
+export default CollectionsSidebar;
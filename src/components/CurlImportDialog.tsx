@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { RequestDraft } from '../lib/request';
+import { parseCurlCommand } from '../lib/curl';
+
+interface CurlImportDialogProps {
+  onImport: (draft: RequestDraft) => void;
+  onClose: () => void;
+}
+
+function CurlImportDialog({ onImport, onClose }: CurlImportDialogProps) {
+  const [command, setCommand] = useState('');
+  const [error, setError] = useState('');
+
+  const handleImport = () => {
+    try {
+      onImport(parseCurlCommand(command));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-700">Paste cURL</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-6">
+          <textarea
+            rows={10}
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder={"curl -X POST 'https://api.example.com/users' \\\n  -H 'Content-Type: application/json' \\\n  -d '{\"name\": \"John\"}'"}
+            value={command}
+            onChange={(e) => {
+              setCommand(e.target.value);
+              setError('');
+            }}
+          />
+          {error && (
+            <div className="mt-2 flex items-center text-sm text-red-600">
+              <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+          <p className="mt-2 text-xs text-gray-500">
+            Reads -X, -H, -d/--data/--data-raw, -u, -F/--form and the URL. The current form is replaced.
+          </p>
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!command.trim()}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CurlImportDialog;
@@ -0,0 +1,131 @@
+import { X, Plus, Copy, Trash2, Globe } from 'lucide-react';
+import {
+  EnvironmentState,
+  addEnvironment,
+  createEnvironment,
+  duplicateEnvironment,
+  removeEnvironment,
+  updateEnvironment
+} from '../lib/environments';
+import { findDuplicateKeys } from '../lib/keyValue';
+import KeyValueEditor from './KeyValueEditor';
+import AuthEditor from './AuthEditor';
+
+interface EnvironmentManagerProps {
+  state: EnvironmentState;
+  onChange: (state: EnvironmentState) => void;
+  onClose: () => void;
+}
+
+function EnvironmentManager({ state, onChange, onClose }: EnvironmentManagerProps) {
+  const selected = state.environments.find((env) => env.id === state.activeId) || null;
+
+  const promptName = (message: string, initial = '') => {
+    const name = window.prompt(message, initial);
+    return name && name.trim() ? name.trim() : null;
+  };
+
+  const add = () => {
+    const name = promptName('Environment name (e.g. Staging)');
+    if (name) onChange(addEnvironment(state, createEnvironment(name)));
+  };
+
+  const duplicate = () => {
+    if (!selected) return;
+    const name = promptName('Name for the copy', `${selected.name} copy`);
+    if (name) onChange(duplicateEnvironment(state, selected.id, name));
+  };
+
+  const remove = () => {
+    if (selected && window.confirm(`Delete the "${selected.name}" environment and its variables?`)) {
+      onChange(removeEnvironment(state, selected.id));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-30 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-700">Environments</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Environment list */}
+          <div className="w-48 border-r border-gray-200 p-3 flex flex-col">
+            <div className="flex-1 overflow-auto">
+              {state.environments.map((env) => (
+                <button
+                  key={env.id}
+                  type="button"
+                  onClick={() => onChange({ ...state, activeId: env.id })}
+                  className={`w-full text-left px-2 py-1 mb-1 rounded text-sm truncate ${
+                    env.id === state.activeId ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {env.name}
+                </button>
+              ))}
+            </div>
+            <button type="button" onClick={add} className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-800">
+              <Plus size={14} className="mr-1" />
+              New environment
+            </button>
+          </div>
+
+          {/* Variables of the selected environment */}
+          <div className="flex-1 p-6 overflow-auto">
+            {selected ? (
+              <>
+                <div className="flex items-center mb-4">
+                  <input
+                    type="text"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={selected.name}
+                    onChange={(e) => onChange(updateEnvironment(state, selected.id, { name: e.target.value }))}
+                  />
+                  <button type="button" onClick={duplicate} className="ml-2 p-2 text-gray-500 hover:text-blue-600" title="Duplicate">
+                    <Copy size={16} />
+                  </button>
+                  <button type="button" onClick={remove} className="p-2 text-gray-500 hover:text-red-600" title="Delete">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Variables</label>
+                <KeyValueEditor
+                  rows={selected.variables}
+                  onChange={(variables) => onChange(updateEnvironment(state, selected.id, { variables }))}
+                  duplicateKeys={findDuplicateKeys(selected.variables)}
+                  keyPlaceholder="Variable"
+                  valuePlaceholder="Value"
+                  addLabel="Add variable"
+                />
+                <p className="mt-4 text-xs text-gray-500">
+                  <code className="font-mono">baseUrl</code> is what the Base URL field loads and saves.
+                </p>
+                <label className="block text-sm font-medium text-gray-700 mt-6 mb-1">Auth</label>
+                <AuthEditor
+                  auth={selected.auth}
+                  onChange={(changes) => onChange(updateEnvironment(state, selected.id, { auth: { ...selected.auth, ...changes } }))}
+                />
+                <p className="mt-1 text-xs text-gray-500">Used by requests whose auth is set to inherit.</p>
+              </>
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-gray-500 text-sm">
+                <Globe size={24} className="mb-2 text-gray-300" />
+                Create an environment to hold a base URL and variables
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EnvironmentManager;
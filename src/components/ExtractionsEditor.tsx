@@ -0,0 +1,79 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  EXTRACTION_SOURCES,
+  ExtractionRule,
+  ExtractionSource,
+  createExtractionRule,
+  updateExtractionRule
+} from '../lib/extraction';
+
+interface ExtractionsEditorProps {
+  rules: ExtractionRule[];
+  onChange: (rules: ExtractionRule[]) => void;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function ExtractionsEditor({ rules, onChange }: ExtractionsEditorProps) {
+  const update = (id: string, changes: Partial<ExtractionRule>) => onChange(updateExtractionRule(rules, id, changes));
+
+  return (
+    <div>
+      {rules.map((rule) => (
+        <div key={rule.id} className={`flex items-center mb-2 ${rule.enabled ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={rule.enabled}
+            onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+            title={rule.enabled ? 'Disable' : 'Enable'}
+          />
+          <input
+            type="text"
+            className={`${inputClass} w-1/4 min-w-0 rounded-l-md font-mono`}
+            placeholder="variable"
+            value={rule.variable}
+            onChange={(e) => update(rule.id, { variable: e.target.value })}
+          />
+          <select
+            className={`${inputClass} border-l-0 bg-gray-50`}
+            value={rule.source}
+            onChange={(e) => {
+              const source = e.target.value as ExtractionSource;
+              update(rule.id, { source, expression: source === 'jsonPath' ? '$.' : '' });
+            }}
+          >
+            {EXTRACTION_SOURCES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className={`${inputClass} flex-1 min-w-0 border-l-0 rounded-r-md font-mono`}
+            placeholder={EXTRACTION_SOURCES.find((option) => option.value === rule.source)?.placeholder}
+            value={rule.expression}
+            onChange={(e) => update(rule.id, { expression: e.target.value })}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(rules.filter((other) => other.id !== rule.id))}
+            className="ml-1 p-1 text-gray-400 hover:text-red-600"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rules, createExtractionRule()])}
+        className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+      >
+        <Plus size={14} className="mr-1" />
+        Add extraction
+      </button>
+    </div>
+  );
+}
+
+export default ExtractionsEditor;
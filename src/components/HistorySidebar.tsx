@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Search, Play, Pencil, Trash2, X } from 'lucide-react';
+import { HistoryEntry, HistoryFilter, filterHistory } from '../lib/history';
+import { STATUS_CLASS_LABELS, StatusClass } from '../lib/status';
+import { formatDuration } from '../lib/response';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  getStatusCodeColor: (code: number | null) => string;
+  onRerun: (entry: HistoryEntry) => void;
+  onLoad: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const FILTERS: HistoryFilter[] = ['all', 'success', 'redirect', 'clientError', 'serverError', 'none'];
+
+function HistorySidebar({
+  entries,
+  getStatusCodeColor,
+  onRerun,
+  onLoad,
+  onDelete,
+  onClear,
+  onClose
+}: HistorySidebarProps) {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<HistoryFilter>('all');
+  const visible = filterHistory(entries, query, filter);
+
+  return (
+    <aside className="bg-white rounded-lg shadow-md p-4 flex flex-col max-h-[calc(100vh-8rem)]">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">History</h2>
+        <div className="flex items-center">
+          {entries.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm('Clear the whole request history?')) onClear();
+              }}
+              className="text-xs text-gray-500 hover:text-red-600 mr-3"
+            >
+              Clear
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative mb-2">
+        <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          className="w-full pl-7 pr-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Search URL, method, body"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {FILTERS.map((f) => (
+          <button
+            key={f}
+            type="button"
+            onClick={() => setFilter(f)}
+            className={`px-2 py-0.5 rounded-full text-xs border ${
+              filter === f ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {f === 'all' ? 'All' : STATUS_CLASS_LABELS[f as StatusClass]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-auto -mx-1">
+        {visible.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-8">
+            {entries.length === 0 ? 'Sent requests will show up here' : 'No matching requests'}
+          </div>
+        ) : (
+          visible.map((entry) => (
+            <div key={entry.id} className="group px-1 py-2 border-b border-gray-100 last:border-0">
+              <div className="flex items-center text-sm">
+                <span className="font-mono font-semibold text-gray-700 w-16 flex-shrink-0 truncate">
+                  {entry.request.method}
+                </span>
+                <span className="truncate text-gray-600" title={entry.fullUrl}>{entry.fullUrl}</span>
+              </div>
+              <div className="flex items-center justify-between mt-1 text-xs">
+                <div className="flex items-center text-gray-500">
+                  <span className={`font-mono font-bold mr-2 ${getStatusCodeColor(entry.status)}`}>
+                    {entry.status ?? 'ERR'}
+                  </span>
+                  {entry.durationMs !== null && <span className="mr-2">{formatDuration(entry.durationMs)}</span>}
+                  <span>{new Date(entry.sentAt).toLocaleTimeString()}</span>
+                </div>
+                <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button type="button" onClick={() => onRerun(entry)} className="p-1 text-gray-500 hover:text-blue-600" title="Re-run">
+                    <Play size={14} />
+                  </button>
+                  <button type="button" onClick={() => onLoad(entry)} className="p-1 text-gray-500 hover:text-blue-600" title="Load into form">
+                    <Pencil size={14} />
+                  </button>
+                  <button type="button" onClick={() => onDelete(entry.id)} className="p-1 text-gray-500 hover:text-red-600" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  );
+}
+
+export default HistorySidebar;
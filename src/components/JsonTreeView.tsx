@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, ChevronUp, Copy, Check } from 'lucide-react';
+import { formatJsonPath, queryJsonPath } from '../lib/jsonPath';
+import {
+  JsonNodeType,
+  JsonRow,
+  SEARCH_MATCH_LIMIT,
+  buildJsonRows,
+  collapseAll,
+  createJsonTreeState,
+  expandAll,
+  formatJsonValue,
+  revealPath,
+  searchJson,
+  toggleNode
+} from '../lib/jsonTree';
+
+interface JsonTreeViewProps {
+  value: unknown;
+}
+
+// Rows have a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 20;
+const OVERSCAN = 20;
+
+const VALUE_CLASSES: Record<JsonNodeType, string> = {
+  object: 'text-gray-500',
+  array: 'text-gray-500',
+  string: 'text-purple-600',
+  number: 'text-green-600',
+  boolean: 'text-blue-600',
+  null: 'text-gray-600'
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const summary = (row: JsonRow) =>
+  row.type === 'array'
+    ? `[…] ${row.size} ${row.size === 1 ? 'item' : 'items'}`
+    : `{…} ${row.size} ${row.size === 1 ? 'key' : 'keys'}`;
+
+// Collapsible JSON tree with search, JSONPath / jq filtering and copyable paths, virtualized for big bodies
+function JsonTreeView({ value }: JsonTreeViewProps) {
+  const [filter, setFilter] = useState('');
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(440);
+  const scroller = useRef<HTMLDivElement>(null);
+
+  // The filter picks the roots shown; without one the whole document is the only root
+  const { roots, filterError } = useMemo(() => {
+    if (!filter.trim()) return { roots: [{ path: [], value }], filterError: '' };
+    try {
+      return { roots: queryJsonPath(value, filter), filterError: '' };
+    } catch (e) {
+      return { roots: [{ path: [], value }], filterError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [value, filter]);
+
+  const [treeState, setTreeState] = useState(() => createJsonTreeState(roots));
+  useEffect(() => {
+    setTreeState(createJsonTreeState(roots));
+  }, [roots]);
+
+  const rows = useMemo(() => buildJsonRows(roots, treeState), [roots, treeState]);
+  const matches = useMemo(() => searchJson(roots, query), [roots, query]);
+  const matchIds = useMemo(() => new Set(matches.map(formatJsonPath)), [matches]);
+  const currentId = matches.length > 0 ? formatJsonPath(matches[Math.min(current, matches.length - 1)]) : null;
+
+  useEffect(() => {
+    if (scroller.current) setViewportHeight(scroller.current.clientHeight);
+  }, []);
+
+  // Keep the current match in view
+  useEffect(() => {
+    const container = scroller.current;
+    if (!container || currentId === null) return;
+    const index = rows.findIndex((row) => row.id === currentId);
+    if (index < 0) return;
+    const top = index * ROW_HEIGHT;
+    if (top < container.scrollTop || top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = Math.max(0, top - container.clientHeight / 2);
+    }
+  }, [currentId, rows]);
+
+  const goTo = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setCurrent(next);
+    setTreeState((prev) => revealPath(prev, matches[next]));
+  };
+
+  const changeQuery = (text: string) => {
+    setQuery(text);
+    setCurrent(0);
+    const first = searchJson(roots, text)[0];
+    if (first) setTreeState((prev) => revealPath(prev, first));
+  };
+
+  const copyPath = async (row: JsonRow) => {
+    await navigator.clipboard.writeText(formatJsonPath(row.path));
+    setCopiedId(row.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <input
+          type="text"
+          className={`${inputClass} flex-1 min-w-[8rem]`}
+          placeholder="Search keys and values"
+          value={query}
+          onChange={(e) => changeQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              goTo(e.shiftKey ? current - 1 : current + 1);
+            }
+          }}
+        />
+        {query.trim() && (
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {matches.length === 0
+              ? 'No matches'
+              : `${Math.min(current, matches.length - 1) + 1} / ${matches.length}${matches.length >= SEARCH_MATCH_LIMIT ? '+' : ''}`}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => goTo(current - 1)}
+          disabled={matches.length === 0}
+          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+          title="Previous match (Shift+Enter)"
+        >
+          <ChevronUp size={14} />
+        </button>
+        <button
+          type="button"
+          onClick={() => goTo(current + 1)}
+          disabled={matches.length === 0}
+          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+          title="Next match (Enter)"
+        >
+          <ChevronDown size={14} />
+        </button>
+        <input
+          type="text"
+          className={`${inputClass} flex-1 min-w-[8rem] ${filterError ? 'border-red-400' : ''}`}
+          placeholder="Filter: $.items[*].id or .items[].id"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          title={filterError || 'JSONPath or jq-style path; * and [] pick every item'}
+        />
+        <button type="button" onClick={() => setTreeState(expandAll())} className="text-xs text-blue-600 hover:text-blue-800">
+          Expand all
+        </button>
+        <button type="button" onClick={() => setTreeState(collapseAll())} className="text-xs text-blue-600 hover:text-blue-800">
+          Collapse all
+        </button>
+      </div>
+      {filterError && <div className="mb-2 text-xs text-red-600">{filterError}</div>}
+      {!filterError && roots.length === 0 ? (
+        <div className="text-gray-500 text-sm text-center py-8">Nothing matches {filter}</div>
+      ) : (
+        <div
+          ref={scroller}
+          className="flex-1 min-h-0 overflow-auto font-mono text-sm"
+          onScroll={(e) => {
+            setScrollTop(e.currentTarget.scrollTop);
+            setViewportHeight(e.currentTarget.clientHeight);
+          }}
+        >
+          <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+            <div style={{ transform: `translateY(${first * ROW_HEIGHT}px)` }}>
+              {rows.slice(first, last).map((row) => (
+                <div
+                  key={row.id}
+                  className={`group flex items-center whitespace-pre ${
+                    row.id === currentId ? 'bg-yellow-200' : matchIds.has(row.id) && !row.closing ? 'bg-yellow-50' : ''
+                  }`}
+                  style={{ height: ROW_HEIGHT, paddingLeft: row.depth * 16 }}
+                >
+                  {row.closing ? (
+                    <span className="ml-4 text-gray-500">{row.type === 'array' ? ']' : '}'}{row.last ? '' : ','}</span>
+                  ) : (
+                    <>
+                      {(row.type === 'object' || row.type === 'array') && row.size > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => setTreeState((prev) => toggleNode(prev, row))}
+                          className="w-4 flex-shrink-0 text-gray-400 hover:text-gray-700"
+                          title={row.collapsed ? 'Expand' : 'Collapse'}
+                        >
+                          {row.collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                        </button>
+                      ) : (
+                        <span className="w-4 flex-shrink-0" />
+                      )}
+                      {row.label !== null && (
+                        <span className={typeof row.label === 'number' ? 'text-gray-400' : 'text-red-600'}>
+                          {typeof row.label === 'number' ? row.label : JSON.stringify(row.label)}
+                          <span className="text-gray-500">: </span>
+                        </span>
+                      )}
+                      <span
+                        className={`truncate ${VALUE_CLASSES[row.type]}`}
+                        title={row.type === 'string' ? String(row.value).slice(0, 2000) : undefined}
+                      >
+                        {row.type === 'object' || row.type === 'array'
+                          ? row.collapsed || row.size === 0
+                            ? row.size === 0 ? (row.type === 'array' ? '[]' : '{}') : summary(row)
+                            : row.type === 'array' ? '[' : '{'
+                          : formatJsonValue(row.value)}
+                        {(row.collapsed || row.size === 0 || (row.type !== 'object' && row.type !== 'array')) && !row.last ? ',' : ''}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => copyPath(row)}
+                        className="ml-2 flex-shrink-0 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100"
+                        title={`Copy ${formatJsonPath(row.path)}`}
+                      >
+                        {copiedId === row.id ? <Check size={12} /> : <Copy size={12} />}
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default JsonTreeView;
@@ -0,0 +1,86 @@
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { KeyValueRow, createRow, updateRow, removeRow } from '../lib/keyValue';
+
+interface KeyValueEditorProps {
+  rows: KeyValueRow[];
+  onChange: (rows: KeyValueRow[]) => void;
+  duplicateKeys?: Set<string>;
+  caseInsensitive?: boolean;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  addLabel?: string;
+}
+
+function KeyValueEditor({
+  rows,
+  onChange,
+  duplicateKeys,
+  caseInsensitive = false,
+  keyPlaceholder = 'Key',
+  valuePlaceholder = 'Value',
+  addLabel = 'Add row'
+}: KeyValueEditorProps) {
+  const isDuplicate = (row: KeyValueRow) => {
+    if (!duplicateKeys || !row.enabled) return false;
+    const key = caseInsensitive ? row.key.trim().toLowerCase() : row.key.trim();
+    return duplicateKeys.has(key);
+  };
+
+  return (
+    <div>
+      {rows.map((row) => (
+        <div key={row.id} className="flex items-center mb-2">
+          <input
+            type="checkbox"
+            className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={row.enabled}
+            onChange={(e) => onChange(updateRow(rows, row.id, { enabled: e.target.checked }))}
+            title={row.enabled ? 'Disable' : 'Enable'}
+          />
+          <input
+            type="text"
+            className={`w-2/5 min-w-0 px-2 py-1 border rounded-l-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isDuplicate(row) ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+            } ${row.enabled ? '' : 'text-gray-400'}`}
+            placeholder={keyPlaceholder}
+            value={row.key}
+            onChange={(e) => onChange(updateRow(rows, row.id, { key: e.target.value }))}
+          />
+          <input
+            type="text"
+            className={`flex-1 min-w-0 px-2 py-1 border border-gray-300 border-l-0 rounded-r-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              row.enabled ? '' : 'text-gray-400'
+            }`}
+            placeholder={valuePlaceholder}
+            value={row.value}
+            onChange={(e) => onChange(updateRow(rows, row.id, { value: e.target.value }))}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(removeRow(rows, row.id))}
+            className="ml-1 p-1 text-gray-400 hover:text-red-600"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      {duplicateKeys && duplicateKeys.size > 0 && (
+        <div className="mb-2 flex items-center text-xs text-yellow-700">
+          <AlertTriangle size={12} className="mr-1" />
+          Duplicate keys: {Array.from(duplicateKeys).join(', ')} (the last one wins)
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, createRow()])}
+        className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+      >
+        <Plus size={14} className="mr-1" />
+        {addLabel}
+      </button>
+    </div>
+  );
+}
+
+export default KeyValueEditor;
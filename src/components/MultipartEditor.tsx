@@ -0,0 +1,101 @@
+import { Plus, Trash2, Paperclip } from 'lucide-react';
+import { MultipartField, createMultipartField, fileRefFromFile, hasFileData } from '../lib/body';
+import { updateRow, removeRow } from '../lib/keyValue';
+import { formatBytes } from '../lib/response';
+
+interface MultipartEditorProps {
+  fields: MultipartField[];
+  onChange: (fields: MultipartField[]) => void;
+}
+
+// Like KeyValueEditor, but each value is either text or a file
+function MultipartEditor({ fields, onChange }: MultipartEditorProps) {
+  return (
+    <div>
+      {fields.map((field) => (
+        <div key={field.id} className="flex items-center mb-2">
+          <input
+            type="checkbox"
+            className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={field.enabled}
+            onChange={(e) => onChange(updateRow(fields, field.id, { enabled: e.target.checked }))}
+            title={field.enabled ? 'Disable' : 'Enable'}
+          />
+          <input
+            type="text"
+            className={`w-1/3 min-w-0 px-2 py-1 border border-gray-300 rounded-l-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              field.enabled ? '' : 'text-gray-400'
+            }`}
+            placeholder="Field"
+            value={field.key}
+            onChange={(e) => onChange(updateRow(fields, field.id, { key: e.target.value }))}
+          />
+          <select
+            className="px-1 py-1 border border-gray-300 border-l-0 text-sm bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={field.kind}
+            onChange={(e) =>
+              onChange(updateRow(fields, field.id, { kind: e.target.value as MultipartField['kind'], value: '', file: null }))
+            }
+          >
+            <option value="text">Text</option>
+            <option value="file">File</option>
+          </select>
+          {field.kind === 'text' ? (
+            <input
+              type="text"
+              className={`flex-1 min-w-0 px-2 py-1 border border-gray-300 border-l-0 rounded-r-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                field.enabled ? '' : 'text-gray-400'
+              }`}
+              placeholder="Value"
+              value={field.value}
+              onChange={(e) => onChange(updateRow(fields, field.id, { value: e.target.value }))}
+            />
+          ) : (
+            <label
+              className={`flex-1 min-w-0 flex items-center px-2 py-1 border border-l-0 rounded-r-md text-sm cursor-pointer hover:bg-gray-50 ${
+                field.file && !hasFileData(field.file) ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+              }`}
+              title={field.file && !hasFileData(field.file) ? 'Choose this file again to send it' : undefined}
+            >
+              <Paperclip size={14} className="mr-1 flex-shrink-0 text-gray-500" />
+              <span className="truncate text-gray-700">
+                {field.file ? `${field.file.name} (${formatBytes(field.file.size)})` : 'Choose file'}
+              </span>
+              <input
+                type="file"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onChange(updateRow(fields, field.id, { file: fileRefFromFile(file) }));
+                }}
+              />
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(removeRow(fields, field.id))}
+            className="ml-1 p-1 text-gray-400 hover:text-red-600"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-4">
+        {(['text', 'file'] as const).map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => onChange([...fields, createMultipartField(kind)])}
+            className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+          >
+            <Plus size={14} className="mr-1" />
+            {kind === 'text' ? 'Add field' : 'Add file'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default MultipartEditor;
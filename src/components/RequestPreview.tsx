@@ -0,0 +1,43 @@
+import { PreparedRequest } from '../lib/request';
+import { describeBody } from '../lib/body';
+
+interface RequestPreviewProps {
+  request: PreparedRequest;
+}
+
+// The request exactly as it was sent, after variables were filled in
+function RequestPreview({ request }: RequestPreviewProps) {
+  const headerNames = Object.keys(request.headers);
+
+  return (
+    <div className="text-sm">
+      <div className="font-mono break-all mb-4">
+        <span className="font-bold text-gray-800 mr-2">{request.method}</span>
+        <span className="text-gray-700">{request.url}</span>
+      </div>
+      <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">Headers</h3>
+      {headerNames.length === 0 ? (
+        <div className="text-gray-500 mb-4">None</div>
+      ) : (
+        <table className="w-full mb-4">
+          <tbody>
+            {headerNames.map((name) => (
+              <tr key={name} className="border-b border-gray-200 last:border-0 align-top">
+                <td className="py-1 pr-4 font-mono font-medium text-gray-700 whitespace-nowrap">{name}</td>
+                <td className="py-1 font-mono text-gray-600 break-all">{request.headers[name]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">Body</h3>
+      {request.body ? (
+        <pre className="font-mono whitespace-pre-wrap text-gray-700">{describeBody(request.body)}</pre>
+      ) : (
+        <div className="text-gray-500">None</div>
+      )}
+    </div>
+  );
+}
+
+export default RequestPreview;
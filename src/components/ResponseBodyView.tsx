@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  HEX_VIEW_LIMIT,
+  ResponseBody,
+  bodyFileName,
+  formatResponseBody,
+  hexDump
+} from '../lib/responseBody';
+import { Token, TokenKind, highlightJson, highlightMarkup } from '../lib/highlight';
+import { formatBytes } from '../lib/response';
+import JsonTreeView from './JsonTreeView';
+
+interface ResponseBodyViewProps {
+  body: ResponseBody;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  key: 'text-red-600',
+  string: 'text-purple-600',
+  number: 'text-green-600',
+  boolean: 'text-blue-600',
+  null: 'text-gray-600',
+  tag: 'text-blue-700',
+  attribute: 'text-red-600',
+  value: 'text-purple-600',
+  comment: 'text-gray-400 italic',
+  plain: ''
+};
+
+// Highlighting a huge body freezes the tab; past this size it's shown plain
+const HIGHLIGHT_LIMIT = 512 * 1024;
+
+const Highlighted = ({ tokens }: { tokens: Token[] }) => (
+  <pre className="text-sm font-mono whitespace-pre-wrap break-all">
+    {tokens.map((token, index) =>
+      token.kind === 'plain' ? token.text : <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+    )}
+  </pre>
+);
+
+const toggleClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-md border text-xs ${
+    active ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+  }`;
+
+// Renders a response body by its type: a JSON tree, highlighted markup, HTML previews, inline images and a hex view
+function ResponseBodyView({ body }: ResponseBodyViewProps) {
+  const [raw, setRaw] = useState(false);
+  const [preview, setPreview] = useState(false);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  // Images and downloads need a URL for the bytes, released when the body changes
+  useEffect(() => {
+    if (body.kind !== 'image' && body.kind !== 'binary') return;
+    const url = URL.createObjectURL(new Blob([body.bytes], { type: body.contentType || 'application/octet-stream' }));
+    setObjectUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [body]);
+
+  // JSON goes to the tree when it parses; a body labelled JSON that doesn't falls back to text
+  const parsed = useMemo(() => {
+    if (body.kind !== 'json') return null;
+    try {
+      return { value: JSON.parse(body.text) as unknown };
+    } catch (e) {
+      return null;
+    }
+  }, [body]);
+
+  // Kinds that get reformatted or highlighted, so a raw view differs
+  const reformatted = body.kind === 'json' || body.kind === 'xml' || body.kind === 'html';
+
+  const content = () => {
+    if (body.kind === 'empty') {
+      return <div className="text-gray-500 text-center">No response body</div>;
+    }
+    if (body.kind === 'image') {
+      return objectUrl && <img src={objectUrl} alt="Response body" className="max-w-full border border-gray-200 bg-white" />;
+    }
+    if (body.kind === 'binary') {
+      return (
+        <>
+          {body.bytes.length > HEX_VIEW_LIMIT && (
+            <div className="mb-2 text-xs text-gray-500">Showing the first {formatBytes(HEX_VIEW_LIMIT)}</div>
+          )}
+          <pre className="text-xs font-mono whitespace-pre text-gray-700">{hexDump(body.bytes)}</pre>
+        </>
+      );
+    }
+    if (body.kind === 'html' && preview) {
+      // No allow-* flags: the page can't run scripts, submit forms or reach this app
+      return <iframe title="HTML preview" sandbox="" srcDoc={body.text} className="w-full h-full min-h-[440px] bg-white border border-gray-200" />;
+    }
+    if (parsed && !raw) {
+      return <JsonTreeView value={parsed.value} />;
+    }
+    const text = raw ? body.text : formatResponseBody(body);
+    if (raw || text.length > HIGHLIGHT_LIMIT || body.kind === 'text') {
+      return <pre className="text-sm font-mono whitespace-pre-wrap break-all">{text}</pre>;
+    }
+    return <Highlighted tokens={body.kind === 'json' ? highlightJson(text) : highlightMarkup(text)} />;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {body.kind !== 'empty' && (
+        <div className="flex items-center gap-2 mb-2 text-xs text-gray-500">
+          <span className="font-mono">{body.contentType || 'no Content-Type'}</span>
+          <div className="ml-auto flex items-center gap-2">
+            {body.kind === 'html' && (
+              <button type="button" onClick={() => setPreview(!preview)} className={toggleClass(preview)}>
+                Preview
+              </button>
+            )}
+            {reformatted && !(body.kind === 'html' && preview) && (
+              <button
+                type="button"
+                onClick={() => setRaw(!raw)}
+                className={toggleClass(raw)}
+                title="Show the body exactly as it arrived"
+              >
+                Raw
+              </button>
+            )}
+            {objectUrl && (
+              <a href={objectUrl} download={bodyFileName(body)} className="flex items-center text-blue-600 hover:text-blue-800">
+                <Download size={14} className="mr-1" />
+                Download {formatBytes(body.bytes.length)}
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+      <div className="flex-1 min-h-0">{content()}</div>
+    </div>
+  );
+}
+
+export default ResponseBodyView;
@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import { X, GitCompare, Square } from 'lucide-react';
+import { Environment } from '../lib/environments';
+import { HistoryEntry, diffableResponse, isResponseTruncated } from '../lib/history';
+import { formatJsonPath } from '../lib/jsonPath';
+import {
+  DEFAULT_DIFF_OPTIONS,
+  JsonDiffKind,
+  diffJson,
+  formatDiffValue,
+  parseDiffDocument,
+  parseIgnoreList,
+  summarizeDiff
+} from '../lib/jsonDiff';
+
+interface ResponseDiffDialogProps {
+  history: HistoryEntry[];
+  environments: Environment[];
+  // The body on screen, if any
+  currentResponse: string | null;
+  // Sends the form to another environment and resolves with the response body
+  sendToEnvironment: (envId: string, signal: AbortSignal) => Promise<string>;
+  onClose: () => void;
+}
+
+interface DiffSide {
+  label: string;
+  value: unknown;
+}
+
+const KIND_CLASSES: Record<JsonDiffKind, string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  changed: 'bg-yellow-50'
+};
+
+const KIND_LABELS: Record<JsonDiffKind, string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700',
+  changed: 'text-yellow-700'
+};
+
+const selectClass =
+  'block w-full bg-white border border-gray-300 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const historyLabel = (entry: HistoryEntry) =>
+  `${entry.request.method} ${entry.fullUrl} · ${entry.status ?? 'error'} · ${new Date(entry.sentAt).toLocaleTimeString()}`;
+
+// Sources are 'current', 'env:<id>' or 'history:<id>'
+const defaultSources = (environments: Environment[], history: HistoryEntry[], hasCurrent: boolean) => {
+  if (environments.length >= 2) return [`env:${environments[0].id}`, `env:${environments[1].id}`];
+  const right = hasCurrent ? 'current' : history[0] ? `history:${history[0].id}` : '';
+  const left = history.find((entry) => `history:${entry.id}` !== right);
+  return [left ? `history:${left.id}` : '', right];
+};
+
+// Compares two JSON responses, from history or sent to two environments, ignoring key order
+function ResponseDiffDialog({ history, environments, currentResponse, sendToEnvironment, onClose }: ResponseDiffDialogProps) {
+  const [sources, setSources] = useState(() => defaultSources(environments, history, currentResponse !== null));
+  const [ignoreVolatile, setIgnoreVolatile] = useState(DEFAULT_DIFF_OPTIONS.ignoreVolatile);
+  const [ignoreText, setIgnoreText] = useState('');
+  const [sides, setSides] = useState<[DiffSide, DiffSide] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  // Set while requests to environments are out, to cancel them
+  const [controller, setController] = useState<AbortController | null>(null);
+  const loading = controller !== null;
+
+  const load = async (source: string, signal: AbortSignal): Promise<DiffSide> => {
+    const [kind, id] = source.split(/:(.*)/);
+    if (kind === 'current') {
+      return { label: 'Current response', value: parseDiffDocument(currentResponse || '') };
+    }
+    if (kind === 'env') {
+      const env = environments.find((item) => item.id === id);
+      if (!env) throw new Error('That environment no longer exists');
+      return { label: env.name, value: parseDiffDocument(await sendToEnvironment(env.id, signal)) };
+    }
+    const entry = history.find((item) => item.id === id);
+    if (!entry) throw new Error('Pick a response to compare');
+    if (entry.error) throw new Error(entry.error);
+    return { label: historyLabel(entry), value: parseDiffDocument(diffableResponse(entry), isResponseTruncated(entry)) };
+  };
+
+  const compare = async () => {
+    const next = new AbortController();
+    setController(next);
+    setSides(null);
+    setErrors([]);
+    try {
+      const results = await Promise.allSettled(sources.map((source) => load(source, next.signal)));
+      const failures = results.map((result, index) =>
+        result.status === 'rejected'
+          ? `${index === 0 ? 'Left' : 'Right'}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`
+          : ''
+      );
+      if (results[0].status === 'fulfilled' && results[1].status === 'fulfilled') {
+        setSides([results[0].value, results[1].value]);
+      }
+      setErrors(failures.filter((failure) => failure));
+    } finally {
+      setController(null);
+    }
+  };
+
+  // Recomputed as the ignore settings change, without sending again
+  const diff = useMemo(() => {
+    if (!sides) return null;
+    try {
+      return { entries: diffJson(sides[0].value, sides[1].value, { ignoreVolatile, ignore: parseIgnoreList(ignoreText) }), error: '' };
+    } catch (e) {
+      return { entries: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [sides, ignoreVolatile, ignoreText]);
+  const counts = diff ? summarizeDiff(diff.entries) : null;
+
+  const close = () => {
+    if (!loading) onClose();
+  };
+
+  const sourceSelect = (index: number) => (
+    <select
+      className={selectClass}
+      value={sources[index]}
+      disabled={loading}
+      onChange={(e) => setSources(sources.map((source, i) => (i === index ? e.target.value : source)))}
+    >
+      <option value="" disabled>
+        Pick a response
+      </option>
+      {currentResponse !== null && <option value="current">Current response</option>}
+      {environments.length > 0 && (
+        <optgroup label="Send the current request to">
+          {environments.map((env) => (
+            <option key={env.id} value={`env:${env.id}`}>
+              {env.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {history.length > 0 && (
+        <optgroup label="History">
+          {history.map((entry) => (
+            <option key={entry.id} value={`history:${entry.id}`}>
+              {historyLabel(entry)}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-30 flex items-center justify-center p-4" onClick={close}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-700">Compare responses</h2>
+          <button
+            type="button"
+            onClick={close}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-700 disabled:opacity-50"
+            title={loading ? 'Cancel the comparison first' : 'Close'}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200 space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-gray-700">
+              Left
+              <div className="mt-1">{sourceSelect(0)}</div>
+            </label>
+            <label className="block text-gray-700">
+              Right
+              <div className="mt-1">{sourceSelect(1)}</div>
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                checked={ignoreVolatile}
+                onChange={(e) => setIgnoreVolatile(e.target.checked)}
+              />
+              Ignore ids and timestamps
+            </label>
+            <input
+              type="text"
+              className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Also ignore: keys or paths, comma separated (version, $.meta, .items[].etag)"
+              value={ignoreText}
+              onChange={(e) => setIgnoreText(e.target.value)}
+            />
+            {controller ? (
+              <button
+                type="button"
+                onClick={() => controller.abort()}
+                className="flex items-center px-4 py-2 text-white bg-red-600 rounded-md hover:bg-red-700"
+              >
+                <Square size={16} className="mr-1" />
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={compare}
+                disabled={!sources[0] || !sources[1]}
+                className="flex items-center px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                <GitCompare size={16} className="mr-1" />
+                Compare
+              </button>
+            )}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="px-6 py-3 border-b border-gray-200 text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <div key={error}>{error}</div>
+            ))}
+          </div>
+        )}
+        {diff?.error && <div className="px-6 py-3 border-b border-gray-200 text-sm text-red-600">{diff.error}</div>}
+        {counts && !diff?.error && (
+          <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+            <span className="text-green-600">{counts.added} added</span>
+            <span className="text-red-600">{counts.removed} removed</span>
+            <span className="text-yellow-600">{counts.changed} changed</span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {sides && diff && !diff.error && diff.entries.length === 0 && (
+            <div className="px-6 py-8 text-center text-gray-500 text-sm">No differences</div>
+          )}
+          {sides && diff && diff.entries.length > 0 && (
+            <table className="w-full text-sm table-fixed">
+              <thead className="sticky top-0 bg-gray-50 text-left text-gray-500">
+                <tr>
+                  <th className="px-6 py-2 font-medium w-1/4">Path</th>
+                  <th className="px-2 py-2 font-medium truncate" title={sides[0].label}>{sides[0].label}</th>
+                  <th className="px-2 py-2 font-medium truncate" title={sides[1].label}>{sides[1].label}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.entries.map((entry) => {
+                  const path = formatJsonPath(entry.path);
+                  return (
+                    <tr key={path} className={`border-t border-gray-100 align-top ${KIND_CLASSES[entry.kind]}`}>
+                      <td className="px-6 py-1.5 font-mono text-xs break-all">
+                        {path}
+                        <div className={`font-sans ${KIND_LABELS[entry.kind]}`}>{entry.kind}</div>
+                      </td>
+                      <td className="px-2 py-1.5 font-mono text-xs break-all text-gray-800">{formatDiffValue(entry.before)}</td>
+                      <td className="px-2 py-1.5 font-mono text-xs break-all text-gray-800">{formatDiffValue(entry.after)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ResponseDiffDialog;
@@ -0,0 +1,50 @@
+import { Info } from 'lucide-react';
+import { getHeaderGroup } from '../lib/response';
+
+interface ResponseHeadersTableProps {
+  headers: Record<string, string>;
+}
+
+const groupColors: Record<string, string> = {
+  Caching: 'bg-blue-50 text-blue-700',
+  CORS: 'bg-purple-50 text-purple-700',
+  Cookies: 'bg-yellow-50 text-yellow-700',
+};
+
+function ResponseHeadersTable({ headers }: ResponseHeadersTableProps) {
+  const names = Object.keys(headers).sort();
+
+  return (
+    <div>
+      {names.length === 0 ? (
+        <div className="text-gray-500 text-sm">No headers were exposed to the browser</div>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {names.map((name) => {
+              const group = getHeaderGroup(name);
+              return (
+                <tr key={name} className="border-b border-gray-200 last:border-0 align-top">
+                  <td className="py-1 pr-4 font-mono font-medium text-gray-700 whitespace-nowrap">
+                    {name}
+                    {group && (
+                      <span className={`ml-2 px-1 rounded text-xs font-sans ${groupColors[group]}`}>{group}</span>
+                    )}
+                  </td>
+                  <td className="py-1 font-mono text-gray-600 break-all">{headers[name]}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <div className="mt-4 flex items-start text-xs text-gray-500">
+        <Info size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+        Browsers only expose CORS-safelisted headers and those named in Access-Control-Expose-Headers.
+        Set-Cookie is never readable from a web page.
+      </div>
+    </div>
+  );
+}
+
+export default ResponseHeadersTable;
@@ -0,0 +1,109 @@
+import { RETRYABLE_STATUSES, RetryPolicy } from '../lib/retry';
+
+interface RetryEditorProps {
+  policy: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+const checkboxClass = 'h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded';
+const numberClass = 'mx-1 w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function RetryEditor({ policy, onChange }: RetryEditorProps) {
+  const update = (changes: Partial<RetryPolicy>) => onChange({ ...policy, ...changes });
+  const toggleStatus = (status: number) =>
+    update({
+      statuses: policy.statuses.includes(status)
+        ? policy.statuses.filter((other) => other !== status)
+        : [...policy.statuses, status].sort((a, b) => a - b)
+    });
+
+  return (
+    <div className="text-sm text-gray-700">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className={checkboxClass}
+          checked={policy.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        Retry flaky responses
+      </label>
+      {policy.enabled && (
+        <div className="mt-2 ml-6">
+          <div className="flex flex-wrap items-center gap-y-1">
+            Up to
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className={numberClass}
+              value={policy.maxAttempts}
+              onChange={(e) => update({ maxAttempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+            attempts, waiting
+            <input
+              type="number"
+              min={0}
+              step={100}
+              className={numberClass}
+              value={policy.baseDelayMs}
+              onChange={(e) => update({ baseDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            ms doubling to
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              className={numberClass}
+              value={policy.maxDelayMs}
+              onChange={(e) => update({ maxDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            ms
+          </div>
+          <div className="mt-2 flex flex-wrap items-center gap-1">
+            <span className="mr-1">On</span>
+            {RETRYABLE_STATUSES.map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => toggleStatus(status)}
+                className={`px-2 py-0.5 rounded-full border font-mono text-xs ${
+                  policy.statuses.includes(status)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-x-4">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className={checkboxClass}
+                checked={policy.retryNetworkErrors}
+                onChange={(e) => update({ retryNetworkErrors: e.target.checked })}
+              />
+              Network errors
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className={checkboxClass}
+                checked={policy.retryTimeouts}
+                onChange={(e) => update({ retryTimeouts: e.target.checked })}
+              />
+              Timeouts
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Waits are jittered, and a Retry-After header from the server sets the wait instead.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RetryEditor;
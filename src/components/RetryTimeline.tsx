@@ -0,0 +1,44 @@
+import { RetryAttempt } from '../lib/retry';
+import { formatDuration } from '../lib/response';
+import { getStatusClass } from '../lib/status';
+
+interface RetryTimelineProps {
+  attempts: RetryAttempt[];
+}
+
+const STATUS_COLORS = {
+  none: 'text-gray-500',
+  success: 'text-green-600',
+  redirect: 'text-blue-600',
+  clientError: 'text-yellow-600',
+  serverError: 'text-red-600'
+};
+
+// Every attempt of a retried request, with the waits between them
+function RetryTimeline({ attempts }: RetryTimelineProps) {
+  return (
+    <ol className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
+      {attempts.map((attempt) => (
+        <li key={attempt.attempt} className="flex items-center">
+          <span
+            className="flex items-center px-2 py-0.5 bg-gray-50 border border-gray-200 rounded-md"
+            title={attempt.error}
+          >
+            <span className="text-gray-400 mr-1">#{attempt.attempt}</span>
+            <span className={`font-mono font-semibold ${STATUS_COLORS[getStatusClass(attempt.status)]}`}>
+              {attempt.status ?? 'Error'}
+            </span>
+            <span className="ml-1 text-gray-500">{formatDuration(attempt.durationMs)}</span>
+          </span>
+          {attempt.delayMs !== null && (
+            <span className="ml-2 text-gray-400">
+              → wait {formatDuration(attempt.delayMs)}{attempt.retryAfter ? ' (Retry-After)' : ''} →
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default RetryTimeline;
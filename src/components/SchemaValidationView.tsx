@@ -0,0 +1,60 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { ResponseValidation } from '../lib/schema';
+
+interface SchemaValidationViewProps {
+  validation: ResponseValidation;
+}
+
+// How the last response measured up to its schema
+function SchemaValidationView({ validation }: SchemaValidationViewProps) {
+  const { source, undeclaredStatus, checked, violations, error } = validation;
+
+  return (
+    <div className="text-sm">
+      <div className="text-xs text-gray-500 mb-3">Checked against {source}</div>
+      {error && (
+        <div className="flex items-center text-red-600">
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+      {undeclaredStatus && (
+        <div className="mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 flex items-center">
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          The spec doesn't declare this status{undeclaredStatus.length > 0 ? `; it lists ${undeclaredStatus.join(', ')}` : ''}.
+        </div>
+      )}
+      {!error && !undeclaredStatus && !checked && (
+        <div className="text-gray-500">The spec gives no JSON body schema for this status.</div>
+      )}
+      {checked && violations.length === 0 && (
+        <div className="flex items-center text-green-600">
+          <CheckCircle size={14} className="mr-1" />
+          The body matches the schema.
+        </div>
+      )}
+      {violations.length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-xs uppercase text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-4 font-semibold">Path</th>
+              <th className="py-1 pr-4 font-semibold">Expected</th>
+              <th className="py-1 font-semibold">Actual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {violations.map((violation, index) => (
+              <tr key={index} className="border-b border-gray-200 last:border-0 align-top">
+                <td className="py-1 pr-4 font-mono text-gray-800 break-all">{violation.path}</td>
+                <td className="py-1 pr-4 text-gray-700">{violation.expected}</td>
+                <td className="py-1 font-mono text-red-600 break-all">{violation.actual}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default SchemaValidationView;
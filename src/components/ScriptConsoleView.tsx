@@ -0,0 +1,28 @@
+import { ScriptLog } from '../lib/scripts';
+
+interface ScriptConsoleViewProps {
+  logs: ScriptLog[];
+}
+
+const LEVEL_CLASSES: Record<ScriptLog['level'], string> = {
+  log: 'text-gray-800',
+  info: 'text-blue-700',
+  warn: 'text-yellow-700 bg-yellow-50',
+  error: 'text-red-600 bg-red-50',
+};
+
+// Console output and errors from the last send's pre-request and post-response scripts
+function ScriptConsoleView({ logs }: ScriptConsoleViewProps) {
+  return (
+    <ul className="font-mono text-xs">
+      {logs.map((log, index) => (
+        <li key={index} className={`flex items-start px-1 py-1 border-b border-gray-200 last:border-0 ${LEVEL_CLASSES[log.level]}`}>
+          <span className="w-10 flex-shrink-0 text-gray-400">{log.phase}</span>
+          <span className="whitespace-pre-wrap break-all">{log.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default ScriptConsoleView;
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+
+interface SecretInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Text input that hides its value until the eye button is pressed
+function SecretInput({ value, onChange, placeholder, className = 'border-gray-300' }: SecretInputProps) {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <div className="relative">
+      <input
+        type={visible ? 'text' : 'password'}
+        autoComplete="off"
+        className={`w-full px-3 py-2 pr-9 border ${className} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      <button
+        type="button"
+        onClick={() => setVisible(!visible)}
+        className="absolute inset-y-0 right-0 px-2 flex items-center text-gray-400 hover:text-gray-700"
+        title={visible ? 'Hide' : 'Show'}
+      >
+        {visible ? <EyeOff size={16} /> : <Eye size={16} />}
+      </button>
+    </div>
+  );
+}
+
+export default SecretInput;
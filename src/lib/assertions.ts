@@ -0,0 +1,205 @@
+import { createId } from './id';
+import { getHeader } from './headers';
+import { lazyJsonBody, readJsonPath } from './jsonPath';
+import { describeValue } from './schema';
+
+// Checks saved with a request and run against each response it gets
+export type AssertionSource = 'status' | 'header' | 'jsonPath' | 'responseTime';
+
+export type AssertionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'exists'
+  | 'notExists'
+  | 'lessThan'
+  | 'greaterThan'
+  | 'matches';
+
+export interface Assertion {
+  id: string;
+  enabled: boolean;
+  source: AssertionSource;
+  // The header name or JSON path; unused for status and response time
+  property: string;
+  operator: AssertionOperator;
+  expected: string;
+}
+
+export interface AssertionResult {
+  id: string;
+  // As read in the results list, e.g. "$.total > 0"
+  description: string;
+  passed: boolean;
+  actual: string;
+  // Why the assertion couldn't be evaluated, such as a bad path or regex
+  error?: string;
+}
+
+// What the assertions look at
+export interface AssertionSubject {
+  status: number;
+  headers: Record<string, string>;
+  text: string;
+  durationMs: number;
+}
+
+export const ASSERTION_SOURCES: { value: AssertionSource; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'header', label: 'Header' },
+  { value: 'jsonPath', label: 'JSON path' },
+  { value: 'responseTime', label: 'Response time' },
+];
+
+export const OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  contains: 'contains',
+  notContains: "doesn't contain",
+  exists: 'exists',
+  notExists: "doesn't exist",
+  lessThan: '<',
+  greaterThan: '>',
+  matches: 'matches',
+};
+
+// The operators that make sense for each source, the first being the default
+export const SOURCE_OPERATORS: Record<AssertionSource, AssertionOperator[]> = {
+  status: ['equals', 'notEquals', 'lessThan', 'greaterThan'],
+  header: ['contains', 'notContains', 'equals', 'notEquals', 'exists', 'notExists', 'matches'],
+  jsonPath: ['exists', 'notExists', 'equals', 'notEquals', 'contains', 'notContains', 'lessThan', 'greaterThan', 'matches'],
+  responseTime: ['lessThan', 'greaterThan'],
+};
+
+export const operatorTakesValue = (operator: AssertionOperator) => operator !== 'exists' && operator !== 'notExists';
+
+export const sourceTakesProperty = (source: AssertionSource) => source === 'header' || source === 'jsonPath';
+
+export const createAssertion = (source: AssertionSource = 'status'): Assertion => ({
+  id: createId(),
+  enabled: true,
+  source,
+  property: source === 'jsonPath' ? '$.' : '',
+  operator: SOURCE_OPERATORS[source][0],
+  expected: source === 'status' ? '200' : source === 'responseTime' ? '500' : '',
+});
+
+// Switching source keeps the operator only when the new source supports it
+export const changeAssertionSource = (assertion: Assertion, source: AssertionSource): Assertion => {
+  const fresh = createAssertion(source);
+  return {
+    ...fresh,
+    id: assertion.id,
+    enabled: assertion.enabled,
+    operator: SOURCE_OPERATORS[source].includes(assertion.operator) ? assertion.operator : fresh.operator,
+  };
+};
+
+export const updateAssertion = (assertions: Assertion[], id: string, changes: Partial<Assertion>) =>
+  assertions.map((assertion) => (assertion.id === id ? { ...assertion, ...changes } : assertion));
+
+export const describeAssertion = (assertion: Assertion) => {
+  const subject = {
+    status: 'status',
+    header: `header ${assertion.property.trim()}`,
+    jsonPath: assertion.property.trim() || '$',
+    responseTime: 'response time',
+  }[assertion.source];
+  const operator = OPERATOR_LABELS[assertion.operator];
+  if (!operatorTakesValue(assertion.operator)) return `${subject} ${operator}`;
+  const unit = assertion.source === 'responseTime' ? ' ms' : '';
+  return `${subject} ${operator} ${assertion.expected}${unit}`;
+};
+
+// Numbers compare as numbers, so "$.total > 9" holds for 10
+const toNumber = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+// An expected value typed as JSON (42, true, "x", [1]) compares by value; anything else compares as text
+const sameValue = (actual: unknown, expected: string) => {
+  try {
+    if (JSON.stringify(JSON.parse(expected)) === JSON.stringify(actual)) return true;
+  } catch (e) {
+    // Not JSON, so compare as text
+  }
+  return typeof actual === 'string' ? actual === expected : JSON.stringify(actual) === expected;
+};
+
+const contains = (actual: unknown, expected: string) => {
+  if (Array.isArray(actual)) return actual.some((item) => sameValue(item, expected));
+  if (typeof actual === 'string') return actual.includes(expected);
+  return actual !== undefined && JSON.stringify(actual).includes(expected);
+};
+
+const compare = (operator: AssertionOperator, found: boolean, actual: unknown, expected: string): boolean => {
+  switch (operator) {
+    case 'exists':
+      return found;
+    case 'notExists':
+      return !found;
+    case 'equals':
+      return found && sameValue(actual, expected);
+    case 'notEquals':
+      return !found || !sameValue(actual, expected);
+    case 'contains':
+      return found && contains(actual, expected);
+    case 'notContains':
+      return !found || !contains(actual, expected);
+    case 'lessThan':
+    case 'greaterThan': {
+      const limit = toNumber(expected);
+      if (limit === null) throw new Error(`"${expected}" isn't a number`);
+      const value = toNumber(actual);
+      if (value === null) return false;
+      return operator === 'lessThan' ? value < limit : value > limit;
+    }
+    case 'matches': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(expected);
+      } catch (e) {
+        throw new Error(`Invalid regular expression: ${expected}`);
+      }
+      return found && pattern.test(typeof actual === 'string' ? actual : JSON.stringify(actual));
+    }
+  }
+};
+
+// Reads what an assertion looks at; found is false for a missing header or path
+const readSubject = (assertion: Assertion, subject: AssertionSubject, body: () => unknown) => {
+  switch (assertion.source) {
+    case 'status':
+      return { found: true, value: subject.status };
+    case 'responseTime':
+      return { found: true, value: Math.round(subject.durationMs) };
+    case 'header': {
+      const value = getHeader(subject.headers, assertion.property.trim());
+      return value === undefined ? { found: false, value: undefined } : { found: true, value };
+    }
+    case 'jsonPath':
+      return readJsonPath(body(), assertion.property);
+  }
+};
+
+export const runAssertion = (assertion: Assertion, subject: AssertionSubject, body: () => unknown): AssertionResult => {
+  const description = describeAssertion(assertion);
+  try {
+    const { found, value } = readSubject(assertion, subject, body);
+    const actual =
+      assertion.source === 'responseTime' ? `${String(value)} ms` : assertion.source === 'header' && found ? String(value) : describeValue(value);
+    return { id: assertion.id, description, passed: compare(assertion.operator, found, value, assertion.expected), actual };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return { id: assertion.id, description, passed: false, actual: '', error };
+  }
+};
+
+// Runs the enabled assertions in order; the body is parsed only if a JSON path needs it
+export const runAssertions = (assertions: Assertion[], subject: AssertionSubject): AssertionResult[] => {
+  const body = lazyJsonBody(subject.text);
+  return assertions.filter((assertion) => assertion.enabled).map((assertion) => runAssertion(assertion, subject, body));
+};
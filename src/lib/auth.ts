@@ -0,0 +1,191 @@
+import { getHeader } from './headers';
+import { toBase64 } from './encoding';
+import { parseQuery, splitUrl } from './query';
+import { buildDigestAuthorization, parseDigestChallenge } from './digest';
+import { OAuthGrantType, TokenCache, ensureToken, tokenCacheKey } from './oauth';
+import { ExecuteOptions, ExecutedResponse, PreparedRequest } from './request';
+
+export type AuthType = 'inherit' | 'none' | 'bearer' | 'basic' | 'apiKey' | 'digest' | 'oauth2';
+
+// Settings for every scheme are kept side by side, so switching type doesn't lose what was typed
+export interface AuthConfig {
+  type: AuthType;
+  token: string;
+  username: string;
+  password: string;
+  apiKeyName: string;
+  apiKeyValue: string;
+  apiKeyIn: 'header' | 'query';
+  // OAuth 2.0; the password grant uses username and password too
+  grantType: OAuthGrantType;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+}
+
+export interface AuthProvider {
+  label: string;
+  // The config fields this scheme sends, for templating and unresolved-variable checks
+  fields: (auth: AuthConfig) => string[];
+  // Adds credentials before the request goes out
+  apply: (request: PreparedRequest, auth: AuthConfig) => PreparedRequest;
+  // Credentials that have to be fetched first, such as OAuth tokens; runs after apply, right before sending
+  authorize?: (
+    request: PreparedRequest,
+    auth: AuthConfig,
+    tokens: TokenCache,
+    options: ExecuteOptions
+  ) => Promise<{ request: PreparedRequest; tokens: TokenCache }>;
+  // What authorize would add, from cached credentials only, for previews that can't wait on the network
+  preview?: (request: PreparedRequest, auth: AuthConfig, tokens: TokenCache) => PreparedRequest;
+  // Answers a 401 challenge with the request to send again, or null to keep the response
+  answerChallenge?: (request: PreparedRequest, auth: AuthConfig, response: ExecutedResponse) => Promise<PreparedRequest | null>;
+}
+
+export const createAuth = (type: AuthType = 'inherit'): AuthConfig => ({
+  type,
+  token: '',
+  username: '',
+  password: '',
+  apiKeyName: 'X-API-Key',
+  apiKeyValue: '',
+  apiKeyIn: 'header',
+  grantType: 'client_credentials',
+  tokenUrl: '',
+  clientId: '',
+  clientSecret: '',
+  scope: '',
+});
+
+// A header typed in the editor wins over the auth settings
+const withHeader = (request: PreparedRequest, name: string, value: string): PreparedRequest =>
+  getHeader(request.headers, name) !== undefined
+    ? request
+    : { ...request, headers: { ...request.headers, [name]: value } };
+
+const withQueryParam = (request: PreparedRequest, name: string, value: string): PreparedRequest => {
+  if (parseQuery(splitUrl(request.url).query).some((row) => row.key === name)) return request;
+  const separator = request.url.includes('?') ? '&' : '?';
+  return { ...request, url: `${request.url}${separator}${encodeURIComponent(name)}=${encodeURIComponent(value)}` };
+};
+
+// Path and query of an absolute URL, as Digest signs it
+const requestUri = (url: string) => {
+  const origin = url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i);
+  return (origin ? url.slice(origin[0].length) : url) || '/';
+};
+
+const unchanged = (request: PreparedRequest) => request;
+
+// One entry per scheme; adding a scheme means adding an entry here and its fields to AuthConfig
+export const AUTH_PROVIDERS: Record<AuthType, AuthProvider> = {
+  inherit: { label: 'Inherit from environment', fields: () => [], apply: unchanged },
+  none: { label: 'No auth', fields: () => [], apply: unchanged },
+  bearer: {
+    label: 'Bearer token',
+    fields: (auth) => [auth.token],
+    apply: (request, auth) => (auth.token ? withHeader(request, 'Authorization', `Bearer ${auth.token}`) : request),
+  },
+  basic: {
+    label: 'Basic',
+    fields: (auth) => [auth.username, auth.password],
+    apply: (request, auth) =>
+      auth.username || auth.password
+        ? withHeader(request, 'Authorization', `Basic ${toBase64(`${auth.username}:${auth.password}`)}`)
+        : request,
+  },
+  apiKey: {
+    label: 'API key',
+    fields: (auth) => [auth.apiKeyName, auth.apiKeyValue],
+    apply: (request, auth) => {
+      const name = auth.apiKeyName.trim();
+      if (!name) return request;
+      return auth.apiKeyIn === 'query'
+        ? withQueryParam(request, name, auth.apiKeyValue)
+        : withHeader(request, name, auth.apiKeyValue);
+    },
+  },
+  digest: {
+    label: 'Digest',
+    fields: (auth) => [auth.username, auth.password],
+    // Digest needs the server's nonce, so the first request goes out without credentials
+    apply: unchanged,
+    answerChallenge: async (request, auth, response) => {
+      const header = getHeader(response.meta.headers, 'WWW-Authenticate');
+      const challenge = header ? parseDigestChallenge(header) : null;
+      if (!challenge || getHeader(request.headers, 'Authorization') !== undefined) return null;
+      const authorization = await buildDigestAuthorization(challenge, auth, request.method, requestUri(request.url));
+      return { ...request, headers: { ...request.headers, Authorization: authorization } };
+    },
+  },
+  oauth2: {
+    label: 'OAuth 2.0',
+    fields: (auth) => [
+      auth.tokenUrl,
+      auth.clientId,
+      auth.clientSecret,
+      auth.scope,
+      ...(auth.grantType === 'password' ? [auth.username, auth.password] : []),
+    ],
+    apply: unchanged,
+    authorize: async (request, auth, tokens, options) => {
+      if (getHeader(request.headers, 'Authorization') !== undefined) return { request, tokens };
+      const ensured = await ensureToken(auth, tokens, options);
+      return {
+        request: withHeader(request, 'Authorization', `${ensured.token.tokenType} ${ensured.token.accessToken}`),
+        tokens: ensured.tokens,
+      };
+    },
+    preview: (request, auth, tokens) => {
+      const token = tokens[tokenCacheKey(auth)];
+      return withHeader(
+        request,
+        'Authorization',
+        token ? `${token.tokenType} ${token.accessToken}` : 'Bearer <token fetched when sending>'
+      );
+    },
+  },
+};
+
+export const AUTH_TYPES = Object.keys(AUTH_PROVIDERS) as AuthType[];
+
+// Secrets are personal, so exported files leave them out
+export const stripAuthSecrets = (auth: AuthConfig): AuthConfig => ({
+  ...auth,
+  token: '',
+  password: '',
+  apiKeyValue: '',
+  clientSecret: '',
+});
+
+// Requests set to inherit use the environment's auth
+export const effectiveAuth = (auth: AuthConfig, envAuth: AuthConfig | undefined) =>
+  auth.type === 'inherit' ? envAuth || createAuth('none') : auth;
+
+export const authFields = (auth: AuthConfig) => AUTH_PROVIDERS[auth.type].fields(auth);
+
+export const applyAuth = (request: PreparedRequest, auth: AuthConfig) => AUTH_PROVIDERS[auth.type].apply(request, auth);
+
+export const previewAuth = (request: PreparedRequest, auth: AuthConfig, tokens: TokenCache) => {
+  const provider = AUTH_PROVIDERS[auth.type];
+  return provider.preview ? provider.preview(request, auth, tokens) : request;
+};
+
+// Fetches or refreshes whatever the scheme needs before sending, under the send's signal and timeout;
+// tokens comes back updated
+export const authorizeRequest = async (
+  request: PreparedRequest,
+  auth: AuthConfig,
+  tokens: TokenCache,
+  options: ExecuteOptions = {}
+) => {
+  const provider = AUTH_PROVIDERS[auth.type];
+  return provider.authorize ? provider.authorize(request, auth, tokens, options) : { request, tokens };
+};
+
+// Stored auth may be missing or written by an older version
+export const upgradeAuth = (auth: Partial<AuthConfig> | undefined, fallback: AuthType): AuthConfig => ({
+  ...createAuth(fallback),
+  ...auth,
+});
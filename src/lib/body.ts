@@ -0,0 +1,172 @@
+import { RequestBuildError } from './errors';
+import { KeyValueRow, activeRows, createRow } from './keyValue';
+
+export type BodyType = 'none' | 'json' | 'form' | 'multipart' | 'raw' | 'binary';
+
+export const BODY_TYPES: { value: BodyType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'json', label: 'JSON' },
+  { value: 'form', label: 'Form URL-encoded' },
+  { value: 'multipart', label: 'Multipart' },
+  { value: 'raw', label: 'Raw' },
+  { value: 'binary', label: 'Binary' },
+];
+
+export const RAW_CONTENT_TYPES = [
+  'text/plain',
+  'application/xml',
+  'text/xml',
+  'application/soap+xml',
+  'text/html',
+  'text/csv',
+  'application/json',
+];
+
+// A picked file; the Blob only lives in memory, so stored requests keep the name alone
+export interface FileRef {
+  name: string;
+  type: string;
+  size: number;
+  blob?: Blob;
+}
+
+export interface MultipartField extends KeyValueRow {
+  kind: 'text' | 'file';
+  file: FileRef | null;
+}
+
+// The body-related part of the request form
+export interface BodyDraft {
+  bodyType: BodyType;
+  // JSON or raw text
+  body: string;
+  rawContentType: string;
+  formFields: KeyValueRow[];
+  multipartFields: MultipartField[];
+  binaryFile: FileRef | null;
+}
+
+export interface EncodedBody {
+  body: string | FormData | Blob;
+  // null lets fetch pick it, which multipart needs to add its boundary
+  contentType: string | null;
+}
+
+export const createMultipartField = (kind: 'text' | 'file' = 'text'): MultipartField => ({
+  ...createRow(),
+  kind,
+  file: null,
+});
+
+export const fileRefFromFile = (file: File): FileRef => ({
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  blob: file,
+});
+
+export const hasFileData = (file: FileRef | null): file is FileRef & { blob: Blob } =>
+  !!file && typeof Blob !== 'undefined' && file.blob instanceof Blob;
+
+const encodeFormPart = (text: string) => encodeURIComponent(text).replace(/%20/g, '+');
+
+export const encodeForm = (rows: KeyValueRow[]) =>
+  activeRows(rows)
+    .map((row) => `${encodeFormPart(row.key.trim())}=${encodeFormPart(row.value)}`)
+    .join('&');
+
+const missingFile = (name: string) =>
+  new RequestBuildError(`Choose the file for "${name}" again; files aren't kept in history or collections`);
+
+// Turns the body editor into what fetch sends, or null when there is nothing to send
+export const encodeBody = (draft: BodyDraft): EncodedBody | null => {
+  switch (draft.bodyType) {
+    case 'json':
+      if (!draft.body) return null;
+      try {
+        JSON.parse(draft.body);
+      } catch (e) {
+        throw new RequestBuildError('Invalid JSON in request body');
+      }
+      return { body: draft.body, contentType: 'application/json' };
+    case 'raw':
+      if (!draft.body) return null;
+      return { body: draft.body, contentType: draft.rawContentType || 'text/plain' };
+    case 'form':
+      return activeRows(draft.formFields).length > 0
+        ? { body: encodeForm(draft.formFields), contentType: 'application/x-www-form-urlencoded;charset=UTF-8' }
+        : null;
+    case 'multipart': {
+      const fields = activeRows(draft.multipartFields) as MultipartField[];
+      if (fields.length === 0) return null;
+      const form = new FormData();
+      fields.forEach((field) => {
+        if (field.kind === 'text') {
+          form.append(field.key.trim(), field.value);
+        } else if (hasFileData(field.file)) {
+          form.append(field.key.trim(), field.file.blob, field.file.name);
+        } else {
+          throw missingFile(field.key.trim());
+        }
+      });
+      return { body: form, contentType: null };
+    }
+    case 'binary':
+      if (!draft.binaryFile) return null;
+      if (!hasFileData(draft.binaryFile)) throw missingFile(draft.binaryFile.name);
+      return { body: draft.binaryFile.blob, contentType: draft.binaryFile.type || 'application/octet-stream' };
+    default:
+      return null;
+  }
+};
+
+export interface FormDataEntry {
+  name: string;
+  // Text value, or null for a file
+  value: string | null;
+  fileName: string;
+  size: number;
+}
+
+// The fields of a FormData; React Native's FormData has getParts instead of forEach
+export const listFormData = (form: FormData): FormDataEntry[] => {
+  const entries: FormDataEntry[] = [];
+  const native = form as FormData & { getParts?: () => { fieldName: string; string?: string; name?: string }[] };
+  if (typeof form.forEach !== 'function' && native.getParts) {
+    native.getParts().forEach((part) =>
+      entries.push({ name: part.fieldName, value: part.string ?? null, fileName: part.name || '', size: 0 })
+    );
+    return entries;
+  }
+  form.forEach((value, name) => {
+    entries.push(
+      typeof value === 'string'
+        ? { name, value, fileName: '', size: 0 }
+        : { name, value: null, fileName: (value as File).name || 'blob', size: value.size }
+    );
+  });
+  return entries;
+};
+
+// Human-readable version of an encoded body for previews
+export const describeBody = (body: string | FormData | Blob | undefined) => {
+  if (body === undefined) return '';
+  if (typeof body === 'string') return body;
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return listFormData(body)
+      .map((entry) =>
+        entry.value !== null ? `${entry.name}: ${entry.value}` : `${entry.name}: <file ${entry.fileName}, ${entry.size} bytes>`
+      )
+      .join('\n');
+  }
+  return `<binary, ${(body as Blob).size} bytes>`;
+};
+
+export const createDefaultBodyDraft = (): BodyDraft => ({
+  bodyType: 'json',
+  body: '',
+  rawContentType: 'text/plain',
+  formFields: [],
+  multipartFields: [],
+  binaryFile: null,
+});
@@ -0,0 +1,261 @@
+import { PreparedRequest } from './request';
+import { AuthConfig } from './auth';
+import { FormDataEntry, listFormData } from './body';
+
+export type CodeLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go' | 'httpie';
+
+export const CODE_LANGUAGES: { value: CodeLanguage; label: string }[] = [
+  { value: 'curl', label: 'cURL' },
+  { value: 'fetch', label: 'fetch' },
+  { value: 'axios', label: 'axios' },
+  { value: 'python', label: 'Python requests' },
+  { value: 'go', label: 'Go net/http' },
+  { value: 'httpie', label: 'HTTPie' },
+];
+
+type BodyParts =
+  | { kind: 'none' }
+  | { kind: 'text'; text: string }
+  | { kind: 'form'; fields: FormDataEntry[] }
+  | { kind: 'file'; fileName: string };
+
+const bodyParts = (body: PreparedRequest['body']): BodyParts => {
+  if (body === undefined) return { kind: 'none' };
+  if (typeof body === 'string') return { kind: 'text', text: body };
+  if (typeof FormData !== 'undefined' && body instanceof FormData) return { kind: 'form', fields: listFormData(body) };
+  return { kind: 'file', fileName: (body as File).name || 'body.bin' };
+};
+
+// Digest can't be written as a fixed header, so snippets use each tool's own support
+const digestCredentials = (auth: AuthConfig | undefined) =>
+  auth?.type === 'digest' ? { username: auth.username, password: auth.password } : null;
+
+const shellQuote = (text: string) => (/^[A-Za-z0-9_\-./:=@%+,]+$/.test(text) ? text : `'${text.replace(/'/g, `'\\''`)}'`);
+
+// Double-quoted string literal; JSON's escapes are valid in JavaScript, Python and Go
+const quote = (text: string) => JSON.stringify(text);
+
+const headerEntries = (request: PreparedRequest) => Object.entries(request.headers);
+
+const curl = (request: PreparedRequest, auth?: AuthConfig) => {
+  const lines = [`curl ${request.method === 'GET' ? '' : request.method === 'HEAD' ? '--head ' : `-X ${shellQuote(request.method)} `}${shellQuote(request.url)}`];
+  headerEntries(request).forEach(([name, value]) => lines.push(`-H ${shellQuote(`${name}: ${value}`)}`));
+  const digest = digestCredentials(auth);
+  if (digest) lines.push(`--digest -u ${shellQuote(`${digest.username}:${digest.password}`)}`);
+  const body = bodyParts(request.body);
+  if (body.kind === 'text') lines.push(`--data-raw ${shellQuote(body.text)}`);
+  if (body.kind === 'form') {
+    body.fields.forEach((field) =>
+      lines.push(`-F ${shellQuote(field.value !== null ? `${field.name}=${field.value}` : `${field.name}=@${field.fileName}`)}`)
+    );
+  }
+  if (body.kind === 'file') lines.push(`--data-binary ${shellQuote(`@${body.fileName}`)}`);
+  return lines.join(' \\\n  ');
+};
+
+// The FormData-building lines shared by fetch and axios
+const jsFormData = (fields: FormDataEntry[]) => [
+  'const form = new FormData();',
+  ...fields.map((field) =>
+    field.value !== null
+      ? `form.append(${quote(field.name)}, ${quote(field.value)});`
+      : `form.append(${quote(field.name)}, fileInput.files[0], ${quote(field.fileName)});`
+  ),
+  '',
+];
+
+// The body as sent, so a pretty-printed JSON body isn't re-serialized
+const jsBody = (body: BodyParts) => {
+  if (body.kind === 'text') return quote(body.text);
+  if (body.kind === 'form') return 'form';
+  if (body.kind === 'file') return `fileInput.files[0] /* ${body.fileName} */`;
+  return null;
+};
+
+const jsHeaders = (request: PreparedRequest) => {
+  const entries = headerEntries(request);
+  if (entries.length === 0) return null;
+  return `{\n${entries.map(([name, value]) => `    ${quote(name)}: ${quote(value)}`).join(',\n')}\n  }`;
+};
+
+const fetchCode = (request: PreparedRequest, auth?: AuthConfig) => {
+  const body = bodyParts(request.body);
+  const options = [`  method: ${quote(request.method)}`];
+  const headers = jsHeaders(request);
+  if (headers) options.push(`  headers: ${headers}`);
+  const bodyCode = jsBody(body);
+  if (bodyCode) options.push(`  body: ${bodyCode}`);
+  return [
+    ...(digestCredentials(auth) ? ['// fetch has no Digest support; answer the 401 challenge yourself', ''] : []),
+    ...(body.kind === 'form' ? jsFormData(body.fields) : []),
+    `const response = await fetch(${quote(request.url)}, {`,
+    options.join(',\n'),
+    '});',
+    '',
+    'console.log(response.status);',
+    'console.log(await response.text());',
+  ].join('\n');
+};
+
+const axiosCode = (request: PreparedRequest, auth?: AuthConfig) => {
+  const body = bodyParts(request.body);
+  const options = [`  method: ${quote(request.method.toLowerCase())}`, `  url: ${quote(request.url)}`];
+  const headers = jsHeaders(request);
+  if (headers) options.push(`  headers: ${headers}`);
+  const bodyCode = jsBody(body);
+  if (bodyCode) options.push(`  data: ${bodyCode}`);
+  return [
+    "import axios from 'axios';",
+    '',
+    ...(digestCredentials(auth) ? ['// axios has no Digest support; answer the 401 challenge yourself', ''] : []),
+    ...(body.kind === 'form' ? jsFormData(body.fields) : []),
+    'const response = await axios({',
+    options.join(',\n'),
+    '});',
+    '',
+    'console.log(response.status);',
+    'console.log(response.data);',
+  ].join('\n');
+};
+
+const python = (request: PreparedRequest, auth?: AuthConfig) => {
+  const body = bodyParts(request.body);
+  const digest = digestCredentials(auth);
+  const args = [`    ${quote(request.method)}`, `    ${quote(request.url)}`];
+  const entries = headerEntries(request);
+  if (entries.length > 0) {
+    args.push(`    headers={\n${entries.map(([name, value]) => `        ${quote(name)}: ${quote(value)}`).join(',\n')},\n    }`);
+  }
+  if (body.kind === 'text') args.push(`    data=${quote(body.text)}`);
+  if (body.kind === 'form') {
+    // Every field goes in files=, since requests only sends multipart when there is one
+    const parts = body.fields.map((field) =>
+      field.value !== null
+        ? `        ${quote(field.name)}: (None, ${quote(field.value)})`
+        : `        ${quote(field.name)}: (${quote(field.fileName)}, open(${quote(field.fileName)}, "rb"))`
+    );
+    args.push(`    files={\n${parts.join(',\n')},\n    }`);
+  }
+  if (body.kind === 'file') args.push(`    data=open(${quote(body.fileName)}, "rb")`);
+  if (digest) args.push(`    auth=HTTPDigestAuth(${quote(digest.username)}, ${quote(digest.password)})`);
+  return [
+    'import requests',
+    ...(digest ? ['from requests.auth import HTTPDigestAuth'] : []),
+    '',
+    'response = requests.request(',
+    `${args.join(',\n')},`,
+    ')',
+    '',
+    'print(response.status_code)',
+    'print(response.text)',
+  ].join('\n');
+};
+
+const go = (request: PreparedRequest, auth?: AuthConfig) => {
+  const body = bodyParts(request.body);
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const setup: string[] = [];
+  let bodyVar = 'nil';
+
+  if (body.kind === 'text') {
+    imports.add('strings');
+    setup.push(`body := strings.NewReader(${quote(body.text)})`);
+    bodyVar = 'body';
+  } else if (body.kind === 'form') {
+    imports.add('bytes');
+    imports.add('mime/multipart');
+    setup.push('body := &bytes.Buffer{}', 'writer := multipart.NewWriter(body)');
+    let declared = false;
+    body.fields.forEach((field) => {
+      if (field.value !== null) {
+        setup.push(`writer.WriteField(${quote(field.name)}, ${quote(field.value)})`);
+        return;
+      }
+      // Later file parts reuse the variables the first one declared
+      const assign = declared ? '=' : ':=';
+      declared = true;
+      imports.add('os');
+      setup.push(
+        `file, err ${assign} os.Open(${quote(field.fileName)})`,
+        'if err != nil {',
+        '\tpanic(err)',
+        '}',
+        `part, _ ${assign} writer.CreateFormFile(${quote(field.name)}, ${quote(field.fileName)})`,
+        'io.Copy(part, file)',
+        'file.Close()'
+      );
+    });
+    setup.push('writer.Close()');
+    bodyVar = 'body';
+  } else if (body.kind === 'file') {
+    imports.add('os');
+    setup.push(`body, err := os.Open(${quote(body.fileName)})`, 'if err != nil {', '\tpanic(err)', '}', 'defer body.Close()');
+    bodyVar = 'body';
+  }
+  const setupCode = setup.join('\n');
+
+  const headerLines = headerEntries(request).map(([name, value]) => `req.Header.Set(${quote(name)}, ${quote(value)})`);
+  if (body.kind === 'form') headerLines.push('req.Header.Set("Content-Type", writer.FormDataContentType())');
+  const digest = digestCredentials(auth);
+
+  const main = [
+    ...(setupCode ? [setupCode, ''] : []),
+    `req, err := http.NewRequest(${quote(request.method)}, ${quote(request.url)}, ${bodyVar})`,
+    'if err != nil {',
+    '\tpanic(err)',
+    '}',
+    ...headerLines,
+    ...(digest ? ['// net/http has no Digest support; answer the 401 challenge yourself'] : []),
+    '',
+    'res, err := http.DefaultClient.Do(req)',
+    'if err != nil {',
+    '\tpanic(err)',
+    '}',
+    'defer res.Body.Close()',
+    '',
+    'data, _ := io.ReadAll(res.Body)',
+    'fmt.Println(res.Status)',
+    'fmt.Println(string(data))',
+  ];
+  return [
+    'package main',
+    '',
+    'import (',
+    ...Array.from(imports).sort().map((name) => `\t${quote(name)}`),
+    ')',
+    '',
+    'func main() {',
+    ...main.map((line) => (line ? `\t${line.replace(/\n/g, '\n\t')}` : '')),
+    '}',
+  ].join('\n');
+};
+
+const httpie = (request: PreparedRequest, auth?: AuthConfig) => {
+  const body = bodyParts(request.body);
+  const digest = digestCredentials(auth);
+  const options: string[] = [];
+  if (body.kind === 'form') options.push('--multipart');
+  if (body.kind === 'text') options.push(`--raw ${shellQuote(body.text)}`);
+  if (digest) options.push(`-A digest -a ${shellQuote(`${digest.username}:${digest.password}`)}`);
+  const items = headerEntries(request).map(([name, value]) => shellQuote(`${name}:${value}`));
+  if (body.kind === 'form') {
+    body.fields.forEach((field) =>
+      items.push(shellQuote(field.value !== null ? `${field.name}=${field.value}` : `${field.name}@${field.fileName}`))
+    );
+  }
+  const command = ['http', ...options, shellQuote(request.method), shellQuote(request.url), ...items].join(' ');
+  return body.kind === 'file' ? `${command} < ${shellQuote(body.fileName)}` : command;
+};
+
+const GENERATORS: Record<CodeLanguage, (request: PreparedRequest, auth?: AuthConfig) => string> = {
+  curl,
+  fetch: fetchCode,
+  axios: axiosCode,
+  python,
+  go,
+  httpie,
+};
+
+// The request as code; pass the auth when it is Digest, which can't be baked into the headers
+export const generateCode = (language: CodeLanguage, request: PreparedRequest, auth?: AuthConfig) =>
+  GENERATORS[language](request, auth);
@@ -0,0 +1,198 @@
+import { createId } from './id';
+import { RequestDraft, upgradeDraft } from './request';
+import { stripAuthSecrets } from './auth';
+
+// Stored next to the apiTesterUrls key
+export const COLLECTIONS_STORAGE_KEY = 'apiTesterCollections';
+
+const EXPORT_FORMAT = 'api-tester-collections';
+const EXPORT_VERSION = 1;
+
+// Saved requests keep the path relative so they work against any base URL
+export type SavedRequestData = Omit<RequestDraft, 'baseUrl'>;
+
+export interface SavedRequest {
+  id: string;
+  name: string;
+  request: SavedRequestData;
+}
+
+export interface CollectionFolder {
+  id: string;
+  name: string;
+  requests: SavedRequest[];
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  folders: CollectionFolder[];
+  // Requests that sit at the top of the collection, outside any folder
+  requests: SavedRequest[];
+}
+
+// Saved requests run against whichever environment is active, so the base URL isn't kept
+export const toSavedRequestData = (draft: RequestDraft): SavedRequestData => {
+  const data: Partial<RequestDraft> = { ...draft };
+  delete data.baseUrl;
+  return data as SavedRequestData;
+};
+
+export const createCollection = (name: string): Collection => ({
+  id: createId(),
+  name,
+  folders: [],
+  requests: [],
+});
+
+export const addFolder = (collections: Collection[], collectionId: string, name: string) =>
+  collections.map((collection) =>
+    collection.id === collectionId
+      ? { ...collection, folders: [...collection.folders, { id: createId(), name, requests: [] }] }
+      : collection
+  );
+
+export const createSavedRequest = (name: string, request: SavedRequestData): SavedRequest => ({
+  id: createId(),
+  name,
+  request,
+});
+
+// Saves into a folder when folderId is given, otherwise at the top of the collection
+export const addSavedRequest = (
+  collections: Collection[],
+  collectionId: string,
+  folderId: string | null,
+  saved: SavedRequest
+) =>
+  collections.map((collection) => {
+    if (collection.id !== collectionId) return collection;
+    if (!folderId) return { ...collection, requests: [...collection.requests, saved] };
+    return {
+      ...collection,
+      folders: collection.folders.map((folder) =>
+        folder.id === folderId ? { ...folder, requests: [...folder.requests, saved] } : folder
+      ),
+    };
+  });
+
+// Overwrites a saved request in place, keeping its name and position
+export const updateSavedRequest = (collections: Collection[], id: string, request: SavedRequestData) => {
+  const update = (requests: SavedRequest[]) =>
+    requests.map((saved) => (saved.id === id ? { ...saved, request } : saved));
+  return collections.map((collection) => ({
+    ...collection,
+    requests: update(collection.requests),
+    folders: collection.folders.map((folder) => ({ ...folder, requests: update(folder.requests) })),
+  }));
+};
+
+// Removes a collection, folder or request by id
+export const removeNode = (collections: Collection[], id: string) => {
+  const keep = (requests: SavedRequest[]) => requests.filter((saved) => saved.id !== id);
+  return collections
+    .filter((collection) => collection.id !== id)
+    .map((collection) => ({
+      ...collection,
+      requests: keep(collection.requests),
+      folders: collection.folders
+        .filter((folder) => folder.id !== id)
+        .map((folder) => ({ ...folder, requests: keep(folder.requests) })),
+    }));
+};
+
+// Renames a collection, folder or request by id
+export const renameNode = (collections: Collection[], id: string, name: string) => {
+  const rename = <T extends { id: string; name: string }>(node: T): T =>
+    node.id === id ? { ...node, name } : node;
+  return collections.map((collection) => ({
+    ...rename(collection),
+    requests: collection.requests.map(rename),
+    folders: collection.folders.map((folder) => ({
+      ...rename(folder),
+      requests: folder.requests.map(rename),
+    })),
+  }));
+};
+
+// Every saved request in a collection, top-level ones first, then folder by folder
+export const flattenCollection = (collection: Collection) => [
+  ...collection.requests,
+  ...collection.folders.flatMap((folder) => folder.requests),
+];
+
+export const findSavedRequest = (collections: Collection[], id: string) =>
+  collections.flatMap(flattenCollection).find((saved) => saved.id === id) || null;
+
+// Brings requests saved by older versions up to the current shape
+const upgradeCollection = (collection: Collection): Collection => {
+  const upgrade = (saved: SavedRequest): SavedRequest => ({ ...saved, request: upgradeDraft(saved.request) });
+  return {
+    ...collection,
+    requests: collection.requests.map(upgrade),
+    folders: collection.folders.map((folder) => ({ ...folder, requests: folder.requests.map(upgrade) })),
+  };
+};
+
+export const parseCollections = (data: string | null): Collection[] => {
+  if (!data) return [];
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed.map(upgradeCollection) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// Auth secrets are personal, so they are left out of shared files
+export const exportCollections = (collections: Collection[]) => {
+  const strip = (saved: SavedRequest): SavedRequest => ({
+    ...saved,
+    request: { ...saved.request, auth: stripAuthSecrets(saved.request.auth) },
+  });
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      collections: collections.map((collection) => ({
+        ...collection,
+        requests: collection.requests.map(strip),
+        folders: collection.folders.map((folder) => ({ ...folder, requests: folder.requests.map(strip) })),
+      })),
+    },
+    null,
+    2
+  );
+};
+
+// Reads an exported file; every node gets a fresh id so imports never clash with existing ones
+export const importCollections = (text: string): Collection[] => {
+  let parsed;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!parsed || parsed.format !== EXPORT_FORMAT || !Array.isArray(parsed.collections)) {
+    throw new Error('The file is not an exported collection');
+  }
+  if (parsed.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the app');
+  }
+
+  const reid = (saved: SavedRequest): SavedRequest => ({
+    ...saved,
+    id: createId(),
+    request: upgradeDraft(saved.request),
+  });
+  return (parsed.collections as Collection[]).map((collection) => ({
+    id: createId(),
+    name: String(collection.name || 'Imported collection'),
+    requests: (collection.requests || []).map(reid),
+    folders: (collection.folders || []).map((folder) => ({
+      id: createId(),
+      name: String(folder.name || 'Folder'),
+      requests: (folder.requests || []).map(reid),
+    })),
+  }));
+};
@@ -0,0 +1,273 @@
+import { DEFAULT_TIMEOUT_MS, RequestDraft } from './request';
+import { createDefaultBodyDraft, createMultipartField } from './body';
+import { createAuth } from './auth';
+import { KeyValueRow, createRow } from './keyValue';
+import { parseQuery, splitUrl } from './query';
+import { getHeader } from './headers';
+import { DEFAULT_RETRY_POLICY } from './retry';
+
+// Options that only change curl's own output or transport, so they can be ignored
+const IGNORED_FLAGS = new Set([
+  '-s', '--silent', '-S', '--show-error', '-v', '--verbose', '-i', '--include', '-L', '--location',
+  '-k', '--insecure', '--compressed', '-f', '--fail', '-#', '--progress-bar', '-N', '--no-buffer',
+]);
+
+const DATA_FLAGS = new Set(['-d', '--data', '--data-raw', '--data-ascii', '--data-binary']);
+
+// Options that take a value, mapped to the header they set
+const HEADER_FLAGS: Record<string, string> = {
+  '-A': 'User-Agent',
+  '--user-agent': 'User-Agent',
+  '-e': 'Referer',
+  '--referer': 'Referer',
+  '-b': 'Cookie',
+  '--cookie': 'Cookie',
+};
+
+const VALUE_FLAGS = new Set([
+  '-X', '--request', '-H', '--header', '-u', '--user', '-F', '--form', '--url', '-m', '--max-time',
+  '--retry', '--retry-delay', '--retry-max-time',
+  ...DATA_FLAGS, ...Object.keys(HEADER_FLAGS),
+]);
+
+// Splits a shell command into words the way sh would: quotes, backslash escapes and line continuations
+export const tokenizeShell = (command: string) => {
+  const tokens: string[] = [];
+  let current = '';
+  let inWord = false;
+  let i = 0;
+
+  while (i < command.length) {
+    const ch = command[i];
+    if (ch === '\\' && (command[i + 1] === '\n' || command.startsWith('\r\n', i + 1))) {
+      i += command[i + 1] === '\r' ? 3 : 2;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      if (inWord) tokens.push(current);
+      current = '';
+      inWord = false;
+      i++;
+      continue;
+    }
+    inWord = true;
+    if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end < 0) throw new Error('The command has an unclosed single quote');
+      current += command.slice(i + 1, end);
+      i = end + 1;
+    } else if (ch === '$' && command[i + 1] === "'") {
+      // $'...' strings understand C escapes
+      const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+      i += 2;
+      while (i < command.length && command[i] !== "'") {
+        if (command[i] === '\\' && i + 1 < command.length) {
+          current += escapes[command[i + 1]] ?? `\\${command[i + 1]}`;
+          i += 2;
+        } else {
+          current += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('The command has an unclosed $\' quote');
+      i++;
+    } else if (ch === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '\\' && '"\\$`\n'.includes(command[i + 1])) {
+          if (command[i + 1] !== '\n') current += command[i + 1];
+          i += 2;
+        } else {
+          current += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('The command has an unclosed double quote');
+      i++;
+    } else if (ch === '\\') {
+      current += command[i + 1] ?? '';
+      i += 2;
+    } else {
+      current += ch;
+      i++;
+    }
+  }
+  if (inWord) tokens.push(current);
+  return tokens;
+};
+
+// Expands -sSL into -s -S -L and -XPOST into -X POST
+const expandShortFlags = (tokens: string[]) =>
+  tokens.flatMap((token) => {
+    if (!/^-[^-]./.test(token)) return [token];
+    const flag = token.slice(0, 2);
+    if (VALUE_FLAGS.has(flag)) return [flag, token.slice(2)];
+    return token.slice(1).split('').map((letter) => `-${letter}`);
+  });
+
+const parseHeaderLine = (line: string) => {
+  const colon = line.indexOf(':');
+  if (colon <= 0) throw new Error(`Can't read the header "${line}"; expected "Name: value"`);
+  return createRow(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+};
+
+// -F name=value, or name=@path[;type=...] for a file that has to be picked again
+const parseFormField = (spec: string) => {
+  const eq = spec.indexOf('=');
+  if (eq <= 0) throw new Error(`Can't read the form field "${spec}"; expected name=value`);
+  const name = spec.slice(0, eq);
+  const value = spec.slice(eq + 1);
+  if (value.startsWith('<')) throw new Error(`--form ${name}=<file reads a file's text, which can't be imported`);
+  if (!value.startsWith('@')) return { ...createMultipartField('text'), key: name, value };
+  const [path, ...options] = value.slice(1).split(';');
+  const type = options.find((option) => option.startsWith('type='))?.slice('type='.length) || '';
+  return {
+    ...createMultipartField('file'),
+    key: name,
+    file: { name: path.split(/[\\/]/).pop() || path, type, size: 0 },
+  };
+};
+
+const isJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Turns a pasted curl command into a request for the form; throws with a readable message otherwise
+export const parseCurlCommand = (command: string): RequestDraft => {
+  const tokens = expandShortFlags(tokenizeShell(command.trim()));
+  if (tokens[0] !== 'curl') throw new Error('Paste a command that starts with curl');
+
+  let method: string | null = null;
+  let rawUrl: string | null = null;
+  let useGet = false;
+  let user: string | null = null;
+  let timeoutMs = DEFAULT_TIMEOUT_MS;
+  let retry = DEFAULT_RETRY_POLICY;
+  const headers: KeyValueRow[] = [];
+  const data: string[] = [];
+  const formFields: ReturnType<typeof parseFormField>[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    const takeValue = () => {
+      if (i + 1 >= tokens.length) throw new Error(`${token} needs a value`);
+      return tokens[++i];
+    };
+
+    if (!token.startsWith('-') || token === '-') {
+      if (rawUrl !== null) throw new Error(`Found a second URL, "${token}"; only one request can be imported`);
+      rawUrl = token;
+    } else if (token === '-X' || token === '--request') {
+      method = takeValue().toUpperCase();
+    } else if (token === '-H' || token === '--header') {
+      headers.push(parseHeaderLine(takeValue()));
+    } else if (HEADER_FLAGS[token]) {
+      headers.push(createRow(HEADER_FLAGS[token], takeValue()));
+    } else if (DATA_FLAGS.has(token)) {
+      const value = takeValue();
+      if (value.startsWith('@')) throw new Error(`${token} ${value} reads a file, which can't be imported; paste its contents instead`);
+      data.push(value);
+    } else if (token === '-F' || token === '--form') {
+      formFields.push(parseFormField(takeValue()));
+    } else if (token === '-u' || token === '--user') {
+      user = takeValue();
+    } else if (token === '--url') {
+      rawUrl = takeValue();
+    } else if (token === '-m' || token === '--max-time') {
+      // curl takes seconds, fractions allowed
+      const value = takeValue();
+      const seconds = Number(value);
+      if (!(seconds >= 0)) throw new Error(`${token} needs a number of seconds, not "${value}"`);
+      timeoutMs = Math.round(seconds * 1000);
+    } else if (token === '--retry') {
+      // curl counts retries, not attempts; it retries timeouts and gateway errors
+      const value = takeValue();
+      const retries = Number(value);
+      if (!Number.isInteger(retries) || retries < 0) throw new Error(`--retry needs a whole number, not "${value}"`);
+      retry = { ...retry, enabled: retries > 0, maxAttempts: retries + 1, statuses: [408, 429, 500, 502, 503, 504], retryTimeouts: true };
+    } else if (token === '--retry-delay' || token === '--retry-max-time') {
+      // Our backoff and Retry-After handling stand in for curl's own timing
+      takeValue();
+    } else if (token === '-G' || token === '--get') {
+      useGet = true;
+    } else if (token === '-I' || token === '--head') {
+      method = 'HEAD';
+    } else if (!IGNORED_FLAGS.has(token)) {
+      throw new Error(`The option ${token} isn't supported`);
+    }
+  }
+
+  if (rawUrl === null) throw new Error('The command has no URL');
+  if (data.length > 0 && formFields.length > 0) throw new Error('--data and --form can\'t be combined');
+
+  // curl assumes http:// when the scheme is left out
+  const absolute = /^[a-z][a-z0-9+.-]*:\/\//i.test(rawUrl) ? rawUrl : `http://${rawUrl}`;
+  const origin = absolute.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i)?.[0] || '';
+  let url = absolute.slice(origin.length) || '/';
+  // -G sends the data as query parameters
+  if (useGet && data.length > 0) {
+    url = `${url}${url.includes('?') ? '&' : '?'}${data.join('&')}`;
+  }
+
+  const draft: RequestDraft = {
+    method: method || (!useGet && (data.length > 0 || formFields.length > 0) ? 'POST' : 'GET'),
+    baseUrl: origin,
+    url,
+    pathParams: {},
+    params: parseQuery(splitUrl(url).query),
+    headers,
+    // A pasted command sends exactly what it says, not the active environment's credentials
+    auth: createAuth('none'),
+    responseSchema: '',
+    assertions: [],
+    extractions: [],
+    preRequestScript: '',
+    postResponseScript: '',
+    timeoutMs,
+    retry,
+    ...createDefaultBodyDraft(),
+  };
+
+  if (user !== null) {
+    const colon = user.indexOf(':');
+    draft.auth = {
+      ...createAuth('basic'),
+      username: colon >= 0 ? user.slice(0, colon) : user,
+      password: colon >= 0 ? user.slice(colon + 1) : '',
+    };
+  } else {
+    // A bearer Authorization header becomes bearer auth so the token can be masked
+    const authorization = headers.find((row) => row.key.toLowerCase() === 'authorization');
+    const bearer = authorization?.value.match(/^Bearer\s+(.+)$/i);
+    if (authorization && bearer) {
+      draft.auth = { ...createAuth('bearer'), token: bearer[1] };
+      draft.headers = headers.filter((row) => row !== authorization);
+    }
+  }
+
+  if (formFields.length > 0) {
+    draft.bodyType = 'multipart';
+    draft.multipartFields = formFields;
+  } else if (data.length > 0 && !useGet) {
+    const body = data.join('&');
+    const contentType = (getHeader(Object.fromEntries(headers.map((row) => [row.key, row.value])), 'Content-Type') || '')
+      .toLowerCase();
+    if (contentType.includes('json') || (!contentType && isJson(body))) {
+      draft.bodyType = 'json';
+      draft.body = body;
+    } else if (!contentType || contentType.startsWith('application/x-www-form-urlencoded')) {
+      // curl's default for -d
+      draft.bodyType = 'form';
+      draft.formFields = parseQuery(body);
+    } else {
+      draft.bodyType = 'raw';
+      draft.body = body;
+      draft.rawContentType = contentType.split(';')[0].trim();
+    }
+  }
+
+  return draft;
+};
@@ -0,0 +1,89 @@
+import { md5 } from './md5';
+
+// HTTP Digest authentication (RFC 7616)
+
+export interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  qop: string | null;
+  opaque: string | null;
+  algorithm: string;
+}
+
+// Reads the Digest challenge out of a WWW-Authenticate header, or null when there isn't one
+export const parseDigestChallenge = (header: string): DigestChallenge | null => {
+  const start = header.search(/\bDigest\s/i);
+  if (start < 0) return null;
+  const params: Record<string, string> = {};
+  const pattern = /([a-z0-9_-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/gi;
+  for (const match of header.slice(start + 'Digest'.length).matchAll(pattern)) {
+    params[match[1].toLowerCase()] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+  }
+  if (!params.nonce) return null;
+
+  // Prefer plain auth when the server offers auth-int too; the body isn't hashed here
+  const qops = (params.qop || '').split(',').map((qop) => qop.trim()).filter(Boolean);
+  return {
+    realm: params.realm || '',
+    nonce: params.nonce,
+    qop: qops.includes('auth') ? 'auth' : qops[0] || null,
+    opaque: params.opaque || null,
+    algorithm: params.algorithm || 'MD5',
+  };
+};
+
+const sha256 = async (text: string) => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('SHA-256 Digest auth needs Web Crypto, which is not available here');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const hashFor = (algorithm: string) => {
+  const base = algorithm.toUpperCase().replace(/-SESS$/, '');
+  if (base === 'MD5') return async (text: string) => md5(text);
+  if (base === 'SHA-256') return sha256;
+  throw new Error(`Unsupported Digest algorithm: ${algorithm}`);
+};
+
+const randomHex = (length: number) =>
+  Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+const quote = (value: string) => `"${value.replace(/(["\\])/g, '\\$1')}"`;
+
+// The Authorization header answering a challenge; uri is the request path with its query
+export const buildDigestAuthorization = async (
+  challenge: DigestChallenge,
+  credentials: { username: string; password: string },
+  method: string,
+  uri: string
+) => {
+  if (challenge.qop && challenge.qop !== 'auth') {
+    throw new Error(`Unsupported Digest qop: ${challenge.qop}`);
+  }
+  const hash = hashFor(challenge.algorithm);
+  const cnonce = randomHex(16);
+  const nc = '00000001';
+
+  let ha1 = await hash(`${credentials.username}:${challenge.realm}:${credentials.password}`);
+  if (/-sess$/i.test(challenge.algorithm)) {
+    ha1 = await hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  }
+  const ha2 = await hash(`${method}:${uri}`);
+  const response = challenge.qop
+    ? await hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${challenge.qop}:${ha2}`)
+    : await hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const parts = [
+    `username=${quote(credentials.username)}`,
+    `realm=${quote(challenge.realm)}`,
+    `nonce=${quote(challenge.nonce)}`,
+    `uri=${quote(uri)}`,
+    `algorithm=${challenge.algorithm}`,
+    `response=${quote(response)}`,
+  ];
+  if (challenge.qop) parts.push(`qop=${challenge.qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+  if (challenge.opaque !== null) parts.push(`opaque=${quote(challenge.opaque)}`);
+  return `Digest ${parts.join(', ')}`;
+};
@@ -0,0 +1,75 @@
+// Text encoding helpers that work without TextEncoder or btoa, which React Native may lack
+
+export const utf8Bytes = (text: string) => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      // Surrogate pair
+      code = 0x10000 + ((code - 0xd800) << 10) + (text.charCodeAt(++i) - 0xdc00);
+    }
+    if (code < 0x80) bytes.push(code);
+    else if (code < 0x800) bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    else if (code < 0x10000) bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+};
+
+// The inverse of utf8Bytes, for platforms without TextDecoder; malformed sequences become U+FFFD like TextDecoder's
+export const utf8Text = (bytes: ArrayLike<number>) => {
+  let text = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (byte < 0x80) {
+      text += String.fromCharCode(byte);
+      i += 1;
+      continue;
+    }
+    const length = byte >= 0xc2 && byte <= 0xdf ? 2 : byte >= 0xe0 && byte <= 0xef ? 3 : byte >= 0xf0 && byte <= 0xf4 ? 4 : 0;
+    // The second byte's range rules out overlong forms, surrogates and code points past U+10FFFF
+    const lower = byte === 0xe0 ? 0xa0 : byte === 0xf0 ? 0x90 : 0x80;
+    const upper = byte === 0xed ? 0x9f : byte === 0xf4 ? 0x8f : 0xbf;
+    let code = byte & (length === 2 ? 0x1f : length === 3 ? 0x0f : 0x07);
+    let j = 1;
+    for (; j < length; j++) {
+      const next = bytes[i + j];
+      if (next === undefined || next < (j === 1 ? lower : 0x80) || next > (j === 1 ? upper : 0xbf)) break;
+      code = (code << 6) | (next & 0x3f);
+    }
+    if (length === 0 || j < length) {
+      // One replacement per bad sequence; a byte that broke it off starts the next one
+      text += '\uFFFD';
+      i += j;
+      continue;
+    }
+    text += String.fromCodePoint(code);
+    i += length;
+  }
+  return text;
+};
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 of raw bytes, such as an image body for a data: URI
+export const bytesToBase64 = (bytes: ArrayLike<number>) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    out += BASE64_CHARS[(chunk >> 18) & 63] + BASE64_CHARS[(chunk >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64_CHARS[(chunk >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? BASE64_CHARS[chunk & 63] : '=';
+  }
+  return out;
+};
+
+// Base64 of the UTF-8 bytes of a string
+export const toBase64 = (text: string) => bytesToBase64(utf8Bytes(text));
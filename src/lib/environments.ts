@@ -0,0 +1,136 @@
+import { createId } from './id';
+import { KeyValueRow, activeRows, createRow } from './keyValue';
+import { AuthConfig, createAuth, upgradeAuth } from './auth';
+
+export const ENVIRONMENTS_STORAGE_KEY = 'apiTesterEnvironments';
+// Where the app kept one base URL per fixed environment before environments were user-defined
+export const LEGACY_URLS_STORAGE_KEY = 'apiTesterUrls';
+
+// The variable the Base URL field reads and saves
+export const BASE_URL_VARIABLE = 'baseUrl';
+
+export interface Environment {
+  id: string;
+  name: string;
+  variables: KeyValueRow[];
+  // Used by requests whose auth is set to inherit
+  auth: AuthConfig;
+}
+
+export interface EnvironmentState {
+  environments: Environment[];
+  activeId: string | null;
+}
+
+export const createEnvironment = (name: string, baseUrl = ''): Environment => ({
+  id: createId(),
+  name,
+  variables: [createRow(BASE_URL_VARIABLE, baseUrl)],
+  auth: createAuth('none'),
+});
+
+// Turns the old { development, production } base URLs into two environments;
+// with nothing stored this gives the same two, empty
+export const migrateLegacyUrls = (data: string | null): EnvironmentState => {
+  const urls = { development: '', production: '' };
+  if (data) {
+    try {
+      const parsed = JSON.parse(data);
+      if (typeof parsed.development === 'string') urls.development = parsed.development;
+      if (typeof parsed.production === 'string') urls.production = parsed.production;
+    } catch (e) {
+      console.error('Failed to read saved URLs', e);
+    }
+  }
+  const development = createEnvironment('Development', urls.development);
+  return {
+    environments: [development, createEnvironment('Production', urls.production)],
+    activeId: development.id,
+  };
+};
+
+// Reads stored environments, falling back to migrating the legacy base URLs
+export const loadEnvironmentState = (data: string | null, legacyData: string | null): EnvironmentState => {
+  let state: EnvironmentState | null = null;
+  if (data) {
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed && Array.isArray(parsed.environments)) {
+        // Environments saved before auth settings existed have none
+        state = {
+          ...parsed,
+          environments: parsed.environments.map((env: Environment) => ({ ...env, auth: upgradeAuth(env.auth, 'none') })),
+        };
+      }
+    } catch (e) {
+      state = null;
+    }
+  }
+  if (!state) state = migrateLegacyUrls(legacyData);
+
+  // Make sure something is selected whenever environments exist
+  const activeExists = state.environments.some((env) => env.id === state?.activeId);
+  return activeExists ? state : { ...state, activeId: state.environments[0]?.id || null };
+};
+
+export const getActiveEnvironment = (state: EnvironmentState) =>
+  state.environments.find((env) => env.id === state.activeId) || null;
+
+// Enabled variables of an environment as a name → value map
+export const getVariables = (env: Environment | null) => {
+  const variables: Record<string, string> = {};
+  if (!env) return variables;
+  activeRows(env.variables).forEach((row) => {
+    variables[row.key.trim()] = row.value;
+  });
+  return variables;
+};
+
+// Sets a variable on one environment, adding the row when it doesn't exist yet
+export const setVariable = (state: EnvironmentState, envId: string, name: string, value: string): EnvironmentState => ({
+  ...state,
+  environments: state.environments.map((env) => {
+    if (env.id !== envId) return env;
+    const exists = env.variables.some((row) => row.key.trim() === name);
+    return {
+      ...env,
+      variables: exists
+        ? env.variables.map((row) => (row.key.trim() === name ? { ...row, value, enabled: true } : row))
+        : [...env.variables, createRow(name, value)],
+    };
+  }),
+});
+
+// Sets several variables at once, as a response's extraction rules do
+export const setVariables = (state: EnvironmentState, envId: string, values: Record<string, string>) =>
+  Object.keys(values).reduce((next, name) => setVariable(next, envId, name, values[name]), state);
+
+export const updateEnvironment = (state: EnvironmentState, envId: string, changes: Partial<Environment>) => ({
+  ...state,
+  environments: state.environments.map((env) => (env.id === envId ? { ...env, ...changes } : env)),
+});
+
+export const addEnvironment = (state: EnvironmentState, env: Environment): EnvironmentState => ({
+  environments: [...state.environments, env],
+  activeId: env.id,
+});
+
+// Copies an environment's variables and auth under a new name
+export const duplicateEnvironment = (state: EnvironmentState, envId: string, name: string) => {
+  const source = state.environments.find((env) => env.id === envId);
+  if (!source) return state;
+  return addEnvironment(state, {
+    id: createId(),
+    name,
+    variables: source.variables.map((row) => createRow(row.key, row.value, row.enabled)),
+    auth: { ...source.auth },
+  });
+};
+
+export const removeEnvironment = (state: EnvironmentState, envId: string): EnvironmentState => {
+  const environments = state.environments.filter((env) => env.id !== envId);
+  return {
+    environments,
+    activeId: state.activeId === envId ? environments[0]?.id || null : state.activeId,
+  };
+};
@@ -0,0 +1,18 @@
+// Raised for problems in the form itself, before anything is sent
+export class RequestBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestBuildError';
+  }
+}
+
+// Raised when a request that went out is cancelled or runs past its timeout
+export class RequestAbortedError extends Error {
+  timedOut: boolean;
+
+  constructor(message: string, timedOut: boolean) {
+    super(message);
+    this.name = 'RequestAbortedError';
+    this.timedOut = timedOut;
+  }
+}
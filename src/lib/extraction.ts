@@ -0,0 +1,94 @@
+import { createId } from './id';
+import { getHeader } from './headers';
+import { lazyJsonBody, readJsonPath } from './jsonPath';
+
+// Rules that copy values out of a response into environment variables, for chaining requests
+export type ExtractionSource = 'jsonPath' | 'header' | 'regex';
+
+export interface ExtractionRule {
+  id: string;
+  enabled: boolean;
+  // The environment variable that receives the value
+  variable: string;
+  source: ExtractionSource;
+  // A JSON path, a header name, or a regex over the body whose first group (or whole match) is taken
+  expression: string;
+}
+
+export interface ExtractionResult {
+  id: string;
+  variable: string;
+  // Null when nothing was found
+  value: string | null;
+  error?: string;
+}
+
+export const EXTRACTION_SOURCES: { value: ExtractionSource; label: string; placeholder: string }[] = [
+  { value: 'jsonPath', label: 'JSON path', placeholder: '$.access_token' },
+  { value: 'header', label: 'Header', placeholder: 'Location' },
+  { value: 'regex', label: 'Regex', placeholder: 'id=(\\d+)' },
+];
+
+export const createExtractionRule = (): ExtractionRule => ({
+  id: createId(),
+  enabled: true,
+  variable: '',
+  source: 'jsonPath',
+  expression: '$.',
+});
+
+export const updateExtractionRule = (rules: ExtractionRule[], id: string, changes: Partial<ExtractionRule>) =>
+  rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule));
+
+// Rules that are switched on and name a variable
+export const activeExtractionRules = (rules: ExtractionRule[]) =>
+  rules.filter((rule) => rule.enabled && rule.variable.trim() !== '');
+
+// Variables hold text, so anything but a string is stored as JSON
+const toVariableValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const extract = (rule: ExtractionRule, headers: Record<string, string>, text: string, body: () => unknown) => {
+  switch (rule.source) {
+    case 'jsonPath': {
+      const { found, value } = readJsonPath(body(), rule.expression);
+      return found ? toVariableValue(value) : null;
+    }
+    case 'header':
+      return getHeader(headers, rule.expression.trim()) ?? null;
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(rule.expression);
+      } catch (e) {
+        throw new Error(`Invalid regular expression: ${rule.expression}`);
+      }
+      const match = pattern.exec(text);
+      return match ? match[1] ?? match[0] : null;
+    }
+  }
+};
+
+// Runs the active rules against a response; the body is parsed only if a JSON path needs it
+export const runExtractions = (
+  rules: ExtractionRule[],
+  response: { headers: Record<string, string>; text: string }
+): ExtractionResult[] => {
+  const body = lazyJsonBody(response.text);
+  return activeExtractionRules(rules).map((rule) => {
+    const variable = rule.variable.trim();
+    try {
+      return { id: rule.id, variable, value: extract(rule, response.headers, response.text, body) };
+    } catch (e) {
+      return { id: rule.id, variable, value: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+};
+
+// The values that were found, as a name → value map ready to store
+export const extractedVariables = (results: ExtractionResult[]) => {
+  const variables: Record<string, string> = {};
+  results.forEach((result) => {
+    if (result.value !== null) variables[result.variable] = result.value;
+  });
+  return variables;
+};
@@ -0,0 +1,29 @@
+import { KeyValueRow, activeRows, findDuplicateKeys } from './keyValue';
+
+// Header names are case-insensitive, so duplicates are too
+export const findDuplicateHeaders = (rows: KeyValueRow[]) => findDuplicateKeys(rows, true);
+
+// Finds a header by name regardless of case
+export const getHeader = (headers: Record<string, string>, name: string) => {
+  const match = Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+  return match ? headers[match] : undefined;
+};
+
+export const removeHeader = (headers: Record<string, string>, name: string) => {
+  Object.keys(headers)
+    .filter((key) => key.toLowerCase() === name.toLowerCase())
+    .forEach((key) => delete headers[key]);
+};
+
+// Sets a header, replacing any existing entry with the same name in a different case
+export const setHeader = (headers: Record<string, string>, name: string, value: string) => {
+  removeHeader(headers, name);
+  headers[name] = value;
+};
+
+// Builds the request headers from the enabled rows; a later row overrides an earlier one
+export const buildHeaders = (rows: KeyValueRow[]) => {
+  const headers: Record<string, string> = {};
+  activeRows(rows).forEach((row) => setHeader(headers, row.key.trim(), row.value));
+  return headers;
+};
@@ -0,0 +1,70 @@
+// Splits JSON and markup into coloured tokens, so views render text nodes instead of injected HTML
+export type TokenKind = 'key' | 'string' | 'number' | 'boolean' | 'null' | 'tag' | 'attribute' | 'value' | 'comment' | 'plain';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+// Joins runs of plain text so a big body doesn't become one token per character
+const pushToken = (tokens: Token[], kind: TokenKind, text: string) => {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.kind === kind && kind === 'plain') last.text += text;
+  else tokens.push({ kind, text });
+};
+
+const JSON_TOKEN = /("(\\u[a-zA-Z0-9]{4}|\\[^u]|[^\\"])*"(\s*:)?|\b(true|false|null)\b|-?\d+(?:\.\d*)?(?:[eE][+-]?\d+)?)/g;
+
+export const highlightJson = (json: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  for (const match of json.matchAll(JSON_TOKEN)) {
+    pushToken(tokens, 'plain', json.slice(index, match.index));
+    const text = match[0];
+    let kind: TokenKind = 'number';
+    if (text.startsWith('"')) kind = /:$/.test(text) ? 'key' : 'string';
+    else if (text === 'true' || text === 'false') kind = 'boolean';
+    else if (text === 'null') kind = 'null';
+    pushToken(tokens, kind, text);
+    index = (match.index ?? 0) + text.length;
+  }
+  pushToken(tokens, 'plain', json.slice(index));
+  return tokens;
+};
+
+const MARKUP_TOKEN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?/]?[\w:.-]*(?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*[/?]?>/g;
+const ATTRIBUTE = /(\s+)([^\s=>/]+)(?:(\s*=\s*)("[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+// Tags, attributes and comments for XML and HTML; anything that doesn't parse as a tag stays plain
+export const highlightMarkup = (markup: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  for (const match of markup.matchAll(MARKUP_TOKEN)) {
+    pushToken(tokens, 'plain', markup.slice(index, match.index));
+    const text = match[0];
+    index = (match.index ?? 0) + text.length;
+    if (text.startsWith('<!--') || text.startsWith('<![CDATA[')) {
+      pushToken(tokens, 'comment', text);
+      continue;
+    }
+    const name = text.match(/^<[!?/]?[\w:.-]*/)?.[0] || '<';
+    const close = text.match(/\s*[/?]?>$/)?.[0] || '';
+    pushToken(tokens, 'tag', name);
+    const attributes = text.slice(name.length, text.length - close.length);
+    let attributeIndex = 0;
+    for (const attribute of attributes.matchAll(ATTRIBUTE)) {
+      pushToken(tokens, 'plain', attributes.slice(attributeIndex, attribute.index) + attribute[1]);
+      pushToken(tokens, 'attribute', attribute[2]);
+      if (attribute[3] !== undefined) {
+        pushToken(tokens, 'plain', attribute[3]);
+        pushToken(tokens, 'value', attribute[4]);
+      }
+      attributeIndex = (attribute.index ?? 0) + attribute[0].length;
+    }
+    pushToken(tokens, 'plain', attributes.slice(attributeIndex));
+    pushToken(tokens, 'tag', close);
+  }
+  pushToken(tokens, 'plain', markup.slice(index));
+  return tokens;
+};
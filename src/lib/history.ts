@@ -0,0 +1,100 @@
+import { createId } from './id';
+import { RequestDraft, buildFullUrl, upgradeDraft } from './request';
+import { StatusClass, getStatusClass } from './status';
+
+export const HISTORY_STORAGE_KEY = 'apiTesterHistory';
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_RESPONSE_LENGTH = 2000;
+// Compact JSON is kept whole up to this size, so responses from history can be compared
+export const MAX_HISTORY_JSON_LENGTH = 20000;
+// All the whole copies together stay under this, well within the storage quota the other lists share too
+export const HISTORY_JSON_BUDGET = 200000;
+
+export interface HistoryEntry {
+  id: string;
+  sentAt: number;
+  request: RequestDraft;
+  fullUrl: string;
+  status: number | null;
+  durationMs: number | null;
+  // The response body, cut down to keep storage small
+  response: string;
+  // The whole body as compact JSON, when it is JSON and small enough
+  json?: string;
+  error?: string;
+}
+
+export type HistoryFilter = StatusClass | 'all';
+
+export const truncateResponse = (text: string) =>
+  text.length > MAX_HISTORY_RESPONSE_LENGTH
+    ? `${text.slice(0, MAX_HISTORY_RESPONSE_LENGTH)}\n… (${text.length - MAX_HISTORY_RESPONSE_LENGTH} more characters)`
+    : text;
+
+const compactJson = (text: string) => {
+  try {
+    const compact = JSON.stringify(JSON.parse(text));
+    return compact.length <= MAX_HISTORY_JSON_LENGTH ? compact : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// The body to compare against: the whole compact copy when one was kept
+export const diffableResponse = (entry: HistoryEntry) => entry.json ?? entry.response;
+
+// Whether truncateResponse cut the stored body short and there's no whole copy to fall back on
+export const isResponseTruncated = (entry: HistoryEntry) =>
+  entry.json === undefined && /\n… \(\d+ more characters\)$/.test(entry.response);
+
+export const createHistoryEntry = (
+  request: RequestDraft,
+  result: { status: number | null; durationMs: number | null; response: string; error?: string }
+): HistoryEntry => ({
+  id: createId(),
+  sentAt: Date.now(),
+  request,
+  fullUrl: buildFullUrl(request),
+  status: result.status,
+  durationMs: result.durationMs,
+  response: truncateResponse(result.response),
+  json: compactJson(result.response),
+  error: result.error,
+});
+
+// Newest first, capped so storage doesn't grow without bound. Once the whole copies outgrow their budget,
+// the oldest entries give theirs up and keep only the shortened response
+export const addHistoryEntry = (entries: HistoryEntry[], entry: HistoryEntry) => {
+  let kept = 0;
+  return [entry, ...entries].slice(0, MAX_HISTORY_ENTRIES).map((item) => {
+    if (item.json === undefined) return item;
+    kept += item.json.length;
+    if (kept <= HISTORY_JSON_BUDGET) return item;
+    const trimmed = { ...item };
+    delete trimmed.json;
+    return trimmed;
+  });
+};
+
+// Stored history may be missing or written by an older version
+export const parseHistory = (data: string | null): HistoryEntry[] => {
+  if (!data) return [];
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed)
+      ? parsed.map((entry: HistoryEntry) => ({ ...entry, request: upgradeDraft(entry.request) }))
+      : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const filterHistory = (entries: HistoryEntry[], query: string, filter: HistoryFilter) => {
+  const needle = query.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (filter !== 'all' && getStatusClass(entry.status) !== filter) return false;
+    if (!needle) return true;
+    return [entry.request.method, entry.fullUrl, String(entry.status ?? ''), entry.request.body]
+      .some((field) => field.toLowerCase().includes(needle));
+  });
+};
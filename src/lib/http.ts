@@ -0,0 +1,55 @@
+// Shared HTTP helpers used by both the web and the Expo app
+
+export const STANDARD_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const;
+
+export type StandardMethod = typeof STANDARD_METHODS[number];
+
+// Any standard verb, or a custom one typed in by the user; the intersection keeps the standard names in autocomplete
+export type HttpMethod = StandardMethod | (string & NonNullable<unknown>);
+
+// Methods fetch() refuses to send
+const FORBIDDEN_METHODS = ['CONNECT', 'TRACE', 'TRACK'];
+
+// RFC 9110 token characters
+const METHOD_TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export const isStandardMethod = (method: string): method is StandardMethod =>
+  (STANDARD_METHODS as readonly string[]).includes(method);
+
+// Standard verbs are upper-cased; custom verbs keep their case since methods are case-sensitive
+export const normalizeMethod = (method: string): HttpMethod => {
+  const trimmed = method.trim();
+  const upper = trimmed.toUpperCase();
+  return isStandardMethod(upper) ? upper : trimmed;
+};
+
+// Returns an error message, or null if the method can be sent
+export const validateMethod = (method: string): string | null => {
+  const normalized = normalizeMethod(method);
+  if (!normalized) return 'Enter a custom HTTP method';
+  if (!METHOD_TOKEN.test(normalized)) return `"${normalized}" is not a valid HTTP method`;
+  if (FORBIDDEN_METHODS.includes(normalized.toUpperCase())) {
+    return `${normalized.toUpperCase()} requests cannot be sent from a browser`;
+  }
+  return null;
+};
+
+// fetch() rejects a body on GET and HEAD; every other verb may carry one
+export const methodAllowsBody = (method: string) => {
+  const upper = method.trim().toUpperCase();
+  return upper !== 'GET' && upper !== 'HEAD';
+};
+
+// HEAD and OPTIONS responses are described by their headers rather than a body
+export const isHeadersOnlyMethod = (method: string) => {
+  const upper = method.trim().toUpperCase();
+  return upper === 'HEAD' || upper === 'OPTIONS';
+};
+
+export const headersToObject = (headers: Headers) => {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+};
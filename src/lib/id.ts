@@ -0,0 +1,3 @@
+// Short unique ids for list rows and stored entries (crypto.randomUUID is not available everywhere)
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,152 @@
+import { JsonPathSegment, formatJsonPath, queryJsonPath } from './jsonPath';
+
+// A structural comparison of two JSON documents: object keys match by name whatever their order, array items by index
+
+export type JsonDiffKind = 'added' | 'removed' | 'changed';
+
+export interface JsonDiffEntry {
+  kind: JsonDiffKind;
+  path: JsonPathSegment[];
+  // Undefined on the side the node is missing from
+  before: unknown;
+  after: unknown;
+}
+
+export interface JsonDiffOptions {
+  // Off unless asked for: skips generated ids and bookkeeping keys, and changes between two timestamps under any key
+  ignoreVolatile: boolean;
+  // Key names, ignored wherever they appear, or JSONPath / jq-style paths such as $.meta or .items[].etag
+  ignore: string[];
+}
+
+export const DEFAULT_DIFF_OPTIONS: JsonDiffOptions = { ignoreVolatile: false, ignore: [] };
+
+// Compared without case, underscores or dashes, so created_at and createdAt are the same
+export const VOLATILE_KEYS = [
+  'id',
+  'uuid',
+  'guid',
+  'etag',
+  'nonce',
+  'timestamp',
+  'time',
+  'date',
+  'createdat',
+  'updatedat',
+  'modifiedat',
+  'deletedat',
+  'expiresat',
+  'lastmodified',
+  'requestid',
+  'traceid',
+  'correlationid',
+];
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[_-]/g, '');
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const isTimestamp = (value: unknown) => typeof value === 'string' && ISO_TIMESTAMP.test(value);
+
+const isPathPattern = (text: string) => /^[$.[]/.test(text);
+
+// One ignore entry per line or comma, blanks dropped
+export const parseIgnoreList = (text: string) =>
+  text
+    .split(/[\n,]/)
+    .map((item) => item.trim())
+    .filter((item) => item);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Own keys only, so a key named like an Object.prototype member isn't taken for one the document has
+const hasOwn = (object: Record<string, unknown>, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+const ownValue = (object: Record<string, unknown>, key: string) => (hasOwn(object, key) ? object[key] : undefined);
+
+// Paths of nodes either document has at an ignored path. Throws when a path doesn't parse
+const ignoredPaths = (before: unknown, after: unknown, patterns: string[]) => {
+  const ids = new Set<string>();
+  patterns.forEach((pattern) => {
+    [before, after].forEach((document) => {
+      queryJsonPath(document, pattern).forEach((match) => ids.add(formatJsonPath(match.path)));
+    });
+  });
+  return ids;
+};
+
+// Added, removed and changed nodes in document order. Containers of the same type are compared child by child,
+// so a change deep inside is reported at its own path rather than as a change to everything above it
+export const diffJson = (before: unknown, after: unknown, options: JsonDiffOptions = DEFAULT_DIFF_OPTIONS): JsonDiffEntry[] => {
+  const patterns = options.ignore.filter(isPathPattern);
+  const ignoredKeys = new Set(options.ignore.filter((item) => !isPathPattern(item)).map(normalizeKey));
+  if (options.ignoreVolatile) VOLATILE_KEYS.forEach((key) => ignoredKeys.add(key));
+  const ignored = ignoredPaths(before, after, patterns);
+
+  const entries: JsonDiffEntry[] = [];
+  const stack: { path: JsonPathSegment[]; before: unknown; after: unknown }[] = [{ path: [], before, after }];
+  while (stack.length > 0) {
+    const node = stack.pop() as (typeof stack)[number];
+    const key = node.path[node.path.length - 1];
+    if (typeof key === 'string' && ignoredKeys.has(normalizeKey(key))) continue;
+    if (node.path.length > 0 && ignored.has(formatJsonPath(node.path))) continue;
+
+    if (node.before === undefined) {
+      entries.push({ kind: 'added', ...node });
+      continue;
+    }
+    if (node.after === undefined) {
+      entries.push({ kind: 'removed', ...node });
+      continue;
+    }
+
+    const children: [JsonPathSegment, unknown, unknown][] = [];
+    if (Array.isArray(node.before) && Array.isArray(node.after)) {
+      for (let i = 0; i < Math.max(node.before.length, node.after.length); i++) {
+        children.push([i, node.before[i], node.after[i]]);
+      }
+    } else if (isObject(node.before) && isObject(node.after)) {
+      const beforeObject = node.before;
+      const afterObject = node.after;
+      // Keys of the first document in its order, then keys only the second has
+      const keys = [...Object.keys(beforeObject), ...Object.keys(afterObject).filter((name) => !hasOwn(beforeObject, name))];
+      keys.forEach((name) => children.push([name, ownValue(beforeObject, name), ownValue(afterObject, name)]));
+    } else {
+      if (node.before !== node.after && !(options.ignoreVolatile && isTimestamp(node.before) && isTimestamp(node.after))) {
+        entries.push({ kind: 'changed', ...node });
+      }
+      continue;
+    }
+    for (let i = children.length - 1; i >= 0; i--) {
+      const [segment, childBefore, childAfter] = children[i];
+      stack.push({ path: [...node.path, segment], before: childBefore, after: childAfter });
+    }
+  }
+  return entries;
+};
+
+export const summarizeDiff = (entries: JsonDiffEntry[]) => {
+  const counts: Record<JsonDiffKind, number> = { added: 0, removed: 0, changed: 0 };
+  entries.forEach((entry) => counts[entry.kind]++);
+  return counts;
+};
+
+// Reads one side of a comparison; a body history cut short can't be parsed, so that gets its own message
+export const parseDiffDocument = (text: string, truncated = false): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    if (truncated) throw new Error('History only keeps the start of long responses, so this one can\'t be compared');
+    throw new Error(`Not JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const VALUE_PREVIEW_LENGTH = 200;
+
+// A node as shown in a diff: compact JSON, cut short when long, and a dash on the side it's missing from
+export const formatDiffValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  const text = JSON.stringify(value);
+  return text.length > VALUE_PREVIEW_LENGTH ? `${text.slice(0, VALUE_PREVIEW_LENGTH)}…` : text;
+};
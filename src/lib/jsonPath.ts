@@ -0,0 +1,128 @@
+// Simple JSON paths such as $.data[0].id or $["x-total"], for picking values out of response bodies
+
+export type JsonPathSegment = string | number;
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  value !== null && typeof value === 'object';
+
+// Stands for every key or index at one level, in queries
+const WILDCARD = { wildcard: true } as const;
+
+type QuerySegment = JsonPathSegment | typeof WILDCARD;
+
+// Shared by paths and queries; only queries may use * wildcards
+const parseSegments = (path: string, allowWildcards: boolean): QuerySegment[] => {
+  const source = path.trim();
+  const segments: QuerySegment[] = [];
+  // $ and jq's . on their own mean the whole document
+  if (source === '$' || source === '.') return segments;
+  let i = source.startsWith('$') ? 1 : 0;
+  // A path like data.id, without the $, starts with a key
+  if (i === 0 && source !== '' && source[0] !== '.' && source[0] !== '[') {
+    const match = /^[^.[]+/.exec(source);
+    if (match) {
+      segments.push(allowWildcards && match[0] === '*' ? WILDCARD : match[0]);
+      i = match[0].length;
+    }
+  }
+
+  while (i < source.length) {
+    if (source[i] === '.' && source[i + 1] === '[') {
+      // jq writes .[0] and .["key"]
+      i += 1;
+    } else if (source[i] === '.') {
+      const match = /^[^.[]+/.exec(source.slice(i + 1));
+      if (!match) throw new Error(`Expected a key after "." at position ${i + 1} of ${path}`);
+      segments.push(allowWildcards && match[0] === '*' ? WILDCARD : match[0]);
+      i += 1 + match[0].length;
+    } else if (source[i] === '[') {
+      const rest = source.slice(i);
+      const index = /^\[\s*(-?\d+)\s*\]/.exec(rest);
+      const quoted = /^\[\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\s*\]/.exec(rest);
+      // [*] in JSONPath, [] in jq
+      const wildcard = allowWildcards ? /^\[\s*\*?\s*\]/.exec(rest) : null;
+      if (index) {
+        segments.push(Number(index[1]));
+        i += index[0].length;
+      } else if (quoted) {
+        const inner = quoted[1].slice(1, -1);
+        segments.push(quoted[1][0] === '"' ? JSON.parse(`"${inner}"`) : inner.replace(/\\(.)/g, '$1'));
+        i += quoted[0].length;
+      } else if (wildcard) {
+        segments.push(WILDCARD);
+        i += wildcard[0].length;
+      } else {
+        throw new Error(`Expected an index or quoted key at position ${i + 1} of ${path}`);
+      }
+    } else {
+      throw new Error(`Unexpected "${source[i]}" at position ${i + 1} of ${path}`);
+    }
+  }
+  return segments;
+};
+
+// Splits a path into keys and indexes; a leading $ is optional
+export const parseJsonPath = (path: string) => parseSegments(path, false) as JsonPathSegment[];
+
+// The value at path, or found: false when some part of it isn't there; negative indexes count from the end
+export const readJsonPath = (value: unknown, path: string): { found: boolean; value: unknown } => {
+  let current = value;
+  for (const segment of parseJsonPath(path)) {
+    if (Array.isArray(current) && typeof segment === 'number') {
+      const index = segment < 0 ? current.length + segment : segment;
+      if (index < 0 || index >= current.length) return { found: false, value: undefined };
+      current = current[index];
+    } else if (isContainer(current) && !Array.isArray(current) && Object.prototype.hasOwnProperty.call(current, String(segment))) {
+      current = current[String(segment)];
+    } else {
+      return { found: false, value: undefined };
+    }
+  }
+  return { found: true, value: current };
+};
+
+// Parses text the first time it's called and reuses the result; a body that isn't JSON throws on every call
+export const lazyJsonBody = (text: string) => {
+  let parsed: { value: unknown } | null = null;
+  return () => {
+    if (!parsed) {
+      try {
+        parsed = { value: JSON.parse(text) };
+      } catch (e) {
+        throw new Error("The response body isn't JSON");
+      }
+    }
+    return parsed.value;
+  };
+};
+
+// Writes segments back as a path that parseJsonPath reads, quoting keys that aren't plain identifiers
+export const formatJsonPath = (segments: JsonPathSegment[]) =>
+  segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${path}.${segment}` : `${path}[${JSON.stringify(segment)}]`;
+  }, '$');
+
+export interface JsonQueryMatch {
+  path: JsonPathSegment[];
+  value: unknown;
+}
+
+// Every value a query selects, with its full path. Takes JSONPath ($.items[*].id) or jq (.items[].id) syntax
+export const queryJsonPath = (value: unknown, query: string): JsonQueryMatch[] => {
+  let matches: JsonQueryMatch[] = [{ path: [], value }];
+  for (const segment of parseSegments(query, true)) {
+    matches = matches.flatMap(({ path, value: current }): JsonQueryMatch[] => {
+      if (typeof segment === 'object') {
+        if (Array.isArray(current)) return current.map((item, index) => ({ path: [...path, index], value: item }));
+        if (isContainer(current)) return Object.entries(current).map(([key, item]) => ({ path: [...path, key], value: item }));
+        return [];
+      }
+      const { found, value: next } = readJsonPath(current, formatJsonPath([segment]));
+      if (!found) return [];
+      const index = typeof segment === 'number' && Array.isArray(current) && segment < 0 ? current.length + segment : segment;
+      return [{ path: [...path, index], value: next }];
+    });
+  }
+  return matches;
+};
@@ -0,0 +1,167 @@
+import { JsonPathSegment, JsonQueryMatch, formatJsonPath } from './jsonPath';
+
+// A parsed JSON document flattened into the rows a tree viewer shows, honouring collapsed nodes
+
+export type JsonNodeType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+export interface JsonRow {
+  // The node's path, plus a suffix on the closing-bracket row of a container
+  id: string;
+  path: JsonPathSegment[];
+  depth: number;
+  // The key or index in the parent; the full path for roots picked by a filter; null for the document itself
+  label: string | number | null;
+  type: JsonNodeType;
+  // Set on primitive rows
+  value: unknown;
+  // Number of children, on container rows
+  size: number;
+  collapsed: boolean;
+  // The } or ] that ends an expanded container
+  closing: boolean;
+  // Followed by a comma unless it's the last in its parent
+  last: boolean;
+}
+
+// Which containers are collapsed: everything from autoCollapseDepth down, except where the user chose otherwise
+export interface JsonTreeState {
+  autoCollapseDepth: number;
+  // Path → true for expanded, false for collapsed
+  overrides: Record<string, boolean>;
+}
+
+// Past this many nodes, only the top levels start open so the first render stays quick
+export const LARGE_TREE_NODES = 20 * 1000;
+
+export const jsonNodeType = (value: unknown): JsonNodeType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'object' ? 'object' : type === 'number' ? 'number' : type === 'boolean' ? 'boolean' : 'string';
+};
+
+const children = (value: unknown): [JsonPathSegment, unknown][] => {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (value !== null && typeof value === 'object') return Object.entries(value);
+  return [];
+};
+
+// Counts nodes, stopping once it passes limit
+const countNodes = (value: unknown, limit: number): number => {
+  let count = 0;
+  const stack = [value];
+  while (stack.length > 0 && count <= limit) {
+    const next = stack.pop();
+    count++;
+    children(next).forEach(([, child]) => stack.push(child));
+  }
+  return count;
+};
+
+export const createJsonTreeState = (roots: JsonQueryMatch[]): JsonTreeState => {
+  const nodes = roots.reduce((total, root) => total + countNodes(root.value, LARGE_TREE_NODES), 0);
+  return { autoCollapseDepth: nodes > LARGE_TREE_NODES ? 1 : Infinity, overrides: {} };
+};
+
+export const isCollapsed = (state: JsonTreeState, id: string, depth: number) =>
+  state.overrides[id] === undefined ? depth >= state.autoCollapseDepth : !state.overrides[id];
+
+export const toggleNode = (state: JsonTreeState, row: JsonRow): JsonTreeState => ({
+  ...state,
+  overrides: { ...state.overrides, [row.id]: row.collapsed },
+});
+
+export const expandAll = (): JsonTreeState => ({ autoCollapseDepth: Infinity, overrides: {} });
+
+// Roots stay open so there's something to expand from
+export const collapseAll = (): JsonTreeState => ({ autoCollapseDepth: 1, overrides: {} });
+
+// Opens every container above path so its row is visible
+export const revealPath = (state: JsonTreeState, path: JsonPathSegment[]): JsonTreeState => {
+  const overrides = { ...state.overrides };
+  for (let length = 0; length < path.length; length++) {
+    overrides[formatJsonPath(path.slice(0, length))] = true;
+  }
+  return { ...state, overrides };
+};
+
+// The visible rows, in order. Walks with an explicit stack so deep documents can't overflow the call stack
+export const buildJsonRows = (roots: JsonQueryMatch[], state: JsonTreeState): JsonRow[] => {
+  const rows: JsonRow[] = [];
+  const labelRoots = roots.length !== 1 || roots[0].path.length > 0;
+  type Frame =
+    | { kind: 'node'; path: JsonPathSegment[]; value: unknown; depth: number; label: string | number | null; last: boolean }
+    | { kind: 'close'; row: JsonRow };
+  const stack: Frame[] = [];
+  for (let i = roots.length - 1; i >= 0; i--) {
+    const root = roots[i];
+    stack.push({
+      kind: 'node',
+      path: root.path,
+      value: root.value,
+      depth: 0,
+      label: labelRoots ? formatJsonPath(root.path) : null,
+      last: true,
+    });
+  }
+
+  while (stack.length > 0) {
+    const frame = stack.pop() as Frame;
+    if (frame.kind === 'close') {
+      rows.push(frame.row);
+      continue;
+    }
+    const { path, value, depth, label, last } = frame;
+    const id = formatJsonPath(path);
+    const type = jsonNodeType(value);
+    const isContainer = type === 'object' || type === 'array';
+    const entries = isContainer ? children(value) : [];
+    const collapsed = isContainer && entries.length > 0 && isCollapsed(state, id, depth);
+    const row: JsonRow = {
+      id,
+      path,
+      depth,
+      label,
+      type,
+      value: isContainer ? undefined : value,
+      size: entries.length,
+      collapsed,
+      closing: false,
+      last,
+    };
+    rows.push(row);
+    if (!isContainer || collapsed || entries.length === 0) continue;
+    stack.push({ kind: 'close', row: { ...row, id: `${id}#end`, label: null, closing: true } });
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const [key, child] = entries[i];
+      stack.push({ kind: 'node', path: [...path, key], value: child, depth: depth + 1, label: key, last: i === entries.length - 1 });
+    }
+  }
+  return rows;
+};
+
+// Stops collecting here; the count above it is reported as "more"
+export const SEARCH_MATCH_LIMIT = 10 * 1000;
+
+// Paths of nodes whose key or primitive value contains query, ignoring case, in document order
+export const searchJson = (roots: JsonQueryMatch[], query: string): JsonPathSegment[][] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const matches: JsonPathSegment[][] = [];
+  const stack: { path: JsonPathSegment[]; value: unknown; key: JsonPathSegment | null }[] = [];
+  for (let i = roots.length - 1; i >= 0; i--) stack.push({ ...roots[i], key: null });
+  while (stack.length > 0 && matches.length < SEARCH_MATCH_LIMIT) {
+    const { path, value, key } = stack.pop() as (typeof stack)[number];
+    const keyMatches = typeof key === 'string' && key.toLowerCase().includes(needle);
+    const valueMatches = (value === null || typeof value !== 'object') && String(value).toLowerCase().includes(needle);
+    if (keyMatches || valueMatches) matches.push(path);
+    const entries = children(value);
+    for (let i = entries.length - 1; i >= 0; i--) {
+      stack.push({ path: [...path, entries[i][0]], value: entries[i][1], key: entries[i][0] });
+    }
+  }
+  return matches;
+};
+
+// How a primitive appears in the tree
+export const formatJsonValue = (value: unknown) => (typeof value === 'string' ? JSON.stringify(value) : String(value));
@@ -0,0 +1,40 @@
+import { createId } from './id';
+
+// A single editable key/value row, used by the header, param and form editors
+export interface KeyValueRow {
+  id: string;
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+export const createRow = (key = '', value = '', enabled = true): KeyValueRow => ({
+  id: createId(),
+  key,
+  value,
+  enabled,
+});
+
+// Rows that are switched on and have a key
+export const activeRows = (rows: KeyValueRow[]) =>
+  rows.filter((row) => row.enabled && row.key.trim() !== '');
+
+// Keys (as typed by the user) that appear on more than one active row
+export const findDuplicateKeys = (rows: KeyValueRow[], caseInsensitive = false) => {
+  const normalize = (key: string) => (caseInsensitive ? key.trim().toLowerCase() : key.trim());
+  const counts = new Map<string, number>();
+  activeRows(rows).forEach((row) => {
+    const key = normalize(row.key);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return new Set(
+    activeRows(rows)
+      .filter((row) => (counts.get(normalize(row.key)) || 0) > 1)
+      .map((row) => normalize(row.key))
+  );
+};
+
+export const updateRow = <T extends KeyValueRow>(rows: T[], id: string, changes: Partial<T>) =>
+  rows.map((row) => (row.id === id ? { ...row, ...changes } : row));
+
+export const removeRow = <T extends KeyValueRow>(rows: T[], id: string) => rows.filter((row) => row.id !== id);
@@ -0,0 +1,183 @@
+import { RequestAbortedError, RequestBuildError } from './errors';
+import { encodeForm } from './body';
+import { createRow } from './keyValue';
+import { AuthConfig } from './auth';
+import { md5 } from './md5';
+import { ExecuteOptions, withAbort } from './request';
+
+export const OAUTH_TOKENS_STORAGE_KEY = 'apiTesterOAuthTokens';
+
+// A token endpoint answered inside the app, for trying the flow without a server
+export const MOCK_TOKEN_URL = 'mock://oauth/token';
+const MOCK_TOKEN_LIFETIME_S = 60;
+
+// Tokens are refreshed this long before they expire, so they don't lapse in flight
+export const REFRESH_MARGIN_MS = 30 * 1000;
+
+export type OAuthGrantType = 'client_credentials' | 'password';
+
+export const OAUTH_GRANT_TYPES: { value: OAuthGrantType; label: string }[] = [
+  { value: 'client_credentials', label: 'Client credentials' },
+  { value: 'password', label: 'Password' },
+];
+
+export interface OAuthToken {
+  accessToken: string;
+  tokenType: string;
+  refreshToken: string | null;
+  // Epoch milliseconds, or null when the server didn't say
+  expiresAt: number | null;
+  scope: string;
+  obtainedAt: number;
+}
+
+// Fetched tokens, keyed by the settings that produced them
+export type TokenCache = Record<string, OAuthToken>;
+
+export type TokenStatus = 'missing' | 'valid' | 'expiring' | 'expired';
+
+// The secrets go in hashed, so changing one fetches a new token without the cache holding them in plain text
+export const tokenCacheKey = (auth: AuthConfig) =>
+  [
+    auth.tokenUrl,
+    auth.grantType,
+    auth.clientId,
+    auth.scope,
+    auth.grantType === 'password' ? auth.username : '',
+    md5(`${auth.clientSecret}|${auth.grantType === 'password' ? auth.password : ''}`),
+  ].join('|');
+
+export const getTokenStatus = (token: OAuthToken | null | undefined, now = Date.now()): TokenStatus => {
+  if (!token) return 'missing';
+  if (token.expiresAt === null) return 'valid';
+  if (token.expiresAt <= now) return 'expired';
+  return token.expiresAt - now <= REFRESH_MARGIN_MS ? 'expiring' : 'valid';
+};
+
+export const describeTokenStatus = (token: OAuthToken | null | undefined, now = Date.now()) => {
+  const status = getTokenStatus(token, now);
+  if (!token || status === 'missing') return 'No token yet; one is fetched when sending';
+  if (token.expiresAt === null) return 'Valid, no expiry given';
+  if (status === 'expired') return 'Expired; refreshed when sending';
+  const seconds = Math.round((token.expiresAt - now) / 1000);
+  const left = seconds >= 120 ? `${Math.round(seconds / 60)} min` : `${seconds} s`;
+  return status === 'expiring' ? `Expires in ${left}; refreshed when sending` : `Valid for ${left}`;
+};
+
+export const parseTokenCache = (data: string | null): TokenCache => {
+  if (!data) return {};
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const mockTokenResponse = (params: Record<string, string>) => {
+  if (!params.client_id) return { error: 'invalid_client', error_description: 'client_id is required' };
+  if (params.grant_type === 'password' && !params.username) {
+    return { error: 'invalid_grant', error_description: 'username is required' };
+  }
+  if (params.grant_type === 'refresh_token' && !params.refresh_token?.startsWith('mock-refresh-')) {
+    return { error: 'invalid_grant', error_description: 'Unknown refresh token' };
+  }
+  const id = Math.random().toString(36).slice(2, 10);
+  return {
+    access_token: `mock-access-${id}`,
+    token_type: 'Bearer',
+    expires_in: MOCK_TOKEN_LIFETIME_S,
+    refresh_token: `mock-refresh-${id}`,
+    scope: params.scope || '',
+  };
+};
+
+// Cancelling the send or running out of its time stops the token request too
+const requestToken = async (
+  auth: AuthConfig,
+  params: Record<string, string>,
+  options: ExecuteOptions = {}
+): Promise<OAuthToken> => {
+  const body = { ...params, client_id: auth.clientId, client_secret: auth.clientSecret, scope: auth.scope };
+  // Empty fields are left out, since some servers reject them
+  const fields = Object.entries(body).filter(([, value]) => value !== '').map(([key, value]) => createRow(key, value));
+
+  let data;
+  if (auth.tokenUrl.trim() === MOCK_TOKEN_URL) {
+    data = mockTokenResponse(Object.fromEntries(fields.map((row) => [row.key, row.value])));
+  } else {
+    let res: Response;
+    let text: string;
+    try {
+      ({ res, text } = await withAbort(options, async (signal) => {
+        const response = await fetch(auth.tokenUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8', Accept: 'application/json' },
+          body: encodeForm(fields),
+          signal,
+        });
+        return { res: response, text: await response.text() };
+      }));
+    } catch (e) {
+      if (e instanceof RequestAbortedError) throw e;
+      throw new RequestBuildError(`OAuth token request failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      throw new RequestBuildError(`OAuth token endpoint answered ${res.status} without JSON`);
+    }
+    // Valid JSON such as null or a bare string has no fields to read
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new RequestBuildError(`OAuth token endpoint answered ${res.status} without a JSON object`);
+    }
+  }
+
+  if (!data.access_token) {
+    const reason = data.error_description || data.error || 'no access_token in the response';
+    throw new RequestBuildError(`OAuth token request failed: ${reason}`);
+  }
+  const now = Date.now();
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    // Servers often say 'bearer', but some APIs only accept the capitalized scheme
+    tokenType: !data.token_type || /^bearer$/i.test(data.token_type) ? 'Bearer' : data.token_type,
+    refreshToken: data.refresh_token || params.refresh_token || null,
+    expiresAt: expiresIn > 0 ? now + expiresIn * 1000 : null,
+    scope: data.scope ?? auth.scope,
+    obtainedAt: now,
+  };
+};
+
+// Fetches a token with the configured grant, ignoring any cached one
+export const fetchToken = async (auth: AuthConfig, options: ExecuteOptions = {}) => {
+  if (!auth.tokenUrl.trim()) throw new RequestBuildError('OAuth 2.0 needs a token URL');
+  return requestToken(
+    auth,
+    auth.grantType === 'password'
+      ? { grant_type: 'password', username: auth.username, password: auth.password }
+      : { grant_type: 'client_credentials' },
+    options
+  );
+};
+
+// A token that is good to send: the cached one while it's fresh, else refreshed, else fetched anew
+export const ensureToken = async (auth: AuthConfig, tokens: TokenCache, options: ExecuteOptions = {}) => {
+  const key = tokenCacheKey(auth);
+  const cached = tokens[key];
+  if (cached && getTokenStatus(cached) === 'valid') return { token: cached, tokens };
+
+  let token: OAuthToken | null = null;
+  if (cached?.refreshToken) {
+    try {
+      token = await requestToken(auth, { grant_type: 'refresh_token', refresh_token: cached.refreshToken }, options);
+    } catch (e) {
+      if (e instanceof RequestAbortedError) throw e;
+      // The refresh token may have expired too; start over with the grant
+      token = null;
+    }
+  }
+  if (!token) token = await fetchToken(auth, options);
+  return { token, tokens: { ...tokens, [key]: token } };
+};
@@ -0,0 +1,451 @@
+import { createId } from './id';
+import { SavedRequestData } from './collections';
+import { DEFAULT_TIMEOUT_MS, upgradeDraft } from './request';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import { BodyDraft, MultipartField, createDefaultBodyDraft, createMultipartField } from './body';
+import { createAuth } from './auth';
+import { KeyValueRow, createRow } from './keyValue';
+import { replaceUrlQuery } from './query';
+import { parseYaml } from './yaml';
+import { ResponseContract } from './schema';
+
+// Stored next to the apiTesterCollections key
+export const API_SPECS_STORAGE_KEY = 'apiTesterApiSpecs';
+
+export interface ApiServer {
+  url: string;
+  description: string;
+}
+
+export interface ApiOperation {
+  id: string;
+  method: string;
+  path: string;
+  name: string;
+  deprecated: boolean;
+  // The form as picking the operation fills it, with examples from the spec
+  request: SavedRequestData;
+  // Body schema by declared status (200, 4XX, default), null where the body isn't JSON;
+  // null as a whole for specs imported before responses were kept
+  responses: Record<string, unknown> | null;
+}
+
+export interface ApiTag {
+  name: string;
+  operations: ApiOperation[];
+}
+
+export interface ApiSpec {
+  id: string;
+  title: string;
+  version: string;
+  servers: ApiServer[];
+  tags: ApiTag[];
+  // The components (or Swagger definitions) that response schemas' $refs point into, kept at their pointers
+  schemaRoot: Record<string, unknown>;
+}
+
+type SpecNode = Record<string, unknown>;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Nested schemas are cut off this deep, which also stops runaway recursion
+const MAX_EXAMPLE_DEPTH = 8;
+
+const UNTAGGED = 'Other';
+
+const isNode = (value: unknown): value is SpecNode =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const node = (value: unknown): SpecNode => (isNode(value) ? value : {});
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const text = (value: unknown) => (typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value));
+
+// The keys of a local JSON pointer like #/components/schemas/User
+const pointerKeys = (ref: string) =>
+  ref
+    .slice(2)
+    .split('/')
+    .map((part) => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+// Follows a local "#/..." $ref; refs to other files can't be followed and come back empty
+const deref = (root: SpecNode, value: unknown, seen: string[] = []): SpecNode => {
+  const current = node(value);
+  const ref = current.$ref;
+  if (typeof ref !== 'string') return current;
+  if (!ref.startsWith('#/') || seen.includes(ref)) return {};
+  const target = pointerKeys(ref).reduce<unknown>((at, key) => node(at)[key], root);
+  return deref(root, target, [...seen, ref]);
+};
+
+// Just the parts of the spec that the response schemas reach through $refs, directly or via other schemas,
+// at the same pointers, so stored specs don't carry every component
+const referencedSchemaRoot = (root: SpecNode, schemas: unknown[]): SpecNode => {
+  const pruned: SpecNode = {};
+  const followed = new Set<string>();
+  const pending = [...schemas];
+  while (pending.length > 0) {
+    const value = pending.pop();
+    if (Array.isArray(value)) {
+      pending.push(...value);
+      continue;
+    }
+    if (!isNode(value)) continue;
+    const ref = value.$ref;
+    if (typeof ref === 'string' && ref.startsWith('#/') && !followed.has(ref)) {
+      followed.add(ref);
+      const keys = pointerKeys(ref);
+      const target = keys.reduce<unknown>((at, key) => node(at)[key], root);
+      if (target !== undefined) {
+        let at = pruned;
+        keys.slice(0, -1).forEach((key) => {
+          if (!isNode(at[key])) at[key] = {};
+          at = at[key] as SpecNode;
+        });
+        at[keys[keys.length - 1]] = target;
+        pending.push(target);
+      }
+    }
+    pending.push(...Object.values(value));
+  }
+  return pruned;
+};
+
+const STRING_FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  time: '12:00:00',
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '192.0.2.1',
+  ipv6: '2001:db8::1',
+  binary: '',
+  byte: '',
+};
+
+// A value shaped like the schema: its own example or default when it has one, else a placeholder
+export const exampleFromSchema = (root: SpecNode, value: unknown, depth = 0, refs: string[] = []): unknown => {
+  const ref = node(value).$ref;
+  if (typeof ref === 'string' && refs.includes(ref)) return null;
+  const nextRefs = typeof ref === 'string' ? [...refs, ref] : refs;
+  const schema = deref(root, value);
+  if (depth > MAX_EXAMPLE_DEPTH) return null;
+
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  const child = (inner: unknown) => exampleFromSchema(root, inner, depth + 1, nextRefs);
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map(child);
+    return parts.every(isNode) ? Object.assign({}, ...parts) : parts[parts.length - 1] ?? null;
+  }
+  const choices = list(schema.oneOf).length > 0 ? list(schema.oneOf) : list(schema.anyOf);
+  if (choices.length > 0) return child(choices[0]);
+
+  // OpenAPI 3.1 allows a list of types, such as ["string", "null"]
+  const types = Array.isArray(schema.type) ? schema.type.map(text) : [text(schema.type)];
+  const type = types.find((candidate) => candidate && candidate !== 'null')
+    || (isNode(schema.properties) ? 'object' : schema.items !== undefined ? 'array' : '');
+
+  switch (type) {
+    case 'object': {
+      const properties = node(schema.properties);
+      const result: SpecNode = {};
+      Object.keys(properties).forEach((key) => {
+        if (!deref(root, properties[key]).readOnly) result[key] = child(properties[key]);
+      });
+      if (Object.keys(properties).length === 0 && isNode(schema.additionalProperties)) {
+        result.key = child(schema.additionalProperties);
+      }
+      return result;
+    }
+    case 'array':
+      return [child(schema.items)];
+    case 'string': {
+      const format = text(schema.format);
+      return format in STRING_FORMAT_EXAMPLES ? STRING_FORMAT_EXAMPLES[format] : 'string';
+    }
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+};
+
+const stringify = (value: unknown) => (isNode(value) || Array.isArray(value) ? JSON.stringify(value) : text(value));
+
+// A parameter's value only when the spec gives one; type placeholders would just need clearing
+const parameterExample = (root: SpecNode, parameter: SpecNode) => {
+  if (parameter.example !== undefined) return stringify(parameter.example);
+  const examples = Object.values(node(parameter.examples));
+  if (examples.length > 0) return stringify(deref(root, examples[0]).value);
+  // Swagger 2 puts the schema fields on the parameter itself
+  const schema = parameter.schema !== undefined ? deref(root, parameter.schema) : parameter;
+  if (schema.example !== undefined) return stringify(schema.example);
+  if (schema.default !== undefined) return stringify(schema.default);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return stringify(schema.enum[0]);
+  return '';
+};
+
+// Path-level parameters apply to every operation unless one redefines them
+const mergeParameters = (root: SpecNode, pathLevel: unknown, operationLevel: unknown) => {
+  const merged = new Map<string, SpecNode>();
+  [...list(pathLevel), ...list(operationLevel)].forEach((value) => {
+    const parameter = deref(root, value);
+    if (parameter.name) merged.set(`${text(parameter.in)}:${text(parameter.name)}`, parameter);
+  });
+  return Array.from(merged.values());
+};
+
+const pickMediaType = (content: SpecNode) => {
+  const types = Object.keys(content);
+  return (
+    types.find((type) => /[/+]json\b/i.test(type))
+    || types.find((type) => type.startsWith('application/x-www-form-urlencoded'))
+    || types.find((type) => type.startsWith('multipart/form-data'))
+    || types[0]
+    || null
+  );
+};
+
+const formRows = (example: unknown) =>
+  Object.entries(node(example)).map(([key, value]) => createRow(key, stringify(value)));
+
+const multipartRows = (root: SpecNode, schema: SpecNode, example: unknown): MultipartField[] => {
+  const properties = node(schema.properties);
+  const values = node(example);
+  return Object.keys(properties).map((key) => {
+    const property = deref(root, properties[key]);
+    const isFile = property.format === 'binary' || property.type === 'file'
+      || node(deref(root, property.items)).format === 'binary';
+    return isFile
+      ? { ...createMultipartField('file'), key }
+      : { ...createMultipartField('text'), key, value: stringify(values[key]) };
+  });
+};
+
+const bodyFor = (root: SpecNode, contentType: string | null, schema: SpecNode, example: unknown): Partial<BodyDraft> => {
+  if (!contentType) return {};
+  const type = contentType.toLowerCase();
+  if (/[/+]json\b/.test(type)) {
+    return { bodyType: 'json', body: example === null || example === undefined ? '' : JSON.stringify(example, null, 2) };
+  }
+  if (type.startsWith('application/x-www-form-urlencoded')) return { bodyType: 'form', formFields: formRows(example) };
+  if (type.startsWith('multipart/form-data')) return { bodyType: 'multipart', multipartFields: multipartRows(root, schema, example) };
+  if (type === 'application/octet-stream' || schema.format === 'binary') return { bodyType: 'binary' };
+  return { bodyType: 'raw', rawContentType: contentType, body: typeof example === 'string' ? example : '' };
+};
+
+// OpenAPI 3 describes the body in requestBody.content
+const openApiBody = (root: SpecNode, operation: SpecNode) => {
+  const content = node(deref(root, operation.requestBody).content);
+  const contentType = pickMediaType(content);
+  if (!contentType) return {};
+  const media = node(content[contentType]);
+  const schema = deref(root, media.schema);
+  const examples = Object.values(node(media.examples));
+  const example = media.example !== undefined
+    ? media.example
+    : examples.length > 0
+      ? deref(root, examples[0]).value
+      : exampleFromSchema(root, media.schema);
+  return bodyFor(root, contentType, schema, example);
+};
+
+// Swagger 2 uses an "in: body" parameter, or "in: formData" ones
+const swaggerBody = (root: SpecNode, operation: SpecNode, parameters: SpecNode[]) => {
+  const consumes = list(operation.consumes ?? root.consumes).map(text);
+  const bodyParameter = parameters.find((parameter) => parameter.in === 'body');
+  if (bodyParameter) {
+    const contentType = consumes.find((type) => /[/+]json\b/i.test(type)) || consumes[0] || 'application/json';
+    return bodyFor(root, contentType, deref(root, bodyParameter.schema), exampleFromSchema(root, bodyParameter.schema));
+  }
+  const formParameters = parameters.filter((parameter) => parameter.in === 'formData');
+  if (formParameters.length === 0) return {};
+  const multipart = formParameters.some((parameter) => parameter.type === 'file')
+    || consumes.some((type) => type.startsWith('multipart/form-data'));
+  const schema = { properties: Object.fromEntries(formParameters.map((parameter) => [text(parameter.name), parameter])) };
+  const example = Object.fromEntries(formParameters.map((parameter) => [text(parameter.name), parameterExample(root, parameter)]));
+  return bodyFor(root, multipart ? 'multipart/form-data' : 'application/x-www-form-urlencoded', schema, example);
+};
+
+const buildRequest = (root: SpecNode, method: string, path: string, operation: SpecNode, parameters: SpecNode[]): SavedRequestData => {
+  const pathParams: Record<string, string> = {};
+  const params: KeyValueRow[] = [];
+  const headers: KeyValueRow[] = [];
+  parameters.forEach((parameter) => {
+    const name = text(parameter.name);
+    const value = parameterExample(root, parameter);
+    // Optional parameters are listed but switched off
+    if (parameter.in === 'path') pathParams[name] = value;
+    else if (parameter.in === 'query') params.push(createRow(name, value, parameter.required === true));
+    else if (parameter.in === 'header') headers.push(createRow(name, value, parameter.required === true));
+  });
+
+  const body = root.swagger ? swaggerBody(root, operation, parameters) : openApiBody(root, operation);
+  return {
+    method: method.toUpperCase(),
+    url: replaceUrlQuery(path, params),
+    pathParams,
+    params,
+    headers,
+    auth: createAuth(),
+    responseSchema: '',
+    assertions: [],
+    extractions: [],
+    preRequestScript: '',
+    postResponseScript: '',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    retry: DEFAULT_RETRY_POLICY,
+    ...createDefaultBodyDraft(),
+    ...(body.bodyType ? body : { bodyType: 'none' }),
+  };
+};
+
+const responseSchemas = (root: SpecNode, operation: SpecNode) =>
+  Object.fromEntries(
+    Object.entries(node(operation.responses)).map(([status, value]) => {
+      const response = deref(root, value);
+      if (root.swagger) return [status, response.schema ?? null];
+      const content = node(response.content);
+      const jsonType = Object.keys(content).find((type) => /[/+]json\b/i.test(type));
+      return [status, jsonType ? node(content[jsonType]).schema ?? null : null];
+    })
+  );
+
+const openApiServers = (root: SpecNode): ApiServer[] =>
+  list(root.servers).map((value) => {
+    const server = node(value);
+    const variables = node(server.variables);
+    // Server URLs may hold {variables}; their defaults give a usable URL
+    const url = text(server.url).replace(/\{([^}]+)\}/g, (match, name) => text(node(variables[name]).default) || match);
+    return { url: url.replace(/\/$/, ''), description: text(server.description) };
+  });
+
+const swaggerServers = (root: SpecNode): ApiServer[] => {
+  if (!root.host) return [];
+  const schemes = list(root.schemes).map(text);
+  const basePath = text(root.basePath).replace(/\/$/, '');
+  return (schemes.length > 0 ? schemes : ['https']).map((scheme) => ({
+    url: `${scheme}://${text(root.host)}${basePath}`,
+    description: '',
+  }));
+};
+
+const parseDocument = (source: string): unknown => {
+  const trimmed = source.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`The file isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return parseYaml(source);
+};
+
+// Reads an OpenAPI 3 or Swagger 2 spec, in JSON or YAML, into a tree of operations grouped by tag
+export const importApiSpec = (source: string): ApiSpec => {
+  const root = node(parseDocument(source));
+  if (!root.swagger && !root.openapi) throw new Error('The file isn\'t an OpenAPI 3 or Swagger 2 spec');
+  if (root.swagger && !text(root.swagger).startsWith('2')) throw new Error(`Swagger ${text(root.swagger)} isn't supported; use 2.0`);
+  const info = node(root.info);
+
+  const tags = new Map<string, ApiOperation[]>();
+  // The spec's own tag list sets the order; tags it leaves out follow as they appear
+  list(root.tags).forEach((tag) => tags.set(text(node(tag).name), []));
+
+  Object.entries(node(root.paths)).forEach(([path, value]) => {
+    const pathItem = deref(root, value);
+    HTTP_METHODS.forEach((method) => {
+      if (!isNode(pathItem[method])) return;
+      const operation = node(pathItem[method]);
+      const parameters = mergeParameters(root, pathItem.parameters, operation.parameters);
+      const tag = text(list(operation.tags)[0]) || UNTAGGED;
+      if (!tags.has(tag)) tags.set(tag, []);
+      (tags.get(tag) as ApiOperation[]).push({
+        id: createId(),
+        method: method.toUpperCase(),
+        path,
+        name: text(operation.summary) || text(operation.operationId) || path,
+        deprecated: operation.deprecated === true,
+        request: buildRequest(root, method, path, operation, parameters),
+        responses: responseSchemas(root, operation),
+      });
+    });
+  });
+
+  const operations = Array.from(tags.values()).flat();
+  if (operations.length === 0) throw new Error('The spec has no operations under paths');
+
+  return {
+    id: createId(),
+    title: text(info.title) || 'Untitled API',
+    version: text(info.version),
+    servers: (root.swagger ? swaggerServers(root) : openApiServers(root)).filter((server) => /^https?:\/\//i.test(server.url)),
+    tags: Array.from(tags.entries())
+      .filter(([, tagOperations]) => tagOperations.length > 0)
+      .map(([name, tagOperations]) => ({ name, operations: tagOperations })),
+    schemaRoot: referencedSchemaRoot(root, operations.map((operation) => operation.responses)),
+  };
+};
+
+// Base URL choices from every imported spec, without repeats
+export const listApiServers = (specs: ApiSpec[]) => {
+  const servers = new Map<string, ApiServer & { spec: string }>();
+  specs.forEach((spec) =>
+    spec.servers.forEach((server) => {
+      if (!servers.has(server.url)) servers.set(server.url, { ...server, spec: spec.title });
+    })
+  );
+  return Array.from(servers.values());
+};
+
+// Brings operations stored by older versions up to the current request shape
+const upgradeSpec = (spec: ApiSpec): ApiSpec => ({
+  ...spec,
+  schemaRoot: spec.schemaRoot ?? {},
+  tags: spec.tags.map((tag) => ({
+    ...tag,
+    operations: tag.operations.map((operation) => ({
+      ...operation,
+      request: upgradeDraft(operation.request),
+      responses: operation.responses ?? null,
+    })),
+  })),
+});
+
+export const parseApiSpecs = (data: string | null): ApiSpec[] => {
+  if (!data) return [];
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed.map(upgradeSpec) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const findApiOperation = (specs: ApiSpec[], id: string) => {
+  for (const spec of specs) {
+    const operation = spec.tags.flatMap((tag) => tag.operations).find((candidate) => candidate.id === id);
+    if (operation) return { spec, operation };
+  }
+  return null;
+};
+
+// What a response to the operation should look like, when the spec says
+export const operationContract = (spec: ApiSpec, operation: ApiOperation): ResponseContract | null =>
+  operation.responses
+    ? { source: `${spec.title}: ${operation.method} ${operation.path}`, root: spec.schemaRoot, responses: operation.responses, schema: null }
+    : null;
@@ -0,0 +1,26 @@
+// Route parameters in the endpoint path: /users/:id or /users/{id}
+// (a {{variable}} is left alone, and a colon only counts at the start of a segment)
+const COLON_PARAM = /(^|\/):([A-Za-z_][A-Za-z0-9_]*)/g;
+const BRACE_PARAM = /(?<!\{)\{([A-Za-z_][A-Za-z0-9_.-]*)\}(?!\})/g;
+
+// Names in the order they appear, each listed once
+export const findPathParams = (path: string) => {
+  const found: { name: string; index: number }[] = [];
+  for (const match of path.matchAll(COLON_PARAM)) found.push({ name: match[2], index: match.index ?? 0 });
+  for (const match of path.matchAll(BRACE_PARAM)) found.push({ name: match[1], index: match.index ?? 0 });
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map((param) => param.name)
+    .filter((name, i, names) => names.indexOf(name) === i);
+};
+
+// Parameters without a value are left in place
+export const substitutePathParams = (path: string, values: Record<string, string>) => {
+  const fillColon = (whole: string, prefix: string, name: string) =>
+    values[name] ? `${prefix}${encodeURIComponent(values[name])}` : whole;
+  const fillBrace = (whole: string, name: string) => (values[name] ? encodeURIComponent(values[name]) : whole);
+  return path.replace(COLON_PARAM, fillColon).replace(BRACE_PARAM, fillBrace);
+};
+
+export const findMissingPathParams = (path: string, values: Record<string, string>) =>
+  findPathParams(path).filter((name) => !values[name]);
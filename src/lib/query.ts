@@ -0,0 +1,83 @@
+import { KeyValueRow, activeRows, createRow } from './keyValue';
+
+const PLACEHOLDER = /(\{\{[^{}]*\}\})/;
+
+export interface UrlParts {
+  path: string;
+  // Without the leading '?'
+  query: string;
+  // Including the leading '#', or empty
+  hash: string;
+}
+
+export const splitUrl = (url: string): UrlParts => {
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex >= 0 ? url.slice(hashIndex) : '';
+  const rest = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = rest.indexOf('?');
+  return {
+    path: queryIndex >= 0 ? rest.slice(0, queryIndex) : rest,
+    query: queryIndex >= 0 ? rest.slice(queryIndex + 1) : '',
+    hash,
+  };
+};
+
+// Percent-encodes a key or value, leaving {{placeholders}} readable and the [] of array keys intact
+export const encodeQueryPart = (text: string, isKey = false) =>
+  text
+    .split(PLACEHOLDER)
+    .map((part) => {
+      if (PLACEHOLDER.test(part)) return part;
+      const encoded = encodeURIComponent(part);
+      return isKey ? encoded.replace(/%5B/gi, '[').replace(/%5D/gi, ']') : encoded;
+    })
+    .join('');
+
+// '+' means a space in query strings; malformed escapes are kept as typed
+export const decodeQueryPart = (text: string) => {
+  const spaced = text.replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(spaced);
+  } catch (e) {
+    return spaced;
+  }
+};
+
+// One row per pair, so repeated keys (a=1&a=2) and array keys (a[]=1) stay as written
+export const parseQuery = (query: string): KeyValueRow[] =>
+  query
+    .split('&')
+    .filter((pair) => pair !== '')
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      return eq >= 0
+        ? createRow(decodeQueryPart(pair.slice(0, eq)), decodeQueryPart(pair.slice(eq + 1)))
+        : createRow(decodeQueryPart(pair), '');
+    });
+
+// Enabled rows as an encoded query string, without the leading '?'
+export const serializeQuery = (rows: KeyValueRow[]) =>
+  activeRows(rows)
+    .map((row) => {
+      const key = encodeQueryPart(row.key.trim(), true);
+      return row.value === '' ? key : `${key}=${encodeQueryPart(row.value)}`;
+    })
+    .join('&');
+
+// Rows after the user edited the URL: the query string decides the enabled rows,
+// disabled rows are kept since the URL can't show them
+export const syncParamsFromUrl = (url: string, rows: KeyValueRow[]) => {
+  const enabled = rows.filter((row) => row.enabled);
+  const parsed = parseQuery(splitUrl(url).query).map((row, index) =>
+    // Reuse ids by position so inputs keep focus while typing
+    enabled[index] ? { ...row, id: enabled[index].id } : row
+  );
+  return [...parsed, ...rows.filter((row) => !row.enabled)];
+};
+
+// The URL after the user edited the table
+export const replaceUrlQuery = (url: string, rows: KeyValueRow[]) => {
+  const { path, hash } = splitUrl(url);
+  const query = serializeQuery(rows);
+  return `${path}${query ? `?${query}` : ''}${hash}`;
+};
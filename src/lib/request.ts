@@ -0,0 +1,230 @@
+import { HttpMethod, headersToObject, methodAllowsBody, normalizeMethod, validateMethod } from './http';
+import { buildHeaders, getHeader, removeHeader } from './headers';
+import { Assertion } from './assertions';
+import { ExtractionRule } from './extraction';
+import { RetryPolicy, upgradeRetryPolicy } from './retry';
+import { AUTH_PROVIDERS, AuthConfig, createAuth, upgradeAuth } from './auth';
+import { BodyDraft, createDefaultBodyDraft, encodeBody } from './body';
+import { KeyValueRow } from './keyValue';
+import { parseQuery, serializeQuery, splitUrl } from './query';
+import { findMissingPathParams, substitutePathParams } from './pathParams';
+import { RequestAbortedError, RequestBuildError } from './errors';
+import { ResponseMeta, parseContentLength } from './response';
+import { ResponseBody, readResponseBody } from './responseBody';
+
+// Everything the request form holds; saved to history and replayed from it
+export interface RequestDraft extends BodyDraft {
+  method: HttpMethod;
+  baseUrl: string;
+  // Endpoint path; its query string mirrors the params table
+  url: string;
+  // Values for the :name and {name} segments of the path, kept apart from the template
+  pathParams: Record<string, string>;
+  params: KeyValueRow[];
+  headers: KeyValueRow[];
+  // Type 'inherit' uses the active environment's auth
+  auth: AuthConfig;
+  // JSON Schema the response body is checked against; empty to skip or use the spec's
+  responseSchema: string;
+  // Checks run against every response, such as "status is 201"
+  assertions: Assertion[];
+  // Values copied from the response into environment variables, for the requests that follow
+  extractions: ExtractionRule[];
+  // JavaScript run in a sandbox before the request is sent and after its response arrives
+  preRequestScript: string;
+  postResponseScript: string;
+  // Give up on the response after this long; 0 waits as long as the browser does
+  timeoutMs: number;
+  // Resending on flaky statuses and network errors; off unless switched on
+  retry: RetryPolicy;
+}
+
+// The request exactly as it goes over the wire
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | FormData | Blob;
+}
+
+export interface ExecutedResponse {
+  status: number;
+  statusText: string;
+  // The body decoded as text, whatever its type
+  text: string;
+  body: ResponseBody;
+  meta: ResponseMeta;
+}
+
+// Options for one exchange; the signal cancels it from outside
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+export { RequestAbortedError, RequestBuildError };
+
+// The query comes from the params table, so a '?' typed in the path never doubles up
+export const buildFullUrl = (draft: RequestDraft) => {
+  const query = serializeQuery(draft.params);
+  const path = substitutePathParams(splitUrl(draft.url).path, draft.pathParams);
+  return `${draft.baseUrl}${path}${query ? `?${query}` : ''}`;
+};
+
+// Brings a request stored by an older version of the app up to the current shape
+export const upgradeDraft = <T extends Omit<RequestDraft, 'baseUrl'>>(draft: T): T => {
+  const legacy = draft as T & { urlParams?: string; useAuth?: boolean; token?: string };
+  let upgraded: T = draft;
+
+  // The params table replaced a free-text urlParams field
+  if (!Array.isArray(legacy.params)) {
+    const url = legacy.urlParams
+      ? `${legacy.url}${legacy.url.includes('?') ? '&' : '?'}${legacy.urlParams}`
+      : legacy.url;
+    const withParams = { ...legacy, url, params: parseQuery(splitUrl(url).query) };
+    delete withParams.urlParams;
+    upgraded = withParams;
+  }
+  if (!upgraded.pathParams) {
+    upgraded = { ...upgraded, pathParams: {} };
+  }
+  if (typeof upgraded.responseSchema !== 'string') {
+    upgraded = { ...upgraded, responseSchema: '' };
+  }
+  if (!Array.isArray(upgraded.assertions)) {
+    upgraded = { ...upgraded, assertions: [] };
+  }
+  if (!Array.isArray(upgraded.extractions)) {
+    upgraded = { ...upgraded, extractions: [] };
+  }
+  if (typeof upgraded.preRequestScript !== 'string' || typeof upgraded.postResponseScript !== 'string') {
+    upgraded = { ...upgraded, preRequestScript: upgraded.preRequestScript || '', postResponseScript: upgraded.postResponseScript || '' };
+  }
+  if (typeof upgraded.timeoutMs !== 'number') {
+    upgraded = { ...upgraded, timeoutMs: DEFAULT_TIMEOUT_MS };
+  }
+  upgraded = { ...upgraded, retry: upgradeRetryPolicy(upgraded.retry) };
+  // Bodies used to always be JSON
+  if (!upgraded.bodyType) {
+    upgraded = { ...createDefaultBodyDraft(), ...upgraded, bodyType: 'json' };
+  }
+  // A bearer checkbox and token field came before auth schemes
+  if (!upgraded.auth) {
+    const { useAuth, token, ...rest } = upgraded as typeof legacy;
+    upgraded = { ...rest, auth: useAuth ? { ...createAuth('bearer'), token: token || '' } : createAuth() } as T;
+  } else {
+    upgraded = { ...upgraded, auth: upgradeAuth(upgraded.auth, 'inherit') };
+  }
+  return upgraded;
+};
+
+export const prepareRequest = (draft: RequestDraft): PreparedRequest => {
+  const methodError = validateMethod(draft.method);
+  if (methodError) {
+    throw new RequestBuildError(methodError);
+  }
+  const method = normalizeMethod(draft.method);
+
+  const missing = findMissingPathParams(splitUrl(draft.url).path, draft.pathParams);
+  if (missing.length > 0) {
+    throw new RequestBuildError(`Missing path parameters: ${missing.join(', ')}`);
+  }
+
+  // Headers come from the editor; auth is added on top by applyAuth
+  const headers = buildHeaders(draft.headers);
+
+  const prepared: PreparedRequest = { method, url: buildFullUrl(draft), headers };
+
+  // Add body for methods that can carry one; a Content-Type typed in the headers wins
+  if (methodAllowsBody(method)) {
+    const encoded = encodeBody(draft);
+    if (encoded) {
+      prepared.body = encoded.body;
+      if (encoded.contentType === null) {
+        // fetch writes the multipart boundary into Content-Type itself
+        removeHeader(headers, 'Content-Type');
+      } else if (!getHeader(headers, 'Content-Type')) {
+        headers['Content-Type'] = encoded.contentType;
+      }
+    }
+  }
+
+  return prepared;
+};
+
+// Runs a network exchange under the caller's signal and timeout, reporting either as a RequestAbortedError
+export const withAbort = async <T>(options: ExecuteOptions, exchange: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const { signal, timeoutMs = 0 } = options;
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  let timedOut = false;
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : null;
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener('abort', cancel);
+
+  try {
+    return await exchange(controller.signal);
+  } catch (e) {
+    if (timedOut) throw new RequestAbortedError(`Request timed out after ${timeoutMs} ms`, true);
+    if (controller.signal.aborted) throw new RequestAbortedError('Request cancelled', false);
+    throw e;
+  } finally {
+    if (timer !== null) clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// The timeout covers the whole exchange, body included
+export const executeRequest = async (request: PreparedRequest, options: ExecuteOptions = {}): Promise<ExecutedResponse> => {
+  const startedAt = performance.now();
+  let timeToHeadersMs = 0;
+  const { res, bytes } = await withAbort(options, async (signal) => {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal,
+    });
+    timeToHeadersMs = performance.now() - startedAt;
+    // Read the body once, as bytes, so binary bodies survive and text is decoded with the right charset
+    return { res: response, bytes: new Uint8Array(await response.arrayBuffer()) };
+  });
+  const headers = headersToObject(res.headers);
+  const body = readResponseBody(headers, bytes);
+
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    text: body.text,
+    body,
+    meta: {
+      headers,
+      timeToHeadersMs,
+      durationMs: performance.now() - startedAt,
+      sizeBytes: bytes.length,
+      contentLength: parseContentLength(headers)
+    }
+  };
+};
+
+// Sends the request, answering an auth challenge such as Digest's with one retry.
+// Returns the request that produced the response, since a retry changes its headers
+export const executeWithAuth = async (request: PreparedRequest, auth: AuthConfig, options: ExecuteOptions = {}) => {
+  const result = await executeRequest(request, options);
+  const provider = AUTH_PROVIDERS[auth.type];
+  if (result.status !== 401 || !provider.answerChallenge) return { request, result };
+  const retry = await provider.answerChallenge(request, auth, result);
+  return retry ? { request: retry, result: await executeRequest(retry, options) } : { request, result };
+};
+
+export const describeRequestError = (err: unknown) => {
+  if (err instanceof RequestBuildError || err instanceof RequestAbortedError) return err.message;
+  return `Request failed: ${err instanceof Error ? err.message : String(err)}`;
+};
@@ -0,0 +1,44 @@
+// Response metadata captured alongside the body
+
+export interface ResponseMeta {
+  headers: Record<string, string>;
+  // Time until the status line and headers arrived
+  timeToHeadersMs: number;
+  // Time until the whole body was read
+  durationMs: number;
+  // Size of the decoded body in bytes
+  sizeBytes: number;
+  // Size announced by the server, when it sends Content-Length
+  contentLength: number | null;
+}
+
+// Header groups worth calling out when debugging caching and CORS
+export const HEADER_GROUPS: { label: string; match: (name: string) => boolean }[] = [
+  {
+    label: 'Caching',
+    match: (name) => ['cache-control', 'etag', 'expires', 'last-modified', 'age', 'vary', 'pragma'].includes(name)
+  },
+  { label: 'CORS', match: (name) => name.startsWith('access-control-') },
+  { label: 'Cookies', match: (name) => name === 'set-cookie' },
+];
+
+export const getHeaderGroup = (name: string) =>
+  HEADER_GROUPS.find((group) => group.match(name.toLowerCase()))?.label || null;
+
+export const parseContentLength = (headers: Record<string, string>) => {
+  const value = headers['content-length'];
+  if (value === undefined) return null;
+  const length = parseInt(value, 10);
+  return isNaN(length) ? null : length;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+export const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(2)} s`;
+};
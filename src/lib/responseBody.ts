@@ -0,0 +1,131 @@
+import { utf8Text } from './encoding';
+import { getHeader } from './headers';
+import { formatBytes } from './response';
+
+// How a response body is shown, decided from Content-Type and, when that's missing, the bytes themselves
+export type BodyKind = 'empty' | 'json' | 'xml' | 'html' | 'image' | 'text' | 'binary';
+
+export interface ResponseBody {
+  kind: BodyKind;
+  // The media type without parameters, lowercased; empty when the server sent none
+  contentType: string;
+  bytes: Uint8Array;
+  // The bytes decoded with the declared charset, or UTF-8
+  text: string;
+}
+
+export const parseMediaType = (header: string | undefined) => {
+  const [type, ...params] = (header || '').split(';');
+  const charset = params
+    .map((param) => param.trim().match(/^charset\s*=\s*"?([^";]+)"?$/i))
+    .find((match) => match)?.[1];
+  return { type: type.trim().toLowerCase(), charset: charset?.toLowerCase() || null };
+};
+
+export const decodeText = (bytes: Uint8Array, charset: string | null) => {
+  if (typeof TextDecoder !== 'undefined') {
+    try {
+      return new TextDecoder(charset || 'utf-8').decode(bytes);
+    } catch (e) {
+      // An unknown charset label; UTF-8 is the best guess
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+  if (charset === 'iso-8859-1' || charset === 'latin1' || charset === 'us-ascii') {
+    return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  }
+  return utf8Text(bytes);
+};
+
+// NUL bytes or lots of control characters in the first KB mean it isn't text
+const looksBinary = (bytes: Uint8Array) => {
+  const sample = bytes.subarray(0, 1024);
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) control++;
+  }
+  return control > sample.length / 10;
+};
+
+const TEXT_TYPES = ['application/javascript', 'application/x-www-form-urlencoded', 'application/graphql', 'application/yaml'];
+
+const kindFromType = (type: string): BodyKind | null => {
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+  if (type === 'application/xml' || type === 'text/xml' || type.endsWith('+xml')) {
+    // SVG renders as a picture
+    return type === 'image/svg+xml' ? 'image' : 'xml';
+  }
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('text/') || TEXT_TYPES.includes(type)) return 'text';
+  if (type === 'application/octet-stream' || type === '') return null;
+  return 'binary';
+};
+
+// Without a useful Content-Type: JSON if it parses, markup if it starts like it, text unless it looks binary
+const sniffKind = (bytes: Uint8Array, text: string): BodyKind => {
+  if (looksBinary(bytes)) return 'binary';
+  const start = text.trimStart();
+  try {
+    JSON.parse(text);
+    return 'json';
+  } catch (e) {
+    if (/^<!doctype html|^<html[\s>]/i.test(start)) return 'html';
+    if (start.startsWith('<?xml')) return 'xml';
+    return 'text';
+  }
+};
+
+export const readResponseBody = (headers: Record<string, string>, bytes: Uint8Array): ResponseBody => {
+  const { type, charset } = parseMediaType(getHeader(headers, 'Content-Type'));
+  const text = decodeText(bytes, charset);
+  if (bytes.length === 0) return { kind: 'empty', contentType: type, bytes, text };
+  return { kind: kindFromType(type) ?? sniffKind(bytes, text), contentType: type, bytes, text };
+};
+
+// The text copied and kept in history: pretty JSON, other text as it came, a note for anything else
+export const formatResponseBody = (body: ResponseBody) => {
+  switch (body.kind) {
+    case 'empty':
+      return 'No response body';
+    case 'json':
+      try {
+        return JSON.stringify(JSON.parse(body.text), null, 2);
+      } catch (e) {
+        return body.text;
+      }
+    case 'image':
+    case 'binary':
+      return `[${body.contentType || 'binary'} body, ${formatBytes(body.bytes.length)}]`;
+    default:
+      return body.text;
+  }
+};
+
+// The bytes shown in a hex view, capped so huge downloads don't stall rendering
+export const HEX_VIEW_LIMIT = 64 * 1024;
+
+// Offset, sixteen hex bytes and their printable ASCII per line, like hexdump -C
+export const hexDump = (bytes: Uint8Array, limit = HEX_VIEW_LIMIT) => {
+  const lines: string[] = [];
+  const end = Math.min(bytes.length, limit);
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, end));
+    const hex = Array.from(row, (byte) => byte.toString(16).padStart(2, '0'));
+    const ascii = Array.from(row, (byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(
+      `${offset.toString(16).padStart(8, '0')}  ${hex.slice(0, 8).join(' ').padEnd(23)}  ${hex.slice(8).join(' ').padEnd(23)}  |${ascii}|`
+    );
+  }
+  return lines.join('\n');
+};
+
+const KIND_EXTENSIONS: Partial<Record<BodyKind, string>> = { json: 'json', xml: 'xml', html: 'html', text: 'txt' };
+
+// A file name for saving the body, with an extension guessed from its type
+export const bodyFileName = (body: ResponseBody) => {
+  if (KIND_EXTENSIONS[body.kind]) return `response.${KIND_EXTENSIONS[body.kind]}`;
+  const subtype = body.contentType.split('/')[1]?.replace(/^x-/, '').split('+')[0];
+  return `response.${subtype && /^[a-z0-9.-]+$/.test(subtype) && subtype !== 'octet-stream' ? subtype : 'bin'}`;
+};
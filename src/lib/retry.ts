@@ -0,0 +1,150 @@
+import { getHeader } from './headers';
+import { RequestAbortedError, RequestBuildError } from './errors';
+import { ExecutedResponse, PreparedRequest, describeRequestError } from './request';
+
+// Resending a request that hit a flaky endpoint, waiting longer between each attempt
+export interface RetryPolicy {
+  enabled: boolean;
+  // Counting the first try
+  maxAttempts: number;
+  // Response statuses worth another try
+  statuses: number[];
+  // Retry when fetch itself fails, such as a refused connection
+  retryNetworkErrors: boolean;
+  retryTimeouts: boolean;
+  // The wait before the second attempt; it doubles for each one after, up to maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryAttempt {
+  // Counting from 1
+  attempt: number;
+  // Null when no response arrived
+  status: number | null;
+  durationMs: number;
+  error?: string;
+  // The wait before the next attempt; null for the last one
+  delayMs: number | null;
+  // Set when the server's Retry-After chose the wait
+  retryAfter?: boolean;
+}
+
+// Statuses offered for retrying; the gateway errors are what flaky upstreams usually answer
+export const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  enabled: false,
+  maxAttempts: 3,
+  statuses: [502, 503, 504],
+  retryNetworkErrors: true,
+  retryTimeouts: false,
+  baseDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+};
+
+// Fills in whatever an older stored policy lacks
+export const upgradeRetryPolicy = (policy: Partial<RetryPolicy> | undefined): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...policy,
+});
+
+// Exponential backoff with equal jitter: at least half the capped delay, so attempts never bunch up at zero
+export const backoffDelay = (policy: RetryPolicy, attempt: number, random: () => number = Math.random) => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + random() * (delay / 2));
+};
+
+// Retry-After holds either seconds or an HTTP date; returns milliseconds from now
+export const parseRetryAfter = (value: string | undefined, now = Date.now()) => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const shouldRetryError = (policy: RetryPolicy, err: unknown) => {
+  // Problems in the form fail the same way every time, and a cancel means stop
+  if (err instanceof RequestBuildError) return false;
+  if (err instanceof RequestAbortedError) return err.timedOut && policy.retryTimeouts;
+  return policy.retryNetworkErrors;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError('Request cancelled', false));
+      return;
+    }
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError('Request cancelled', false));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  // Called as each attempt finishes, with all of them so far
+  onAttempt?: (attempts: RetryAttempt[]) => void;
+}
+
+// Sends through send() until the response isn't retryable, attempts run out, or a Retry-After asks
+// for a longer wait than maxDelayMs allows. Throws the last error when no attempt got a response
+export const sendWithRetry = async (
+  policy: RetryPolicy,
+  send: () => Promise<{ request: PreparedRequest; result: ExecutedResponse }>,
+  options: RetryOptions = {}
+) => {
+  const maxAttempts = policy.enabled ? Math.max(1, Math.floor(policy.maxAttempts)) : 1;
+  const attempts: RetryAttempt[] = [];
+  const record = (attempt: RetryAttempt) => {
+    attempts.push(attempt);
+    options.onAttempt?.([...attempts]);
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = performance.now();
+    let exchange: { request: PreparedRequest; result: ExecutedResponse } | null = null;
+    let failure: unknown = null;
+    try {
+      exchange = await send();
+    } catch (err) {
+      failure = err;
+    }
+    const durationMs = exchange ? exchange.result.meta.durationMs : performance.now() - startedAt;
+    const status = exchange ? exchange.result.status : null;
+    const retryable = exchange ? policy.statuses.includes(exchange.result.status) : shouldRetryError(policy, failure);
+
+    let delayMs: number | null = null;
+    let retryAfter = false;
+    if (retryable && attempt < maxAttempts) {
+      const requested = exchange ? parseRetryAfter(getHeader(exchange.result.meta.headers, 'Retry-After')) : null;
+      if (requested === null) {
+        delayMs = backoffDelay(policy, attempt);
+      } else if (requested <= policy.maxDelayMs) {
+        delayMs = requested;
+        retryAfter = true;
+      }
+    }
+    record({
+      attempt,
+      status,
+      durationMs,
+      ...(failure === null ? {} : { error: describeRequestError(failure) }),
+      delayMs,
+      ...(retryAfter ? { retryAfter } : {}),
+    });
+
+    if (delayMs === null) {
+      if (exchange) return { ...exchange, attempts };
+      throw failure;
+    }
+    await wait(delayMs, options.signal);
+  }
+};
@@ -0,0 +1,300 @@
+import { AssertionResult, runAssertions } from './assertions';
+import { Collection, SavedRequest, SavedRequestData } from './collections';
+import { ExtractionResult, extractedVariables, runExtractions } from './extraction';
+import { ExecutedResponse, RequestAbortedError, describeRequestError } from './request';
+
+// A collection or one of its folders, run top to bottom
+export interface RunTarget {
+  name: string;
+  requests: SavedRequest[];
+}
+
+export interface RunOptions {
+  // Pause between one request's response and the next request
+  delayMs: number;
+  // Skip the rest once a request errors or fails an assertion
+  stopOnFailure: boolean;
+}
+
+export type RunItemState = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+export interface RunItem {
+  id: string;
+  name: string;
+  method: string;
+  url: string;
+  state: RunItemState;
+  status: number | null;
+  durationMs: number | null;
+  assertions: AssertionResult[];
+  extracted: ExtractionResult[];
+  // Set when the request couldn't be built or sent, or a script failed
+  error: string;
+}
+
+export interface RunReport {
+  name: string;
+  startedAt: number;
+  finishedAt: number | null;
+  items: RunItem[];
+}
+
+export interface RunSummary {
+  requests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  assertionsPassed: number;
+  assertionsFailed: number;
+  durationMs: number;
+}
+
+// What sending one request produced, along with what its scripts did
+export interface RunExchange {
+  result: ExecutedResponse;
+  // Variables the request's scripts set
+  variables: Record<string, string>;
+  // Set when the post-response script failed
+  scriptError: string | null;
+}
+
+// Sends one saved request with the given variables; the app fills in the base URL and auth and runs its scripts.
+// The signal cancels the request when the run is cancelled
+export type RunSender = (
+  request: SavedRequestData,
+  variables: Record<string, string>,
+  signal: AbortSignal
+) => Promise<RunExchange>;
+
+export interface RunContext {
+  send: RunSender;
+  // Variables when the run starts; values set along the way are added for the requests after
+  variables: Record<string, string>;
+  // Called with the values each request's scripts and extraction rules set, to store them in the environment
+  onVariables: (values: Record<string, string>) => void;
+}
+
+export const DEFAULT_RUN_OPTIONS: RunOptions = { delayMs: 0, stopOnFailure: false };
+
+// The whole collection when folderId is null, otherwise just that folder
+export const runTargetFor = (collection: Collection, folderId: string | null): RunTarget => {
+  const folder = folderId ? collection.folders.find((other) => other.id === folderId) : undefined;
+  return folder
+    ? { name: `${collection.name} / ${folder.name}`, requests: folder.requests }
+    : { name: collection.name, requests: [...collection.requests, ...collection.folders.flatMap((other) => other.requests)] };
+};
+
+export const createRunReport = (target: RunTarget): RunReport => ({
+  name: target.name,
+  startedAt: Date.now(),
+  finishedAt: null,
+  items: target.requests.map((saved) => ({
+    id: saved.id,
+    name: saved.name,
+    method: saved.request.method,
+    url: saved.request.url,
+    state: 'pending',
+    status: null,
+    durationMs: null,
+    assertions: [],
+    extracted: [],
+    error: '',
+  })),
+});
+
+// Cut short when the signal aborts
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const abort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', abort, { once: true });
+  });
+
+// Sends each request in turn, reporting every change through onUpdate; resolves with the finished report.
+// Aborting the signal cancels the request in flight and skips the rest
+export const runRequests = async (
+  target: RunTarget,
+  options: RunOptions,
+  context: RunContext,
+  onUpdate: (report: RunReport) => void,
+  signal: AbortSignal = new AbortController().signal
+): Promise<RunReport> => {
+  let report = createRunReport(target);
+  const update = (index: number, changes: Partial<RunItem>) => {
+    report = { ...report, items: report.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) };
+    onUpdate(report);
+  };
+  const skipFrom = (index: number) => {
+    report = {
+      ...report,
+      items: report.items.map((item, i) => (i >= index ? { ...item, state: 'skipped' } : item)),
+    };
+  };
+  onUpdate(report);
+  let variables = context.variables;
+
+  for (let i = 0; i < target.requests.length; i++) {
+    if (i > 0 && options.delayMs > 0) await wait(options.delayMs, signal);
+    if (signal.aborted) {
+      skipFrom(i);
+      break;
+    }
+    update(i, { state: 'running' });
+    const request = target.requests[i].request;
+    let failed: boolean;
+    try {
+      const { result, variables: scripted, scriptError } = await context.send(request, variables, signal);
+      const extracted = runExtractions(request.extractions, { headers: result.meta.headers, text: result.text });
+      const values = { ...scripted, ...extractedVariables(extracted) };
+      if (Object.keys(values).length > 0) {
+        variables = { ...variables, ...values };
+        context.onVariables(values);
+      }
+      const assertions = runAssertions(request.assertions, {
+        status: result.status,
+        headers: result.meta.headers,
+        text: result.text,
+        durationMs: result.meta.durationMs,
+      });
+      failed = scriptError !== null || assertions.some((assertion) => !assertion.passed);
+      update(i, {
+        state: failed ? 'failed' : 'passed',
+        status: result.status,
+        durationMs: result.meta.durationMs,
+        assertions,
+        extracted,
+        error: scriptError ? `Post-response script failed: ${scriptError}` : '',
+      });
+    } catch (err) {
+      // A cancelled request didn't fail; it and the rest just didn't run
+      if (err instanceof RequestAbortedError && !err.timedOut) {
+        skipFrom(i);
+        break;
+      }
+      failed = true;
+      update(i, { state: 'failed', error: describeRequestError(err) });
+    }
+    if (failed && options.stopOnFailure) {
+      skipFrom(i + 1);
+      break;
+    }
+  }
+
+  report = { ...report, finishedAt: Date.now() };
+  onUpdate(report);
+  return report;
+};
+
+export const summarizeRun = (report: RunReport): RunSummary => {
+  const assertions = report.items.flatMap((item) => item.assertions);
+  const count = (state: RunItemState) => report.items.filter((item) => item.state === state).length;
+  return {
+    requests: report.items.length,
+    passed: count('passed'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    assertionsPassed: assertions.filter((assertion) => assertion.passed).length,
+    assertionsFailed: assertions.filter((assertion) => !assertion.passed).length,
+    durationMs: (report.finishedAt ?? Date.now()) - report.startedAt,
+  };
+};
+
+export const runReportToJson = (report: RunReport) =>
+  JSON.stringify(
+    {
+      name: report.name,
+      startedAt: new Date(report.startedAt).toISOString(),
+      finishedAt: report.finishedAt === null ? null : new Date(report.finishedAt).toISOString(),
+      summary: summarizeRun(report),
+      requests: report.items.map((item) => ({
+        name: item.name,
+        method: item.method,
+        url: item.url,
+        result: item.state,
+        status: item.status,
+        durationMs: item.durationMs === null ? null : Math.round(item.durationMs),
+        error: item.error || undefined,
+        // Only names: extracted values are often tokens
+        extracted: item.extracted.map((result) => ({
+          variable: result.variable,
+          found: result.value !== null,
+          error: result.error,
+        })),
+        assertions: item.assertions.map((assertion) => ({
+          assertion: assertion.description,
+          passed: assertion.passed,
+          actual: assertion.actual,
+          error: assertion.error,
+        })),
+      })),
+    },
+    null,
+    2
+  );
+
+// Control characters aren't allowed in XML 1.0 at all; tab, newline and carriage return are the exceptions
+const isXmlControl = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d;
+};
+
+const escapeXml = (text: string) =>
+  Array.from(text, (char) => (isXmlControl(char) ? '' : char))
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const seconds = (ms: number | null) => ((ms ?? 0) / 1000).toFixed(3);
+
+// One testsuite per request and one testcase per assertion, the layout CI servers expect from API test runners
+export const runReportToJUnit = (report: RunReport) => {
+  const summary = summarizeRun(report);
+  const timestamp = new Date(report.startedAt).toISOString();
+  const suites = report.items.map((item) => {
+    const suiteName = escapeXml(`${item.name} (${item.method} ${item.url})`);
+    const skipped = item.state === 'skipped' || item.state === 'pending';
+    const cases: string[] = [];
+    if (skipped) {
+      cases.push(`    <testcase classname="${suiteName}" name="${escapeXml(item.name)}" time="0.000">\n      <skipped/>\n    </testcase>`);
+    } else if (item.error) {
+      cases.push(
+        `    <testcase classname="${suiteName}" name="${escapeXml(item.name)}" time="${seconds(item.durationMs)}">\n` +
+          `      <error message="${escapeXml(item.error)}" type="RequestError"/>\n    </testcase>`
+      );
+    } else if (item.assertions.length === 0) {
+      // Without assertions the request itself is the test, so the suite isn't reported as empty
+      cases.push(`    <testcase classname="${suiteName}" name="${escapeXml(item.name)}" time="${seconds(item.durationMs)}"/>`);
+    }
+    item.assertions.forEach((assertion) => {
+      const open = `    <testcase classname="${suiteName}" name="${escapeXml(assertion.description)}" time="0.000"`;
+      if (assertion.passed) {
+        cases.push(`${open}/>`);
+      } else {
+        const message = escapeXml(assertion.error || `Actual: ${assertion.actual}`);
+        cases.push(`${open}>\n      <failure message="${message}" type="AssertionFailure"/>\n    </testcase>`);
+      }
+    });
+    const failures = item.assertions.filter((assertion) => !assertion.passed).length;
+    const xml =
+      `  <testsuite name="${suiteName}" tests="${cases.length}" failures="${failures}" errors="${item.error ? 1 : 0}" ` +
+      `skipped="${skipped ? 1 : 0}" time="${seconds(item.durationMs)}" timestamp="${timestamp}">\n` +
+      `${cases.map((line) => `${line}\n`).join('')}  </testsuite>`;
+    return { xml, tests: cases.length };
+  });
+  const tests = suites.reduce((total, suite) => total + suite.tests, 0);
+  const errors = report.items.filter((item) => item.error).length;
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="${escapeXml(report.name)}" tests="${tests}" failures="${summary.assertionsFailed}" ` +
+    `errors="${errors}" skipped="${summary.skipped}" time="${seconds(summary.durationMs)}">\n` +
+    `${suites.map((suite) => `${suite.xml}\n`).join('')}</testsuites>\n`
+  );
+};
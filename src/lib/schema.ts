@@ -0,0 +1,272 @@
+// JSON Schema checks for response bodies, covering the keywords OpenAPI specs use
+
+// Long bodies can break every item of a list; past this many the rest aren't listed
+const MAX_VIOLATIONS = 100;
+
+export interface SchemaViolation {
+  // Where in the body, as $.items[0].name
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+// What a response is checked against: an attached schema, or an imported operation's responses
+export interface ResponseContract {
+  source: string;
+  // What "#/..." refs resolve against
+  root: unknown;
+  // Body schema by status code, range (2XX) or default; null when any status is fine
+  responses: Record<string, unknown> | null;
+  // The body schema when responses is null
+  schema: unknown;
+}
+
+export interface ResponseValidation {
+  source: string;
+  // The statuses the contract lists, when the response's status isn't among them
+  undeclaredStatus: string[] | null;
+  // False when the contract has no body schema for the status
+  checked: boolean;
+  violations: SchemaViolation[];
+  // Set when the contract itself couldn't be read
+  error: string;
+}
+
+type SchemaNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is SchemaNode =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const node = (value: unknown): SchemaNode => (isNode(value) ? value : {});
+
+export const describeValue = (value: unknown) => {
+  if (value === undefined) return 'missing';
+  const json = JSON.stringify(value);
+  return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+};
+
+const typeOf = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  if (type === 'number') return typeof value === 'number';
+  return typeOf(value) === type;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  if (isNode(a) && isNode(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z0-9+.-]*:\S*$/i,
+  ipv4: /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/,
+};
+
+const childPath = (path: string, key: string | number) => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+};
+
+const resolvePointer = (root: unknown, ref: string) => {
+  if (!ref.startsWith('#')) return undefined;
+  return ref
+    .slice(1)
+    .split('/')
+    .filter((part) => part !== '')
+    .map((part) => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((at, key) => (isNode(at) || Array.isArray(at) ? (at as SchemaNode)[key] : undefined), root);
+};
+
+// Every way value breaks schema; refs resolve against root
+export const validateSchema = (value: unknown, schema: unknown, root: unknown = schema): SchemaViolation[] => {
+  const violations: SchemaViolation[] = [];
+  const report = (path: string, expected: string, actual: unknown) => {
+    if (violations.length < MAX_VIOLATIONS) violations.push({ path, expected, actual: describeValue(actual) });
+  };
+  const matches = (inner: unknown, candidate: unknown) => validateSchema(inner, candidate, root).length === 0;
+
+  // refs lists the $refs followed without moving into the value, to stop a ref that points at itself
+  const check = (current: unknown, schemaValue: unknown, path: string, refs: string[]): void => {
+    if (schemaValue === undefined || schemaValue === true) return;
+    if (schemaValue === false) {
+      report(path, 'nothing (not allowed here)', current);
+      return;
+    }
+    const schema = node(schemaValue);
+    if (typeof schema.$ref === 'string') {
+      if (refs.includes(schema.$ref)) return;
+      // Siblings of $ref are ignored, as OpenAPI 3.0 specifies
+      check(current, resolvePointer(root, schema.$ref), path, [...refs, schema.$ref]);
+      return;
+    }
+    // OpenAPI 3.0 marks nullable values this way instead of a "null" type
+    if (current === null && (schema.nullable === true || schema['x-nullable'] === true)) return;
+
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type.map(String) : [String(schema.type)];
+    if (types.length > 0 && !types.some((type) => matchesType(current, type))) {
+      report(path, types.join(' or '), current);
+      return;
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((option) => isEqual(option, current))) {
+      report(path, `one of ${schema.enum.map(describeValue).join(', ')}`, current);
+    }
+    if (schema.const !== undefined && !isEqual(schema.const, current)) report(path, describeValue(schema.const), current);
+
+    if (Array.isArray(schema.allOf)) schema.allOf.forEach((part) => check(current, part, path, refs));
+    if (Array.isArray(schema.anyOf) && !schema.anyOf.some((part) => matches(current, part))) {
+      report(path, 'a match for one of the anyOf schemas', current);
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const count = schema.oneOf.filter((part) => matches(current, part)).length;
+      if (count !== 1) {
+        report(path, count === 0 ? 'a match for one of the oneOf schemas' : `a match for exactly one oneOf schema, not ${count}`, current);
+      }
+    }
+    if (schema.not !== undefined && matches(current, schema.not)) report(path, 'a value the "not" schema rejects', current);
+
+    if (typeof current === 'string') {
+      if (typeof schema.minLength === 'number' && current.length < schema.minLength) {
+        report(path, `string of at least ${schema.minLength} characters`, current);
+      }
+      if (typeof schema.maxLength === 'number' && current.length > schema.maxLength) {
+        report(path, `string of at most ${schema.maxLength} characters`, current);
+      }
+      if (typeof schema.pattern === 'string') {
+        try {
+          if (!new RegExp(schema.pattern, 'u').test(current)) report(path, `string matching /${schema.pattern}/`, current);
+        } catch (e) {
+          // A pattern JavaScript can't compile can't be checked
+        }
+      }
+      const format = typeof schema.format === 'string' ? FORMAT_PATTERNS[schema.format] : undefined;
+      if (format && !format.test(current)) report(path, `string in ${schema.format} format`, current);
+    }
+
+    if (typeof current === 'number') {
+      // Draft 4 (and OpenAPI 3.0) make exclusiveMinimum a flag; later drafts make it the bound
+      const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+      if (typeof minimum === 'number' && (exclusiveMinimum === true ? current <= minimum : current < minimum)) {
+        report(path, `number ${exclusiveMinimum === true ? '>' : '>='} ${minimum}`, current);
+      }
+      if (typeof maximum === 'number' && (exclusiveMaximum === true ? current >= maximum : current > maximum)) {
+        report(path, `number ${exclusiveMaximum === true ? '<' : '<='} ${maximum}`, current);
+      }
+      if (typeof exclusiveMinimum === 'number' && current <= exclusiveMinimum) report(path, `number > ${exclusiveMinimum}`, current);
+      if (typeof exclusiveMaximum === 'number' && current >= exclusiveMaximum) report(path, `number < ${exclusiveMaximum}`, current);
+      if (typeof multipleOf === 'number' && multipleOf > 0 && Math.abs(current / multipleOf - Math.round(current / multipleOf)) > 1e-9) {
+        report(path, `multiple of ${multipleOf}`, current);
+      }
+    }
+
+    if (Array.isArray(current)) {
+      if (typeof schema.minItems === 'number' && current.length < schema.minItems) {
+        report(path, `array of at least ${schema.minItems} items`, current);
+      }
+      if (typeof schema.maxItems === 'number' && current.length > schema.maxItems) {
+        report(path, `array of at most ${schema.maxItems} items`, current);
+      }
+      if (schema.uniqueItems === true && current.some((item, i) => current.findIndex((other) => isEqual(other, item)) !== i)) {
+        report(path, 'array without repeated items', current);
+      }
+      if (Array.isArray(schema.items)) {
+        schema.items.forEach((itemSchema, i) => {
+          if (i < current.length) check(current[i], itemSchema, childPath(path, i), []);
+        });
+      } else if (schema.items !== undefined) {
+        current.forEach((item, i) => check(item, schema.items, childPath(path, i), []));
+      }
+    }
+
+    if (isNode(current)) {
+      const properties = node(schema.properties);
+      if (Array.isArray(schema.required)) {
+        schema.required.map(String).forEach((key) => {
+          if (!(key in current)) {
+            const type = node(properties[key]).type;
+            report(childPath(path, key), `${typeof type === 'string' ? type : 'a value'} (required)`, undefined);
+          }
+        });
+      }
+      Object.keys(current).forEach((key) => {
+        if (key in properties) check(current[key], properties[key], childPath(path, key), []);
+        else if (schema.additionalProperties === false) report(childPath(path, key), 'no such property', current[key]);
+        else if (isNode(schema.additionalProperties)) check(current[key], schema.additionalProperties, childPath(path, key), []);
+      });
+    }
+  };
+
+  check(value, schema, '$', []);
+  return violations;
+};
+
+// The schema key for a status: the exact code, then its range such as 4XX, then default
+const findStatusKey = (responses: Record<string, unknown>, status: number) => {
+  const keys = Object.keys(responses);
+  return [String(status), `${String(status)[0]}XX`, 'default']
+    .map((wanted) => keys.find((key) => key.toUpperCase() === wanted.toUpperCase()))
+    .find((key) => key !== undefined);
+};
+
+export const validateResponse = (contract: ResponseContract, status: number, text: string): ResponseValidation => {
+  const result: ResponseValidation = { source: contract.source, undeclaredStatus: null, checked: false, violations: [], error: '' };
+  let schema = contract.schema;
+  if (contract.responses) {
+    const key = findStatusKey(contract.responses, status);
+    if (key === undefined) return { ...result, undeclaredStatus: Object.keys(contract.responses) };
+    schema = contract.responses[key];
+  }
+  if (schema === null || schema === undefined) return result;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (e) {
+    return { ...result, checked: true, violations: [{ path: '$', expected: 'a JSON body', actual: describeValue(text) }] };
+  }
+  return { ...result, checked: true, violations: validateSchema(body, schema, contract.root) };
+};
+
+// A JSON Schema attached to the request, which applies whatever the status
+export const attachedSchemaContract = (text: string): ResponseContract | null => {
+  if (!text.trim()) return null;
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The response schema isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return { source: 'Attached schema', root: schema, responses: null, schema };
+};
+
+// Checks a response against the attached schema when there is one, else the fallback contract;
+// null when there is nothing to check against
+export const checkResponse = (
+  attachedSchema: string,
+  fallback: ResponseContract | null,
+  status: number,
+  text: string
+): ResponseValidation | null => {
+  let contract: ResponseContract | null;
+  try {
+    contract = attachedSchemaContract(attachedSchema) ?? fallback;
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return { source: 'Attached schema', undeclaredStatus: null, checked: false, violations: [], error };
+  }
+  return contract ? validateResponse(contract, status, text) : null;
+};
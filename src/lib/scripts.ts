@@ -0,0 +1,293 @@
+import { ExecutedResponse, PreparedRequest, RequestAbortedError } from './request';
+
+// Pre-request and post-response scripts, run in a throwaway Web Worker inside a sandboxed iframe so they can't
+// reach the page, its storage or the network
+
+// Long enough for crypto.subtle work, short enough that a stray loop doesn't hang a send
+export const SCRIPT_TIMEOUT_MS = 5000;
+
+export type ScriptPhase = 'pre' | 'post';
+
+export interface ScriptLog {
+  phase: ScriptPhase;
+  level: 'log' | 'info' | 'warn' | 'error';
+  message: string;
+}
+
+// The request as scripts see and change it; body is null when there is none or it isn't text
+export interface ScriptRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string | null;
+}
+
+export interface ScriptResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+}
+
+export interface ScriptOutcome {
+  // The request after the script changed it; null when the script failed
+  request: ScriptRequest | null;
+  // Variables the script set; a failed script sets none
+  variables: Record<string, string>;
+  logs: ScriptLog[];
+  error: string | null;
+}
+
+// Runs inside the worker. Kept as plain JavaScript source since it is loaded from a Blob URL
+const SANDBOX_SOURCE = `
+'use strict';
+const post = self.postMessage.bind(self);
+const encoder = new TextEncoder();
+const toHex = (buffer) => Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+const toBase64 = (bytes) => btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join(''));
+const encode = (buffer, encoding) => (encoding === 'base64' ? toBase64(new Uint8Array(buffer)) : toHex(buffer));
+const utils = Object.freeze({
+  digest: async (algorithm, message, encoding) =>
+    encode(await crypto.subtle.digest(algorithm, encoder.encode(String(message))), encoding),
+  hmac: async (algorithm, key, message, encoding) => {
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw', encoder.encode(String(key)), { name: 'HMAC', hash: algorithm }, false, ['sign']
+    );
+    return encode(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(String(message))), encoding);
+  },
+  base64Encode: (text) => toBase64(encoder.encode(String(text))),
+  base64Decode: (text) => new TextDecoder().decode(Uint8Array.from(atob(String(text)), (c) => c.charCodeAt(0))),
+});
+
+// No network, storage, messaging or further workers for scripts; defined so they can't be deleted back into view.
+// The frame's CSP blocks what this can't, such as import()
+[
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'postMessage',
+  'Worker', 'SharedWorker',
+]
+  .forEach((name) => {
+    try {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    } catch (e) {
+      // Some browsers don't expose every one of these
+    }
+  });
+
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  try {
+    return JSON.stringify(value);
+  } catch (e) {
+    return String(value);
+  }
+};
+
+self.onmessage = async (event) => {
+  const { script, phase, request, response, variables } = event.data;
+  const logs = [];
+  const log = (level) => (...args) => logs.push({ phase, level, message: args.map(format).join(' ') });
+  const sandboxConsole = Object.freeze({ log: log('log'), debug: log('log'), info: log('info'), warn: log('warn'), error: log('error') });
+  const values = Object.assign({}, variables);
+  const changed = {};
+  const sandboxVariables = Object.freeze({
+    get: (name) => values[name],
+    has: (name) => Object.prototype.hasOwnProperty.call(values, name),
+    set: (name, value) => {
+      values[String(name)] = changed[String(name)] = String(value);
+    },
+    toObject: () => Object.assign({}, values),
+  });
+  const sandboxResponse = response && Object.freeze(Object.assign({}, response, {
+    headers: Object.freeze(Object.assign({}, response.headers)),
+    header: (name) => {
+      const key = Object.keys(response.headers).find((other) => other.toLowerCase() === String(name).toLowerCase());
+      return key === undefined ? undefined : response.headers[key];
+    },
+    json: () => JSON.parse(response.body),
+  }));
+  try {
+    const run = new Function(
+      'request', 'response', 'variables', 'console', 'utils',
+      '"use strict"; return (async () => {\\n' + script + '\\n})();'
+    );
+    await run(request, sandboxResponse, sandboxVariables, sandboxConsole, utils);
+    post({ request, variables: changed, logs, error: null });
+  } catch (e) {
+    post({ request: null, variables: {}, logs, error: e instanceof Error ? e.message : String(e) });
+  }
+};
+`;
+
+// A worker started from a blob: URL takes the CSP of the document that starts it, so the worker lives in an
+// opaque-origin frame whose policy allows no connections and no scripts from anywhere but the frame itself.
+// The frame only relays messages between this page and the worker
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+const SANDBOX_FRAME = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">
+<script>
+const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(SANDBOX_SOURCE).replace(/<\//g, '<\\/')}], { type: 'text/javascript' })));
+worker.onmessage = (event) => parent.postMessage({ outcome: event.data }, '*');
+worker.onerror = (event) => {
+  event.preventDefault();
+  parent.postMessage({ crashed: event.message || 'The script crashed' }, '*');
+};
+addEventListener('message', (event) => {
+  if (event.source === parent) worker.postMessage(event.data);
+});
+parent.postMessage({ ready: true }, '*');
+</script>`;
+
+// What the frame sends back
+type SandboxMessage = { ready: true } | { outcome: ScriptOutcome } | { crashed: string };
+
+interface Sandbox {
+  frame: HTMLIFrameElement;
+  stop: () => void;
+}
+
+const createSandbox = (onMessage: (message: SandboxMessage) => void): Sandbox => {
+  if (typeof document === 'undefined' || typeof Worker === 'undefined') {
+    throw new Error('Scripts need a browser with Web Worker support');
+  }
+  const frame = document.createElement('iframe');
+  // allow-scripts without allow-same-origin: the frame gets an opaque origin, away from this page and its storage
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.style.display = 'none';
+  frame.srcdoc = SANDBOX_FRAME;
+  const listener = (event: MessageEvent) => {
+    if (event.source === frame.contentWindow) onMessage(event.data as SandboxMessage);
+  };
+  window.addEventListener('message', listener);
+  document.body.appendChild(frame);
+  return {
+    frame,
+    // Removing the frame ends its worker too
+    stop: () => {
+      window.removeEventListener('message', listener);
+      frame.remove();
+    },
+  };
+};
+
+// Whatever a script left in the request, reduced back to strings
+const readScriptRequest = (value: unknown, original: ScriptRequest): ScriptRequest => {
+  const request = value !== null && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const headers: Record<string, string> = {};
+  const rawHeaders = request.headers !== null && typeof request.headers === 'object' ? request.headers : {};
+  Object.entries(rawHeaders as Record<string, unknown>).forEach(([name, headerValue]) => {
+    if (headerValue !== undefined && headerValue !== null) headers[name] = String(headerValue);
+  });
+  return {
+    // Sent as written, like custom methods typed into the form
+    method: typeof request.method === 'string' && request.method.trim() ? request.method.trim() : original.method,
+    url: typeof request.url === 'string' ? request.url : original.url,
+    headers,
+    body: request.body === null || request.body === undefined ? null : String(request.body),
+  };
+};
+
+// Resolves with what the script did, failures included; rejects only when signal cancels it
+const runScript = (
+  script: string,
+  phase: ScriptPhase,
+  request: ScriptRequest,
+  response: ScriptResponse | null,
+  variables: Record<string, string>,
+  signal?: AbortSignal
+) =>
+  new Promise<ScriptOutcome>((resolve, reject) => {
+    const fail = (error: string): ScriptOutcome => ({ request: null, variables: {}, logs: [], error });
+    if (signal?.aborted) {
+      reject(new RequestAbortedError('Request cancelled', false));
+      return;
+    }
+    let sandbox: Sandbox | null = null;
+    // Messages arrive asynchronously, so the timer below is set before finish can run
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      sandbox?.stop();
+    };
+    const cancel = () => {
+      finish();
+      reject(new RequestAbortedError('Request cancelled', false));
+    };
+    try {
+      sandbox = createSandbox((message) => {
+        if ('ready' in message) {
+          sandbox?.frame.contentWindow?.postMessage({ script, phase, request, response, variables }, '*');
+          return;
+        }
+        finish();
+        if ('crashed' in message) {
+          resolve(fail(message.crashed));
+          return;
+        }
+        const { outcome } = message;
+        resolve({ ...outcome, request: outcome.request ? readScriptRequest(outcome.request, request) : null });
+      });
+    } catch (e) {
+      resolve(fail(e instanceof Error ? e.message : String(e)));
+      return;
+    }
+    const timer = setTimeout(() => {
+      finish();
+      resolve(fail(`The script didn't finish within ${SCRIPT_TIMEOUT_MS / 1000} s`));
+    }, SCRIPT_TIMEOUT_MS);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+export const toScriptRequest = (request: PreparedRequest): ScriptRequest => ({
+  method: request.method,
+  url: request.url,
+  headers: { ...request.headers },
+  body: typeof request.body === 'string' ? request.body : null,
+});
+
+// Applies a script's changes; form and file bodies can't be edited from scripts, so they stay
+export const applyScriptRequest = (request: PreparedRequest, changed: ScriptRequest): PreparedRequest => {
+  const next: PreparedRequest = { method: changed.method, url: changed.url, headers: changed.headers };
+  if (request.body !== undefined && typeof request.body !== 'string') next.body = request.body;
+  else if (changed.body !== null) next.body = changed.body;
+  return next;
+};
+
+// Lets the script read and change the request before it is sent
+export const runPreRequestScript = (
+  script: string,
+  request: PreparedRequest,
+  variables: Record<string, string>,
+  signal?: AbortSignal
+) => runScript(script, 'pre', toScriptRequest(request), null, variables, signal);
+
+// Lets the script read the response and set variables
+export const runPostResponseScript = (
+  script: string,
+  request: PreparedRequest,
+  response: ExecutedResponse,
+  variables: Record<string, string>,
+  signal?: AbortSignal
+) =>
+  runScript(
+    script,
+    'post',
+    toScriptRequest(request),
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.meta.headers,
+      body: response.text,
+      durationMs: response.meta.durationMs,
+    },
+    variables,
+    signal
+  );
+
+export const hasScript = (script: string) => script.trim() !== '';
+
+// What a script printed, followed by the error that stopped it, if any
+export const outcomeLogs = (outcome: ScriptOutcome, phase: ScriptPhase): ScriptLog[] =>
+  outcome.error ? [...outcome.logs, { phase, level: 'error', message: outcome.error }] : outcome.logs;
@@ -0,0 +1,39 @@
+// Status code bands shared by the status badge colours and the history filter
+
+export type StatusClass = 'none' | 'success' | 'redirect' | 'clientError' | 'serverError';
+
+export const STATUS_CLASS_LABELS: Record<StatusClass, string> = {
+  none: 'No response',
+  success: '2xx',
+  redirect: '3xx',
+  clientError: '4xx',
+  serverError: '5xx',
+};
+
+// Anything outside 2xx-4xx (including 1xx) is treated like a server error, as the badge always has
+export const getStatusClass = (code: number | null): StatusClass => {
+  if (!code) return 'none';
+  if (code >= 200 && code < 300) return 'success';
+  if (code >= 300 && code < 400) return 'redirect';
+  if (code >= 400 && code < 500) return 'clientError';
+  return 'serverError';
+};
+
+export const getStatusText = (code: number | null) => {
+  if (!code) return '';
+  
+  const statusTexts: Record<number, string> = {
+    200: 'OK',
+    201: 'Created',
+    204: 'No Content',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable'
+  };
+  
+  return statusTexts[code] || '';
+};
@@ -0,0 +1,131 @@
+import { methodAllowsBody } from './http';
+import { AuthConfig, applyAuth, authFields } from './auth';
+import { findPathParams } from './pathParams';
+import { splitUrl } from './query';
+import { RequestBuildError, RequestDraft, prepareRequest } from './request';
+
+// {{name}} placeholders; whitespace inside the braces is ignored
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const randomUuid = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+// Built-in helpers, evaluated afresh for every placeholder
+export const DYNAMIC_VARIABLES: Record<string, { description: string; generate: () => string }> = {
+  $uuid: { description: 'Random UUID v4', generate: randomUuid },
+  $timestamp: { description: 'Unix time in seconds', generate: () => String(Math.floor(Date.now() / 1000)) },
+  $isoTimestamp: { description: 'Current time as ISO 8601', generate: () => new Date().toISOString() },
+  $randomInt: { description: 'Random integer from 0 to 1000', generate: () => String(Math.floor(Math.random() * 1001)) },
+};
+
+const isKnown = (name: string, variables: Record<string, string>) =>
+  Object.prototype.hasOwnProperty.call(variables, name) ||
+  Object.prototype.hasOwnProperty.call(DYNAMIC_VARIABLES, name);
+
+// Placeholder names in a string that have no value
+export const findUnresolved = (text: string, variables: Record<string, string>) => {
+  const missing: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    if (!isKnown(match[1], variables) && !missing.includes(match[1])) missing.push(match[1]);
+  }
+  return missing;
+};
+
+// Replaces known placeholders and leaves unknown ones as they are
+export const resolveTemplate = (text: string, variables: Record<string, string>) =>
+  text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) return variables[name];
+    if (Object.prototype.hasOwnProperty.call(DYNAMIC_VARIABLES, name)) return DYNAMIC_VARIABLES[name].generate();
+    return placeholder;
+  });
+
+// Templated parts of whichever body editor is in use
+const bodyFields = (draft: RequestDraft) => {
+  switch (draft.bodyType) {
+    case 'json':
+    case 'raw':
+      return [draft.body];
+    case 'form':
+      return draft.formFields.filter((row) => row.enabled).flatMap((row) => [row.key, row.value]);
+    case 'multipart':
+      return draft.multipartFields
+        .filter((field) => field.enabled)
+        .flatMap((field) => (field.kind === 'text' ? [field.key, field.value] : [field.key]));
+    default:
+      return [];
+  }
+};
+
+// Every templated field that will be sent, in one list
+const templatedFields = (draft: RequestDraft) => [
+  draft.baseUrl,
+  draft.url,
+  ...findPathParams(splitUrl(draft.url).path).map((name) => draft.pathParams[name] || ''),
+  ...authFields(draft.auth),
+  ...(methodAllowsBody(draft.method) ? bodyFields(draft) : []),
+  ...draft.params.filter((row) => row.enabled).flatMap((row) => [row.key, row.value]),
+  ...draft.headers.filter((row) => row.enabled).flatMap((row) => [row.key, row.value]),
+];
+
+export const findUnresolvedInDraft = (draft: RequestDraft, variables: Record<string, string>) => {
+  const missing = new Set<string>();
+  templatedFields(draft).forEach((field) => findUnresolved(field, variables).forEach((name) => missing.add(name)));
+  return Array.from(missing);
+};
+
+export const resolveAuth = (auth: AuthConfig, variables: Record<string, string>): AuthConfig => {
+  const resolve = (text: string) => resolveTemplate(text, variables);
+  return {
+    ...auth,
+    token: resolve(auth.token),
+    username: resolve(auth.username),
+    password: resolve(auth.password),
+    apiKeyName: resolve(auth.apiKeyName),
+    apiKeyValue: resolve(auth.apiKeyValue),
+    tokenUrl: resolve(auth.tokenUrl),
+    clientId: resolve(auth.clientId),
+    clientSecret: resolve(auth.clientSecret),
+    scope: resolve(auth.scope),
+  };
+};
+
+// The draft with every placeholder filled in, ready for prepareRequest
+export const resolveDraft = (draft: RequestDraft, variables: Record<string, string>): RequestDraft => {
+  const resolve = (text: string) => resolveTemplate(text, variables);
+  return {
+    ...draft,
+    baseUrl: resolve(draft.baseUrl),
+    url: resolve(draft.url),
+    pathParams: Object.fromEntries(
+      Object.entries(draft.pathParams).map(([name, value]) => [name, resolve(value)])
+    ),
+    auth: resolveAuth(draft.auth, variables),
+    body: resolve(draft.body),
+    formFields: draft.formFields.map((row) => ({ ...row, key: resolve(row.key), value: resolve(row.value) })),
+    multipartFields: draft.multipartFields.map((field) => ({
+      ...field,
+      key: resolve(field.key),
+      value: field.kind === 'text' ? resolve(field.value) : field.value,
+    })),
+    params: draft.params.map((row) => ({ ...row, key: resolve(row.key), value: resolve(row.value) })),
+    headers: draft.headers.map((row) => ({ ...row, key: resolve(row.key), value: resolve(row.value) })),
+  };
+};
+
+// Fills in the placeholders and builds the request with its auth, refusing to send while any are unknown.
+// The draft's auth should already be resolved from 'inherit' with effectiveAuth
+export const prepareTemplatedRequest = (draft: RequestDraft, variables: Record<string, string>) => {
+  const unresolved = findUnresolvedInDraft(draft, variables);
+  if (unresolved.length > 0) {
+    throw new RequestBuildError(`Unresolved variables: ${unresolved.map((name) => `{{${name}}}`).join(', ')}`);
+  }
+  const resolved = resolveDraft(draft, variables);
+  return applyAuth(prepareRequest(resolved), resolved.auth);
+};
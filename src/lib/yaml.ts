@@ -0,0 +1,327 @@
+// A YAML reader covering what API specs use: block mappings and sequences, flow collections,
+// quoted and plain scalars, block scalars (| and >), anchors, aliases and merge keys
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+// Index of the quote closing the one at start, or -1
+const closingQuote = (text: string, start: number) => {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') i++;
+    else if (quote === "'" && text[i] === "'" && text[i + 1] === "'") i++;
+    else if (text[i] === quote) return i;
+  }
+  return -1;
+};
+
+// Drops a trailing # comment; quotes only count where a value can start
+const stripComment = (text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const atStart = i === 0 || /[\s[{,:]/.test(text[i - 1]);
+    if ((ch === '"' || ch === "'") && atStart) {
+      const end = closingQuote(text, i);
+      if (end < 0) return text;
+      i = end;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+};
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+// Index of the colon ending a mapping key, or -1 when the text isn't "key: value"
+const findKeySeparator = (text: string) => {
+  let i = 0;
+  if (text[0] === '"' || text[0] === "'") {
+    const end = closingQuote(text, 0);
+    if (end < 0) return -1;
+    i = end + 1;
+  } else if (/^[[{]/.test(text)) {
+    return -1;
+  }
+  // Colons inside a flow collection, as in "&a {x: 1}", don't end a key
+  let depth = 0;
+  for (; i < text.length; i++) {
+    if (text[i] === '[' || text[i] === '{') depth++;
+    else if (text[i] === ']' || text[i] === '}') depth--;
+    else if (depth === 0 && text[i] === ':' && (i + 1 === text.length || /\s/.test(text[i + 1]))) return i;
+  }
+  return -1;
+};
+
+const parseScalar = (text: string): unknown => {
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^0x[0-9a-f]+$/i.test(text)) return parseInt(text, 16);
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.inf$/i.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.nan$/i.test(text)) return NaN;
+  return text;
+};
+
+const foldLines = (lines: string[]) =>
+  lines.reduce((text, line, index) => {
+    if (index === 0) return line;
+    const previous = lines[index - 1];
+    if (line === '') return `${text}\n`;
+    // Blank lines already became newlines; more-indented lines keep theirs
+    if (previous === '') return `${text}${line}`;
+    if (/^\s/.test(line) || /^\s/.test(previous)) return `${text}\n${line}`;
+    return `${text} ${line}`;
+  }, '');
+
+export const parseYaml = (source: string): unknown => {
+  const raw = source.replace(/\r\n?/g, '\n').split('\n');
+  const lines: (YamlLine | null)[] = raw.map((rawLine) => {
+    const content = stripComment(rawLine).replace(/\s+$/, '');
+    const text = content.trim();
+    if (!text || text === '---' || text === '...' || text.startsWith('%')) return null;
+    return { indent: content.length - content.trimStart().length, text };
+  });
+  const anchors: Record<string, unknown> = {};
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`YAML line ${Math.min(pos, raw.length - 1) + 1}: ${message}`);
+  };
+
+  // The next line with content, skipping blanks and comments
+  const peek = () => {
+    while (pos < lines.length && !lines[pos]) pos++;
+    return pos < lines.length ? lines[pos] : null;
+  };
+
+  const unquote = (text: string) => {
+    if (text[0] === "'") return text.slice(1, -1).replace(/''/g, "'");
+    try {
+      const json = text
+        .replace(/\t/g, '\\t')
+        .replace(/\\x([0-9a-fA-F]{2})/g, '\\u00$1')
+        .replace(/\\0/g, '\\u0000')
+        .replace(/\\ /g, ' ');
+      return JSON.parse(json) as string;
+    } catch (e) {
+      return fail(`can't read the string ${text}`);
+    }
+  };
+
+  const parseFlow = (text: string) => {
+    let i = 0;
+    const skipSpace = () => {
+      while (i < text.length && /\s/.test(text[i])) i++;
+    };
+    const readValue = (): unknown => {
+      skipSpace();
+      const ch = text[i];
+      if (ch === '[') {
+        i++;
+        const items: unknown[] = [];
+        skipSpace();
+        while (text[i] !== ']') {
+          items.push(readValue());
+          skipSpace();
+          if (text[i] === ',') i++;
+          else if (text[i] !== ']') fail('expected , or ] in a flow sequence');
+          skipSpace();
+        }
+        i++;
+        return items;
+      }
+      if (ch === '{') {
+        i++;
+        const result: Record<string, unknown> = {};
+        skipSpace();
+        while (text[i] !== '}') {
+          const key = readValue();
+          skipSpace();
+          let value: unknown = null;
+          if (text[i] === ':') {
+            i++;
+            value = readValue();
+            skipSpace();
+          }
+          result[String(key)] = value;
+          if (text[i] === ',') i++;
+          else if (text[i] !== '}') fail('expected , or } in a flow mapping');
+          skipSpace();
+        }
+        i++;
+        return result;
+      }
+      if (ch === '"' || ch === "'") {
+        const end = closingQuote(text, i);
+        if (end < 0) fail('unclosed quote');
+        const value = unquote(text.slice(i, end + 1));
+        i = end + 1;
+        return value;
+      }
+      const start = i;
+      while (i < text.length && !',]}'.includes(text[i]) && !(text[i] === ':' && /^[\s,\]}]?$/.test(text[i + 1] ?? ''))) {
+        i++;
+      }
+      if (i >= text.length && start === i) fail('unexpected end of a flow collection');
+      return parseScalar(text.slice(start, i).trim());
+    };
+    const value = readValue();
+    skipSpace();
+    if (i < text.length) fail('unexpected text after a flow collection');
+    return value;
+  };
+
+  const isBalanced = (text: string) => {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '"' || text[i] === "'") {
+        const end = closingQuote(text, i);
+        if (end < 0) return false;
+        i = end;
+      } else if (text[i] === '[' || text[i] === '{') {
+        depth++;
+      } else if (text[i] === ']' || text[i] === '}') {
+        depth--;
+      }
+    }
+    return depth <= 0;
+  };
+
+  // A value written on the line, pulling in the lines it continues onto
+  const parseInline = (first: string, parentIndent: number) => {
+    let text = first;
+    if (/^[[{]/.test(text)) {
+      while (!isBalanced(text) && peek()) text = `${text} ${(lines[pos++] as YamlLine).text}`;
+      return parseFlow(text);
+    }
+    if (text[0] === '"' || text[0] === "'") {
+      while (closingQuote(text, 0) < 0 && pos < raw.length) text = `${text} ${raw[pos++].trim()}`;
+      const end = closingQuote(text, 0);
+      if (end < 0) fail('unclosed quote');
+      if (text.slice(end + 1).trim()) fail(`unexpected text after ${text.slice(0, end + 1)}`);
+      return unquote(text.slice(0, end + 1));
+    }
+    // Plain scalars may run on over more-indented lines
+    for (let line = peek(); line && line.indent > parentIndent; line = peek()) {
+      text = `${text} ${line.text}`;
+      pos++;
+    }
+    return parseScalar(text);
+  };
+
+  const parseBlockScalar = (header: string, parentIndent: number) => {
+    const folded = header[0] === '>';
+    const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const body: string[] = [];
+    let blockIndent = -1;
+    while (pos < raw.length) {
+      const rawLine = raw[pos];
+      if (rawLine.trim() === '') {
+        body.push('');
+        pos++;
+        continue;
+      }
+      const lineIndent = rawLine.length - rawLine.trimStart().length;
+      if (lineIndent <= parentIndent || (blockIndent >= 0 && lineIndent < blockIndent)) break;
+      if (blockIndent < 0) blockIndent = lineIndent;
+      body.push(rawLine.slice(blockIndent).replace(/\s+$/, ''));
+      pos++;
+    }
+    let end = body.length;
+    while (end > 0 && body[end - 1] === '') end--;
+    const content = body.slice(0, end);
+    const text = folded ? foldLines(content) : content.join('\n');
+    if (chomp === 'strip' || content.length === 0) return text;
+    return chomp === 'keep' ? `${text}${'\n'.repeat(body.length - end + 1)}` : `${text}\n`;
+  };
+
+  const parseValue = (rest: string, parentIndent: number, inMapping: boolean): unknown => {
+    let text = rest;
+    const anchor = text.match(/^&(\S+)\s*/);
+    if (anchor) text = text.slice(anchor[0].length);
+    // !!str keeps values like 1.0 as text; other tags don't change how specs are read
+    const tag = text.match(/^!\S*\s*/);
+    if (tag) text = text.slice(tag[0].length);
+
+    let value: unknown;
+    if (text.startsWith('*')) {
+      const name = text.slice(1).trim();
+      if (!(name in anchors)) fail(`unknown alias *${name}`);
+      value = anchors[name];
+    } else if (text === '') {
+      const line = peek();
+      const nested = line && (line.indent > parentIndent || (inMapping && line.indent === parentIndent && isSequenceItem(line.text)));
+      value = nested ? parseNode() : null;
+    } else if (/^[|>][-+0-9]*$/.test(text)) {
+      value = parseBlockScalar(text, parentIndent);
+    } else {
+      value = parseInline(text, parentIndent);
+      if (tag?.[0].trim() === '!!str' && typeof value !== 'string') value = value === null ? '' : String(value);
+    }
+    if (anchor) anchors[anchor[1]] = value;
+    return value;
+  };
+
+  const parseKey = (text: string) => (text[0] === '"' || text[0] === "'" ? unquote(text) : text);
+
+  const parseMapping = (indent: number) => {
+    const result: Record<string, unknown> = {};
+    for (let line = peek(); line && line.indent >= indent && !isSequenceItem(line.text); line = peek()) {
+      if (line.indent > indent) fail('unexpected indentation');
+      const separator = findKeySeparator(line.text);
+      if (separator < 0) fail(`expected "key: value", found "${line.text}"`);
+      const key = parseKey(line.text.slice(0, separator).trim());
+      pos++;
+      const value = parseValue(line.text.slice(separator + 1).trim(), indent, true);
+      if (key === '<<') {
+        // Merged mappings fill in keys the mapping doesn't set itself
+        (Array.isArray(value) ? value : [value]).forEach((merged) => {
+          if (merged && typeof merged === 'object') {
+            Object.entries(merged).forEach(([k, v]) => {
+              if (!(k in result)) result[k] = v;
+            });
+          }
+        });
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  };
+
+  const parseSequence = (indent: number) => {
+    const items: unknown[] = [];
+    for (let line = peek(); line && line.indent === indent && isSequenceItem(line.text); line = peek()) {
+      const rest = line.text.slice(1).trim();
+      const offset = line.text.length - rest.length;
+      if (rest && (isSequenceItem(rest) || findKeySeparator(rest) >= 0)) {
+        // "- key: value" and "- - item" open a nested block at the item's column
+        lines[pos] = { indent: indent + offset, text: rest };
+        items.push(parseNode());
+      } else {
+        pos++;
+        items.push(parseValue(rest, indent, false));
+      }
+    }
+    const after = peek();
+    if (after && after.indent > indent) fail('unexpected indentation');
+    return items;
+  };
+
+  // The block starting at the next line, at that line's indentation
+  const parseNode = (): unknown => {
+    const line = peek();
+    if (!line) return null;
+    if (isSequenceItem(line.text)) return parseSequence(line.indent);
+    if (findKeySeparator(line.text) >= 0) return parseMapping(line.indent);
+    pos++;
+    return parseInline(line.text, line.indent - 1);
+  };
+
+  const result = parseNode();
+  if (peek()) fail(`unexpected "${(lines[pos] as YamlLine).text}"`);
+  return result;
+};